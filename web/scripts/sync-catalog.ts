@@ -0,0 +1,352 @@
+/**
+ * Headless catalog upload for cron jobs and build pipelines. Reads a CSV, XLSX, JSON or NDJSON file, maps it the way
+ * the import wizard does, and sends every product through the same validation, payload builder and simulate / sandbox
+ * / live path as the dashboard's queue. Writes a results file and exits with 1 when any product fails. While the
+ * dashboard server is running on the same data directory, the products go through its batch API instead, so the two
+ * processes never write the same store files.
+ *
+ *   npx tsx scripts/sync-catalog.ts --file products.csv --profile "Main store" --mode live --out results.csv
+ */
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import { BatchItemStatus, BatchStatus, MAX_BATCH_SIZE } from "../src/lib/batches";
+import { buildResultsCsv } from "../src/lib/exports";
+import {
+  AGENT_MODES,
+  AgentMode,
+  AgentSettings,
+  ListingOperation,
+  ProductDraft,
+  normalizeProduct,
+} from "../src/lib/indiamart";
+import { DEFAULT_IMPORT_VALUES, applyMapping, findMatchingPreset, suggestMapping } from "../src/lib/importMapping";
+import { readImportFile } from "../src/lib/importSources";
+import { DEFAULT_RETRY_POLICY, UploadJob, normalizeRetryPolicy, retryDelay } from "../src/lib/jobs";
+import { PricingError, formatPrice } from "../src/lib/pricing";
+import { syncProduct } from "../src/lib/server/catalogSync";
+import { listPresets } from "../src/lib/server/presetStore";
+import { priceProduct } from "../src/lib/server/pricingStore";
+import { listProfiles } from "../src/lib/server/profileVault";
+import { ServerInfo, findRunningServer } from "../src/lib/server/serverInfo";
+import { classifyFailure } from "../src/lib/server/uploader";
+
+const USAGE = `Usage: sync-catalog --file <products.csv|.xlsx|.json|.ndjson> [options]
+
+  --profile <id or name>   Seller profile from the dashboard's vault (required for live uploads)
+  --mode <mode>            simulate, sandbox or live (default: the profile's default mode, else simulate)
+  --delete                 Remove the listed SKUs from IndiaMART instead of creating or updating them
+  --sheet <name>           Worksheet to read from an XLSX file (default: the first)
+  --max-attempts <n>       Attempts per product for network and retryable IndiaMART errors (default: ${DEFAULT_RETRY_POLICY.maxAttempts})
+  --out <file>             Results file, .csv or .json (default: catalog-results-<timestamp>.csv)
+  --help                   Show this message`;
+
+const POLL_INTERVAL_MS = 2000;
+
+class UsageError extends Error {}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const readOptions = () => {
+  const { values } = parseArgs({
+    options: {
+      file: { type: "string" },
+      profile: { type: "string" },
+      mode: { type: "string" },
+      delete: { type: "boolean", default: false },
+      sheet: { type: "string" },
+      "max-attempts": { type: "string" },
+      out: { type: "string" },
+      help: { type: "boolean", default: false },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    process.exit(0);
+  }
+  if (!values.file) {
+    throw new UsageError("--file is required.");
+  }
+  if (values.mode && !AGENT_MODES.includes(values.mode as AgentMode)) {
+    throw new UsageError(`Unknown mode "${values.mode}". Use ${AGENT_MODES.join(", ")}.`);
+  }
+  return { ...values, file: values.file };
+};
+
+const resolveSettings = async (profileRef: string | undefined, mode: AgentMode | undefined): Promise<AgentSettings> => {
+  if (!profileRef) {
+    if (mode === "live") {
+      throw new UsageError("Live uploads need a seller profile: pass --profile.");
+    }
+    return { mode: mode ?? "simulate" };
+  }
+  const profiles = await listProfiles();
+  const matches = profiles.filter(
+    (profile) => profile.id === profileRef || profile.name.toLowerCase() === profileRef.toLowerCase(),
+  );
+  if (matches.length !== 1) {
+    throw new UsageError(
+      matches.length
+        ? `More than one seller profile is named "${profileRef}"; pass its ID instead.`
+        : `No seller profile "${profileRef}". Known profiles: ${profiles.map((profile) => profile.name).join(", ") || "none"}.`,
+    );
+  }
+  return { profileId: matches[0].id, mode: mode ?? matches[0].defaultMode };
+};
+
+const readProducts = async (file: string, sheet: string | undefined) => {
+  const buffer = await fs.readFile(file);
+  const source = await readImportFile(new File([buffer], path.basename(file)), sheet);
+  // A preset saved in the dashboard for this supplier's columns wins over guessing from the headers.
+  const preset = findMatchingPreset(source.headers, await listPresets());
+  const mapping = suggestMapping(source.headers, preset);
+  const defaults = { ...DEFAULT_IMPORT_VALUES, ...preset?.defaults };
+  return {
+    preset,
+    drafts: source.rows.map((row) => applyMapping(source.headers, row.cells, mapping, defaults)),
+  };
+};
+
+/** Applies the dashboard's pricing rules, as queueing does; a currency without an exchange rate fails the product. */
+const priceJob = async (job: UploadJob, settings: AgentSettings) => {
+  if (job.operation === "delete") {
+    return true;
+  }
+  try {
+    const priced = await priceProduct(job.product, settings.profileId);
+    Object.assign(job, { product: priced.draft, pricing: priced.pricing });
+    return true;
+  } catch (error) {
+    if (error instanceof PricingError) {
+      Object.assign(job, { state: "failed", error: error.message, failureKind: "validation" });
+      return false;
+    }
+    throw error;
+  }
+};
+
+/** Runs one product to completion, retrying the same failures the queue worker retries. */
+const runJob = async (job: UploadJob, settings: AgentSettings, maxAttempts: number) => {
+  const policy = normalizeRetryPolicy({ ...DEFAULT_RETRY_POLICY, maxAttempts });
+  job.startedAt = Date.now();
+  while (true) {
+    job.attempts += 1;
+    try {
+      const { outcome, operation, productId } = await syncProduct(
+        normalizeProduct(job.product),
+        settings,
+        job.operation === "delete" ? "delete" : undefined,
+        { jobId: job.id, attempt: job.attempts },
+      );
+      Object.assign(job, { operation, productId: productId ?? job.productId, result: outcome.body });
+      if (outcome.httpStatus < 400) {
+        return Object.assign(job, { state: "succeeded", error: undefined, failureKind: undefined });
+      }
+      const { kind, retryable } = classifyFailure(outcome);
+      Object.assign(job, { error: outcome.body.error ?? "Unable to upload product.", failureKind: kind });
+      if (!retryable || job.attempts >= policy.maxAttempts) {
+        return Object.assign(job, { state: "failed" });
+      }
+      await sleep(Math.max(retryDelay(policy, job.attempts), outcome.retryAfterMs ?? 0));
+    } catch (error) {
+      Object.assign(job, {
+        error: error instanceof Error ? error.message : "Unexpected error while uploading product.",
+        failureKind: "network",
+      });
+      if (job.attempts >= policy.maxAttempts) {
+        return Object.assign(job, { state: "failed" });
+      }
+      await sleep(retryDelay(policy, job.attempts));
+    }
+  }
+};
+
+const requestServer = async <T>(server: ServerInfo, pathname: string, init?: RequestInit) => {
+  let response: Response;
+  try {
+    response = await fetch(new URL(pathname, server.url), init);
+  } catch (error) {
+    throw new Error(
+      `Unable to reach the dashboard server at ${server.url} (pid ${server.pid}): ${
+        error instanceof Error ? error.message : "network error"
+      }.`,
+    );
+  }
+  const body = (await response.json().catch(() => ({}))) as T & { error?: string };
+  if (!response.ok) {
+    throw new Error(`The dashboard server answered HTTP ${response.status}: ${body.error ?? "no details"}`);
+  }
+  return body;
+};
+
+const fromBatchItem = (
+  item: BatchItemStatus,
+  draft: ProductDraft,
+  createdAt: number,
+  operation: ListingOperation | undefined,
+): UploadJob => ({
+  id: item.jobId ?? randomUUID(),
+  createdAt,
+  updatedAt: Date.now(),
+  finishedAt: Date.now(),
+  state: item.state === "succeeded" ? "succeeded" : "failed",
+  operation: item.operation ?? operation ?? "create",
+  product: item.pricing ? { ...draft, price: item.pricing.price, currency: item.pricing.currency } : draft,
+  pricing: item.pricing,
+  attempts: item.attempts,
+  productId: item.productId,
+  result: item.result,
+  error: item.error,
+  failureKind: item.failureKind ?? (item.state === "rejected" ? "validation" : undefined),
+});
+
+/**
+ * Hands the products to the running server's batch API, in batches of at most MAX_BATCH_SIZE, and waits for every
+ * item to finish. The server applies its own pricing rules and retry policy.
+ */
+const runThroughServer = async (
+  server: ServerInfo,
+  drafts: ProductDraft[],
+  settings: AgentSettings,
+  operation: ListingOperation | undefined,
+  onFinished: (job: UploadJob, index: number) => void,
+) => {
+  const batches: { id: string; offset: number }[] = [];
+  for (let offset = 0; offset < drafts.length; offset += MAX_BATCH_SIZE) {
+    const { batch } = await requestServer<{ batch: BatchStatus }>(server, "/api/batches", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ products: drafts.slice(offset, offset + MAX_BATCH_SIZE), settings, operation }),
+    });
+    batches.push({ id: batch.id, offset });
+  }
+
+  const now = Date.now();
+  const jobs: (UploadJob | null)[] = drafts.map(() => null);
+  while (jobs.includes(null)) {
+    for (const { id, offset } of batches) {
+      const { batch } = await requestServer<{ batch: BatchStatus }>(server, `/api/batches/${id}`);
+      batch.items
+        .filter((item) => item.state !== "queued" && item.state !== "running" && !jobs[offset + item.index])
+        .forEach((item) => {
+          const index = offset + item.index;
+          const job = fromBatchItem(item, drafts[index], now + index, operation);
+          jobs[index] = job;
+          onFinished(job, index);
+        });
+    }
+    if (jobs.includes(null)) {
+      await sleep(POLL_INTERVAL_MS);
+    }
+  }
+  return jobs.filter((job): job is UploadJob => job !== null);
+};
+
+const writeResults = async (file: string, jobs: UploadJob[]) => {
+  const content = file.toLowerCase().endsWith(".json")
+    ? JSON.stringify(
+        jobs.map((job) => ({
+          sku: job.product.sku,
+          title: job.product.title,
+          operation: job.operation,
+          status: job.state,
+          attempts: job.attempts,
+          productId: job.productId,
+          pricing: job.pricing,
+          error: job.error,
+          failureKind: job.failureKind,
+          result: job.result,
+        })),
+        null,
+        2,
+      )
+    : buildResultsCsv(jobs);
+  await fs.writeFile(file, content, "utf8");
+};
+
+const main = async () => {
+  const options = readOptions();
+  const settings = await resolveSettings(options.profile, options.mode as AgentMode | undefined);
+  const operation: ListingOperation | undefined = options.delete ? "delete" : undefined;
+  const maxAttempts = Number(options["max-attempts"] ?? DEFAULT_RETRY_POLICY.maxAttempts);
+  const out = options.out ?? `catalog-results-${new Date().toISOString().replace(/[:.]/g, "-")}.csv`;
+  const server = await findRunningServer();
+  // The sandbox catalog is a mock served by the dashboard app; without it every upload fails with a network error.
+  if (settings.mode === "sandbox" && !server && !process.env.SANDBOX_INDIAMART_URL) {
+    throw new UsageError(
+      "Sandbox uploads go to the dashboard's mock catalog: start the app (npm run dev or npm start) first, " +
+        "or set SANDBOX_INDIAMART_URL to a running instance.",
+    );
+  }
+
+  const { preset, drafts } = await readProducts(options.file, options.sheet);
+  if (drafts.length === 0) {
+    throw new Error(`No products found in ${options.file}.`);
+  }
+  console.log(
+    `${drafts.length} product${drafts.length === 1 ? "" : "s"} from ${options.file}` +
+      `${preset ? ` (columns from preset "${preset.supplier}")` : ""} · mode ${settings.mode}` +
+      `${settings.profileId ? ` · profile ${options.profile}` : ""}`,
+  );
+
+  const width = String(drafts.length).length;
+  const report = (job: UploadJob, index: number) => {
+    const label = `${job.product.sku || "(no SKU)"} ${job.product.title || "Untitled product"}${
+      job.pricing ? ` at ${formatPrice(job.pricing.price, job.pricing.currency)} ("${job.pricing.ruleName}")` : ""
+    }`;
+    const progress = `[${String(index + 1).padStart(width)}/${drafts.length}]`;
+    console.log(
+      job.state === "succeeded"
+        ? `${progress} ok      ${job.operation.padEnd(6)} ${label}${job.productId ? ` → ${job.productId}` : ""}`
+        : `${progress} FAILED  ${job.operation.padEnd(6)} ${label}: ${job.error}`,
+    );
+  };
+
+  let jobs: UploadJob[];
+  if (server) {
+    console.log(`The dashboard server (pid ${server.pid}) owns the data directory; sending the products to its queue.`);
+    if (options["max-attempts"]) {
+      console.log("--max-attempts is ignored: the server retries with its own retry policy.");
+    }
+    jobs = await runThroughServer(server, drafts, settings, operation, report);
+  } else {
+    const now = Date.now();
+    jobs = drafts.map((product, index) => ({
+      id: randomUUID(),
+      createdAt: now + index,
+      updatedAt: now,
+      state: "queued",
+      operation: operation ?? "create",
+      product,
+      attempts: 0,
+    }));
+    for (const [index, job] of jobs.entries()) {
+      if (await priceJob(job, settings)) {
+        await runJob(job, settings, maxAttempts);
+      }
+      job.finishedAt = Date.now();
+      job.updatedAt = job.finishedAt;
+      report(job, index);
+    }
+  }
+
+  await writeResults(out, jobs);
+  const failed = jobs.filter((job) => job.state === "failed").length;
+  console.log(`${jobs.length - failed} succeeded, ${failed} failed. Results written to ${out}.`);
+  return failed ? 1 : 0;
+};
+
+main()
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error) => {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n\n${USAGE}`);
+      process.exitCode = 2;
+      return;
+    }
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 2;
+  });
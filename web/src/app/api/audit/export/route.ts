@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { parseAuditQuery } from "../../../../lib/audit";
+import { buildAuditCsv } from "../../../../lib/exports";
+import { queryAudit } from "../../../../lib/server/auditLog";
+
+const FORMATS = ["json", "csv"];
+
+/** Every entry matching the same filters as `GET /api/audit`, as a download. */
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const format = params.get("format") ?? "csv";
+  if (!FORMATS.includes(format)) {
+    return NextResponse.json({ error: "Unknown export format." }, { status: 400 });
+  }
+
+  const { entries } = await queryAudit(parseAuditQuery(params), false);
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-");
+  return new NextResponse(format === "csv" ? buildAuditCsv(entries) : JSON.stringify(entries, null, 2), {
+    status: 200,
+    headers: {
+      "content-type": format === "csv" ? "text/csv; charset=utf-8" : "application/json; charset=utf-8",
+      "content-disposition": `attachment; filename="indiamart-audit-log-${stamp}.${format}"`,
+    },
+  });
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { AUDIT_LEVELS, AuditEntryInput, parseAuditQuery } from "../../../lib/audit";
+import { AGENT_MODES } from "../../../lib/indiamart";
+import { queryAudit, recordAudit } from "../../../lib/server/auditLog";
+
+export async function GET(request: Request) {
+  return NextResponse.json(await queryAudit(parseAuditQuery(new URL(request.url).searchParams)), { status: 200 });
+}
+
+/** Events that happen only in the dashboard, such as import or validation problems. */
+export async function POST(request: Request) {
+  let body: Partial<AuditEntryInput>;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload received." }, { status: 400 });
+  }
+
+  if (!body.level || !AUDIT_LEVELS.includes(body.level) || typeof body.headline !== "string" || !body.headline.trim()) {
+    return NextResponse.json({ error: "A level and headline are required." }, { status: 400 });
+  }
+
+  const entry = await recordAudit(
+    {
+      level: body.level,
+      headline: body.headline.trim(),
+      details: typeof body.details === "string" ? body.details : undefined,
+      sku: typeof body.sku === "string" ? body.sku : undefined,
+      title: typeof body.title === "string" ? body.title : undefined,
+      profileId: typeof body.profileId === "string" ? body.profileId : undefined,
+      mode: body.mode && AGENT_MODES.includes(body.mode) ? body.mode : undefined,
+    },
+    "dashboard",
+  );
+  return NextResponse.json({ entry }, { status: 201 });
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { getBatchStatus } from "../../../../lib/server/batchProcessor";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/** Poll until `state` is `completed`; each item carries its job state, payload, IndiaMART response and errors. */
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const batch = await getBatchStatus(id);
+
+  if (!batch) {
+    return NextResponse.json({ error: "Batch not found." }, { status: 404 });
+  }
+
+  return NextResponse.json({ batch }, { status: 200 });
+}
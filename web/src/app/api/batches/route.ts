@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+import { MAX_BATCH_SIZE } from "../../../lib/batches";
+import { AgentMode, AgentSettings } from "../../../lib/indiamart";
+import { DEFAULT_IMPORT_VALUES, applyMapping, suggestMapping } from "../../../lib/importMapping";
+import { ImportSourceError, ImportTable, parseJsonCatalog, parseNdjsonCatalog } from "../../../lib/importSources";
+import { BatchError, getBatchStatus, listBatchSummaries, submitBatch } from "../../../lib/server/batchProcessor";
+
+type BatchOptions = {
+  settings?: AgentSettings;
+  operation?: "delete";
+};
+
+/** Products use the same field names and aliases as file imports (`title`, `PRODUCT_NAME`, `moq`, arrays, …). */
+const toDrafts = (table: ImportTable) => {
+  const mapping = suggestMapping(table.headers);
+  return table.rows.map((row) => applyMapping(table.headers, row.cells, mapping, DEFAULT_IMPORT_VALUES));
+};
+
+/**
+ * NDJSON bodies carry one product per line, so the profile, mode and operation come from the query string. JSON
+ * bodies are an array of products or `{ products, settings, operation }`.
+ */
+const readBatch = async (request: Request): Promise<{ table: ImportTable; options: BatchOptions }> => {
+  const params = new URL(request.url).searchParams;
+  const fromQuery: BatchOptions = {
+    settings: {
+      profileId: params.get("profileId") ?? undefined,
+      mode: (params.get("mode") as AgentMode | null) ?? undefined,
+    },
+    operation: params.get("operation") === "delete" ? "delete" : undefined,
+  };
+  const text = await request.text();
+  const contentType = request.headers.get("content-type") ?? "";
+  if (contentType.includes("ndjson") || contentType.includes("jsonl")) {
+    return { table: parseNdjsonCatalog(text), options: fromQuery };
+  }
+  const table = parseJsonCatalog(text);
+  const body = JSON.parse(text) as BatchOptions | unknown[];
+  return Array.isArray(body)
+    ? { table, options: fromQuery }
+    : {
+        table,
+        options: {
+          settings: { ...fromQuery.settings, ...body.settings },
+          operation: body.operation === "delete" ? "delete" : fromQuery.operation,
+        },
+      };
+};
+
+export async function GET() {
+  return NextResponse.json({ batches: await listBatchSummaries() }, { status: 200 });
+}
+
+export async function POST(request: Request) {
+  let batch: { table: ImportTable; options: BatchOptions };
+
+  try {
+    batch = await readBatch(request);
+  } catch (error) {
+    if (error instanceof ImportSourceError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+
+  const products = toDrafts(batch.table);
+  if (products.length === 0) {
+    return NextResponse.json({ error: "No products provided in the batch." }, { status: 400 });
+  }
+  if (products.length > MAX_BATCH_SIZE) {
+    return NextResponse.json(
+      { error: `A batch takes at most ${MAX_BATCH_SIZE} products (${products.length} given).` },
+      { status: 413 },
+    );
+  }
+
+  try {
+    const id = await submitBatch(products, batch.options.settings ?? {}, batch.options.operation);
+    return NextResponse.json(
+      { batch: await getBatchStatus(id) },
+      { status: 202, headers: { location: `/api/batches/${id}` } },
+    );
+  } catch (error) {
+    if (error instanceof BatchError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { GenerationProviderName, toGenerationRequest } from "../../../lib/generation";
+import { ProductDraft } from "../../../lib/indiamart";
+import { TextGenerationError, generateCopy, listProviders } from "../../../lib/server/textGeneration";
+
+type GenerateBody = {
+  draft?: Partial<Pick<ProductDraft, "title" | "category" | "features">>;
+  provider?: GenerationProviderName;
+};
+
+export async function GET() {
+  return NextResponse.json({ providers: listProviders() }, { status: 200 });
+}
+
+export async function POST(request: Request) {
+  let body: GenerateBody;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload received." }, { status: 400 });
+  }
+
+  const generationRequest = toGenerationRequest({
+    title: String(body.draft?.title ?? ""),
+    category: String(body.draft?.category ?? ""),
+    features: String(body.draft?.features ?? ""),
+  });
+  if (!generationRequest.title && !generationRequest.features.length) {
+    return NextResponse.json({ error: "Add a title or features to generate copy from." }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({ result: await generateCopy(generationRequest, body.provider) }, { status: 200 });
+  } catch (error) {
+    if (error instanceof TextGenerationError) {
+      return NextResponse.json({ error: error.message }, { status: 502 });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { ImageSize } from "../../../../../lib/images";
+import { readImage } from "../../../../../lib/server/imageStore";
+
+type RouteContext = { params: Promise<{ id: string; size: string }> };
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id, size } = await params;
+  const image = await readImage(id, size as ImageSize);
+
+  if (!image) {
+    return NextResponse.json({ error: "Image not found." }, { status: 404 });
+  }
+
+  // Stored files never change under an ID, so clients and IndiaMART may cache them indefinitely.
+  return new NextResponse(new Uint8Array(image.data), {
+    status: 200,
+    headers: {
+      "content-type": image.contentType,
+      "cache-control": "public, max-age=31536000, immutable",
+    },
+  });
+}
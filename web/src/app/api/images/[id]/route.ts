@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { deleteImage } from "../../../../lib/server/imageStore";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  if (!(await deleteImage(id))) {
+    return NextResponse.json({ error: "Image not found." }, { status: 404 });
+  }
+
+  return NextResponse.json({ removed: id }, { status: 200 });
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { checkImageUrl } from "../../../../lib/server/imageStore";
+
+type CheckBody = {
+  urls?: string[];
+};
+
+const MAX_URLS = 20;
+
+export async function POST(request: Request) {
+  let body: CheckBody;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload received." }, { status: 400 });
+  }
+
+  const urls = Array.isArray(body.urls) ? body.urls.map((url) => String(url).trim()).filter(Boolean) : [];
+  if (urls.length === 0) {
+    return NextResponse.json({ error: "No image URLs provided." }, { status: 400 });
+  }
+  if (urls.length > MAX_URLS) {
+    return NextResponse.json({ error: `Check at most ${MAX_URLS} URLs at a time.` }, { status: 400 });
+  }
+
+  return NextResponse.json({ checks: await Promise.all(urls.map(checkImageUrl)) }, { status: 200 });
+}
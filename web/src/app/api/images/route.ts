@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { IMAGE_SIZES, ImageSize, StoredImage, imagePath } from "../../../lib/images";
+import { ImageStoreError, listImages, saveImage } from "../../../lib/server/imageStore";
+import { publicUrl } from "../../../lib/server/publicUrl";
+
+const withUrls = (image: StoredImage, request: Request) => ({
+  ...image,
+  urls: Object.fromEntries(
+    (["original", ...Object.keys(IMAGE_SIZES)] as ImageSize[]).map((size) => [
+      size,
+      publicUrl(imagePath(image.id, size), request),
+    ]),
+  ) as Record<ImageSize, string>,
+});
+
+export async function GET(request: Request) {
+  const images = await listImages();
+  return NextResponse.json({ images: images.map((image) => withUrls(image, request)) }, { status: 200 });
+}
+
+export async function POST(request: Request) {
+  let form: FormData;
+
+  try {
+    form = await request.formData();
+  } catch {
+    return NextResponse.json({ error: "Expected a multipart form upload." }, { status: 400 });
+  }
+
+  const files = form.getAll("files").filter((value): value is File => value instanceof File);
+  if (files.length === 0) {
+    return NextResponse.json({ error: "No image files provided." }, { status: 400 });
+  }
+
+  const images: ReturnType<typeof withUrls>[] = [];
+  const errors: { fileName: string; error: string }[] = [];
+  for (const file of files) {
+    try {
+      const image = await saveImage(Buffer.from(await file.arrayBuffer()), file.name);
+      images.push(withUrls(image, request));
+    } catch (error) {
+      if (!(error instanceof ImageStoreError)) {
+        throw error;
+      }
+      errors.push({ fileName: file.name, error: error.message });
+    }
+  }
+
+  return NextResponse.json({ images, errors }, { status: images.length ? 201 : 400 });
+}
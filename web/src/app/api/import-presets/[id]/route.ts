@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { ImportPresetInput } from "../../../../lib/importMapping";
+import { PresetStoreError, deletePreset, updatePreset } from "../../../../lib/server/presetStore";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  let body: ImportPresetInput;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload received." }, { status: 400 });
+  }
+
+  try {
+    const preset = await updatePreset(id, body);
+    if (!preset) {
+      return NextResponse.json({ error: "Import preset not found." }, { status: 404 });
+    }
+    return NextResponse.json({ preset }, { status: 200 });
+  } catch (error) {
+    if (error instanceof PresetStoreError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  if (!(await deletePreset(id))) {
+    return NextResponse.json({ error: "Import preset not found." }, { status: 404 });
+  }
+
+  return NextResponse.json({ removed: id }, { status: 200 });
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { ImportPresetInput } from "../../../lib/importMapping";
+import { PresetStoreError, listPresets, savePreset } from "../../../lib/server/presetStore";
+
+export async function GET() {
+  return NextResponse.json({ presets: await listPresets() }, { status: 200 });
+}
+
+export async function POST(request: Request) {
+  let body: ImportPresetInput;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload received." }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({ preset: await savePreset(body) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof PresetStoreError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
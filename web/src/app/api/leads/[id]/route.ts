@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { LeadUpdate } from "../../../../lib/leads";
+import { LeadStoreError, updateLead } from "../../../../lib/server/leadStore";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  let body: LeadUpdate;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload received." }, { status: 400 });
+  }
+
+  try {
+    const lead = await updateLead(id, { status: body.status, note: body.note });
+    if (!lead) {
+      return NextResponse.json({ error: "Lead not found." }, { status: 404 });
+    }
+    return NextResponse.json({ lead }, { status: 200 });
+  } catch (error) {
+    if (error instanceof LeadStoreError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { LEAD_STATUSES, LeadStatus } from "../../../lib/leads";
+import { ensureLeadPoller } from "../../../lib/server/leadPoller";
+import { listLeads } from "../../../lib/server/leadStore";
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const status = searchParams.get("status") ?? undefined;
+
+  if (status && !LEAD_STATUSES.includes(status as LeadStatus)) {
+    return NextResponse.json({ error: `Unknown lead status "${status}".` }, { status: 400 });
+  }
+
+  await ensureLeadPoller();
+  const result = await listLeads({
+    status: status as LeadStatus | undefined,
+    profileId: searchParams.get("profileId") ?? undefined,
+    q: searchParams.get("q") ?? undefined,
+  });
+  return NextResponse.json(result, { status: 200 });
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { LeadSourceInput } from "../../../../lib/leads";
+import { ensureLeadPoller } from "../../../../lib/server/leadPoller";
+import { LeadStoreError, getLeadSource, updateLeadSource } from "../../../../lib/server/leadStore";
+import { getProfile, listProfiles } from "../../../../lib/server/profileVault";
+
+export async function GET() {
+  const profiles = await listProfiles();
+  const sources = await Promise.all(profiles.map((profile) => getLeadSource(profile.id)));
+  return NextResponse.json({ sources }, { status: 200 });
+}
+
+export async function PUT(request: Request) {
+  let body: LeadSourceInput & { profileId?: string };
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload received." }, { status: 400 });
+  }
+
+  if (!body.profileId || !(await getProfile(body.profileId))) {
+    return NextResponse.json({ error: "Seller profile not found." }, { status: 404 });
+  }
+
+  try {
+    const source = await updateLeadSource(body.profileId, { enabled: body.enabled, environment: body.environment });
+    await ensureLeadPoller();
+    return NextResponse.json({ source }, { status: 200 });
+  } catch (error) {
+    if (error instanceof LeadStoreError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
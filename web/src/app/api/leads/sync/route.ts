@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { LEAD_PULL_INTERVAL_MS } from "../../../../lib/leads";
+import { pullLeads } from "../../../../lib/server/leadPoller";
+import { getLeadSource } from "../../../../lib/server/leadStore";
+import { getProfile } from "../../../../lib/server/profileVault";
+
+/** Pulls one profile's enquiries now instead of waiting for the poller. */
+export async function POST(request: Request) {
+  let body: { profileId?: string };
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload received." }, { status: 400 });
+  }
+
+  if (!body.profileId || !(await getProfile(body.profileId))) {
+    return NextResponse.json({ error: "Seller profile not found." }, { status: 404 });
+  }
+
+  // The poller keeps to IndiaMART's limit on its own; repeated clicks must not get the live CRM key throttled.
+  const previous = await getLeadSource(body.profileId);
+  const waitMs = (previous.lastPullAt ?? 0) + LEAD_PULL_INTERVAL_MS - Date.now();
+  if (previous.environment === "live" && waitMs > 0) {
+    const seconds = Math.ceil(waitMs / 1000);
+    return NextResponse.json(
+      { error: `IndiaMART allows one lead pull every five minutes. Try again in ${seconds} s.`, source: previous },
+      { status: 429, headers: { "retry-after": String(seconds) } },
+    );
+  }
+
+  const { added, error } = await pullLeads(body.profileId);
+  const source = await getLeadSource(body.profileId);
+  if (error) {
+    return NextResponse.json({ error, source }, { status: 502 });
+  }
+  return NextResponse.json({ added, source }, { status: 200 });
+}
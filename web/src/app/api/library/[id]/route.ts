@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { deleteLibraryProduct, getLibraryProduct } from "../../../../lib/server/libraryStore";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const product = await getLibraryProduct(id);
+
+  if (!product) {
+    return NextResponse.json({ error: "Library product not found." }, { status: 404 });
+  }
+
+  return NextResponse.json({ product }, { status: 200 });
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  if (!(await deleteLibraryProduct(id))) {
+    return NextResponse.json({ error: "Library product not found." }, { status: 404 });
+  }
+
+  return NextResponse.json({ removed: id }, { status: 200 });
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { ProductDraft } from "../../../lib/indiamart";
+import { listLibrary, saveToLibrary } from "../../../lib/server/libraryStore";
+
+type SaveBody = {
+  id?: string;
+  draft?: Partial<ProductDraft>;
+};
+
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const products = await listLibrary({
+    q: params.get("q") ?? undefined,
+    category: params.get("category") ?? undefined,
+    keyword: params.get("keyword") ?? undefined,
+  });
+  return NextResponse.json({ products }, { status: 200 });
+}
+
+export async function POST(request: Request) {
+  let body: SaveBody;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload received." }, { status: 400 });
+  }
+
+  if (!body.draft || typeof body.draft !== "object") {
+    return NextResponse.json({ error: "Product draft not provided." }, { status: 400 });
+  }
+
+  const product = await saveToLibrary(body.draft, body.id);
+  if (!product) {
+    return NextResponse.json({ error: "Library product not found." }, { status: 404 });
+  }
+  return NextResponse.json({ product }, { status: 200 });
+}
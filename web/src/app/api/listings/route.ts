@@ -0,0 +1,6 @@
+import { NextResponse } from "next/server";
+import { listListings } from "../../../lib/server/listingStore";
+
+export async function GET() {
+  return NextResponse.json({ listings: await listListings() }, { status: 200 });
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { ListingOperation } from "../../../../../../../lib/indiamart";
+import { handleMockRequest, isMockCatalogEnabled } from "../../../../../../../lib/server/mockCatalog";
+
+const OPERATIONS: ListingOperation[] = ["create", "update", "delete"];
+
+export async function POST(request: Request, { params }: { params: Promise<{ operation: string }> }) {
+  if (!isMockCatalogEnabled()) {
+    return NextResponse.json({ error: "Mock catalog is disabled." }, { status: 404 });
+  }
+
+  const { operation: segment } = await params;
+  // The seller API names the create endpoint `add`.
+  const operation = (segment === "add" ? "create" : segment) as ListingOperation;
+  if (!OPERATIONS.includes(operation)) {
+    return NextResponse.json({ CODE: 404, STATUS: "FAILURE", MESSAGE: "Unknown endpoint." }, { status: 404 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ CODE: 400, STATUS: "FAILURE", MESSAGE: "Invalid JSON payload." }, { status: 400 });
+  }
+
+  const response = await handleMockRequest(operation, request.headers.get("authtoken"), body);
+  return NextResponse.json(response.body, { status: response.status, headers: response.headers });
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { MockCatalogError, isMockCatalogEnabled } from "../../../../lib/server/mockCatalog";
+import {
+  MockEnquiryInput,
+  addMockEnquiries,
+  listMockEnquiries,
+  resetMockLeads,
+} from "../../../../lib/server/mockLeads";
+
+type ControlBody = {
+  count?: number;
+  sellerId?: string;
+  enquiries?: MockEnquiryInput[];
+};
+
+export async function GET() {
+  if (!isMockCatalogEnabled()) {
+    return NextResponse.json({ error: "Mock catalog is disabled." }, { status: 404 });
+  }
+  return NextResponse.json({ enquiries: await listMockEnquiries() }, { status: 200 });
+}
+
+export async function POST(request: Request) {
+  if (!isMockCatalogEnabled()) {
+    return NextResponse.json({ error: "Mock catalog is disabled." }, { status: 404 });
+  }
+
+  let body: ControlBody;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload received." }, { status: 400 });
+  }
+
+  try {
+    const enquiries = await addMockEnquiries({
+      count: body.count,
+      sellerId: body.sellerId,
+      enquiries: Array.isArray(body.enquiries) ? body.enquiries : undefined,
+    });
+    return NextResponse.json({ enquiries }, { status: 201 });
+  } catch (error) {
+    if (error instanceof MockCatalogError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
+
+export async function DELETE() {
+  if (!isMockCatalogEnabled()) {
+    return NextResponse.json({ error: "Mock catalog is disabled." }, { status: 404 });
+  }
+  await resetMockLeads();
+  return NextResponse.json({ enquiries: [] }, { status: 200 });
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import {
+  MockCatalogError,
+  MockFailureInput,
+  MockRateLimit,
+  getMockState,
+  isMockCatalogEnabled,
+  resetMockCatalog,
+  scriptFailures,
+  setRateLimit,
+} from "../../../lib/server/mockCatalog";
+
+type ControlBody = {
+  failures?: MockFailureInput[];
+  rateLimit?: Partial<MockRateLimit>;
+};
+
+export async function GET() {
+  if (!isMockCatalogEnabled()) {
+    return NextResponse.json({ error: "Mock catalog is disabled." }, { status: 404 });
+  }
+  return NextResponse.json(await getMockState(), { status: 200 });
+}
+
+export async function POST(request: Request) {
+  if (!isMockCatalogEnabled()) {
+    return NextResponse.json({ error: "Mock catalog is disabled." }, { status: 404 });
+  }
+
+  let body: ControlBody;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload received." }, { status: 400 });
+  }
+
+  try {
+    if (Array.isArray(body.failures)) {
+      await scriptFailures(body.failures);
+    }
+    if (body.rateLimit) {
+      await setRateLimit(body.rateLimit);
+    }
+  } catch (error) {
+    if (error instanceof MockCatalogError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+
+  return NextResponse.json(await getMockState(), { status: 200 });
+}
+
+export async function DELETE() {
+  if (!isMockCatalogEnabled()) {
+    return NextResponse.json({ error: "Mock catalog is disabled." }, { status: 404 });
+  }
+  await resetMockCatalog();
+  return NextResponse.json(await getMockState(), { status: 200 });
+}
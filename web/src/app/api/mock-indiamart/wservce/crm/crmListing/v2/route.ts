@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { isMockCatalogEnabled } from "../../../../../../../lib/server/mockCatalog";
+import { handleMockLeadPull } from "../../../../../../../lib/server/mockLeads";
+
+// Same path as IndiaMART's Lead Manager pull API (including its "wservce" spelling), so only the host differs.
+export async function GET(request: Request) {
+  if (!isMockCatalogEnabled()) {
+    return NextResponse.json({ error: "Mock catalog is disabled." }, { status: 404 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const response = await handleMockLeadPull(
+    searchParams.get("glusr_crm_key"),
+    searchParams.get("start_time"),
+    searchParams.get("end_time"),
+  );
+  return NextResponse.json(response.body, { status: response.status });
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { NotificationSettingsInput } from "../../../lib/notifications";
+import {
+  NotificationStoreError,
+  getNotificationSettings,
+  updateNotificationSettings,
+} from "../../../lib/server/notificationStore";
+
+export async function GET() {
+  return NextResponse.json({ settings: await getNotificationSettings() }, { status: 200 });
+}
+
+export async function PUT(request: Request) {
+  let body: NotificationSettingsInput;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload received." }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({ settings: await updateNotificationSettings(body) }, { status: 200 });
+  } catch (error) {
+    if (error instanceof NotificationStoreError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { sendTestNotification } from "../../../../lib/server/notifier";
+
+export async function POST() {
+  const results = await sendTestNotification();
+  if (results.length === 0) {
+    return NextResponse.json({ error: "Add a webhook or an email server first." }, { status: 400 });
+  }
+  return NextResponse.json({ results }, { status: 200 });
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { PricingRuleInput } from "../../../../lib/pricing";
+import { PricingStoreError, deletePricingRule, updatePricingRule } from "../../../../lib/server/pricingStore";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  let body: PricingRuleInput;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload received." }, { status: 400 });
+  }
+
+  try {
+    const rule = await updatePricingRule(id, body);
+    if (!rule) {
+      return NextResponse.json({ error: "Pricing rule not found." }, { status: 404 });
+    }
+    return NextResponse.json({ rule }, { status: 200 });
+  } catch (error) {
+    if (error instanceof PricingStoreError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  if (!(await deletePricingRule(id))) {
+    return NextResponse.json({ error: "Pricing rule not found." }, { status: 404 });
+  }
+
+  return NextResponse.json({ removed: id }, { status: 200 });
+}
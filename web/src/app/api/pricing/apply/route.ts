@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { PricingError, priceDraft } from "../../../../lib/pricing";
+import { getAgentRecord, updateQueuedJobs } from "../../../../lib/server/jobStore";
+import { getPricing } from "../../../../lib/server/pricingStore";
+
+/** Reprices every queued product from its original cost with the current rules and exchange rates. */
+export async function POST() {
+  const [{ rules, exchangeRates }, agent] = await Promise.all([getPricing(), getAgentRecord()]);
+  const errors: { sku: string; title: string; error: string }[] = [];
+
+  const updated = await updateQueuedJobs((job) => {
+    if (job.operation === "delete") {
+      return null;
+    }
+    try {
+      const priced = priceDraft(
+        job.product,
+        rules,
+        exchangeRates,
+        (job.settings ?? agent.settings).profileId,
+        job.pricing,
+      );
+      return { product: priced.draft, pricing: priced.pricing };
+    } catch (error) {
+      if (error instanceof PricingError) {
+        errors.push({ sku: job.product.sku, title: job.product.title, error: error.message });
+        return null;
+      }
+      throw error;
+    }
+  });
+
+  return NextResponse.json({ updated, errors }, { status: 200 });
+}
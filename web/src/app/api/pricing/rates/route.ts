@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { PricingStoreError, updateExchangeRates } from "../../../../lib/server/pricingStore";
+
+export async function PUT(request: Request) {
+  let body: { rates?: Record<string, unknown> };
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload received." }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({ exchangeRates: await updateExchangeRates(body.rates ?? {}) }, { status: 200 });
+  } catch (error) {
+    if (error instanceof PricingStoreError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { PricingRuleInput } from "../../../lib/pricing";
+import { PricingStoreError, createPricingRule, getPricing } from "../../../lib/server/pricingStore";
+
+export async function GET() {
+  return NextResponse.json(await getPricing(), { status: 200 });
+}
+
+export async function POST(request: Request) {
+  let body: PricingRuleInput;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload received." }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({ rule: await createPricingRule(body) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof PricingStoreError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { SellerProfileInput } from "../../../../lib/profiles";
+import { ProfileVaultError, deleteProfile, updateProfile } from "../../../../lib/server/profileVault";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  let body: SellerProfileInput;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload received." }, { status: 400 });
+  }
+
+  try {
+    const profile = await updateProfile(id, body);
+    if (!profile) {
+      return NextResponse.json({ error: "Seller profile not found." }, { status: 404 });
+    }
+    return NextResponse.json({ profile }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ProfileVaultError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  if (!(await deleteProfile(id))) {
+    return NextResponse.json({ error: "Seller profile not found." }, { status: 404 });
+  }
+
+  return NextResponse.json({ removed: id }, { status: 200 });
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { SellerProfileInput } from "../../../lib/profiles";
+import { ProfileVaultError, createProfile, listProfiles } from "../../../lib/server/profileVault";
+
+export async function GET() {
+  return NextResponse.json({ profiles: await listProfiles() }, { status: 200 });
+}
+
+export async function POST(request: Request) {
+  let body: SellerProfileInput;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload received." }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({ profile: await createProfile(body) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ProfileVaultError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
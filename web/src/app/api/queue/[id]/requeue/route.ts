@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { ProductDraft } from "../../../../../lib/indiamart";
+import { resolveOperation } from "../../../../../lib/server/catalogSync";
+import { getAgentRecord, listJobs, requeueJob } from "../../../../../lib/server/jobStore";
+import { ensureWorker } from "../../../../../lib/server/queueWorker";
+
+type RequeueBody = {
+  product?: ProductDraft;
+};
+
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  let body: RequeueBody = {};
+
+  try {
+    body = await request.json();
+  } catch {
+    // An empty body re-queues the job unchanged.
+  }
+
+  const existing = (await listJobs()).find((job) => job.id === id);
+  const operation =
+    body.product && existing?.operation !== "delete"
+      ? await resolveOperation(body.product, (await getAgentRecord()).settings)
+      : undefined;
+  const outcome = await requeueJob(id, body.product, operation);
+
+  if (outcome === "missing") {
+    return NextResponse.json({ error: "Job not found." }, { status: 404 });
+  }
+
+  if (outcome === "running") {
+    return NextResponse.json({ error: "Job is currently uploading and cannot be re-queued." }, { status: 409 });
+  }
+
+  await ensureWorker();
+  return NextResponse.json({ requeued: id }, { status: 200 });
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { ProductDraft } from "../../../../lib/indiamart";
+import { resolveOperation } from "../../../../lib/server/catalogSync";
+import { getAgentRecord, listJobs, removeJob, updateQueuedJob } from "../../../../lib/server/jobStore";
+import { summarizeErrors, validateDraftShape } from "../../../../lib/validation";
+
+/** Saves an item edited while it waits in the queue; unlike a re-queue, its attempts and retry time are kept. */
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  let body: { product?: ProductDraft };
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload received." }, { status: 400 });
+  }
+
+  const errors = validateDraftShape(body.product);
+  if (!body.product || errors.length) {
+    return NextResponse.json({ error: summarizeErrors(errors), errors }, { status: 400 });
+  }
+
+  const existing = (await listJobs()).find((job) => job.id === id);
+  const operation =
+    existing && existing.operation !== "delete"
+      ? await resolveOperation(body.product, existing.settings ?? (await getAgentRecord()).settings)
+      : undefined;
+  const outcome = await updateQueuedJob(id, body.product, operation);
+
+  if (outcome === "missing") {
+    return NextResponse.json({ error: "Job not found." }, { status: 404 });
+  }
+
+  if (outcome !== "updated") {
+    return NextResponse.json(
+      {
+        error:
+          outcome === "running"
+            ? "Job is currently uploading and cannot be edited."
+            : "Only queued jobs can be edited; re-queue it instead.",
+      },
+      { status: 409 },
+    );
+  }
+
+  return NextResponse.json({ updated: id }, { status: 200 });
+}
+
+export async function DELETE(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const outcome = await removeJob(id);
+
+  if (outcome === "missing") {
+    return NextResponse.json({ error: "Job not found." }, { status: 404 });
+  }
+
+  if (outcome === "running") {
+    return NextResponse.json({ error: "Job is currently uploading and cannot be removed." }, { status: 409 });
+  }
+
+  return NextResponse.json({ removed: id }, { status: 200 });
+}
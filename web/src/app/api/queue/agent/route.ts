@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { AgentSettings } from "../../../../lib/indiamart";
+import { RetryPolicy, ThroughputPolicy } from "../../../../lib/jobs";
+import { getQueueSnapshot, pauseAgent, startAgent } from "../../../../lib/server/queueWorker";
+
+type AgentBody = {
+  action?: "start" | "pause";
+  settings?: AgentSettings;
+  retryPolicy?: Partial<RetryPolicy>;
+  throughput?: Partial<ThroughputPolicy>;
+};
+
+export async function POST(request: Request) {
+  let body: AgentBody;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload received." }, { status: 400 });
+  }
+
+  if (body.action === "start") {
+    await startAgent(body.settings ?? {}, body.retryPolicy, body.throughput);
+  } else if (body.action === "pause") {
+    await pauseAgent();
+  } else {
+    return NextResponse.json({ error: "Unknown agent action." }, { status: 400 });
+  }
+
+  const snapshot = await getQueueSnapshot();
+  return NextResponse.json({ agent: snapshot.agent }, { status: 200 });
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { ExportFormat, buildBulkUploadCsv, buildResultsCsv } from "../../../../lib/exports";
+import { JOB_STATES, JobState } from "../../../../lib/jobs";
+import { getAgentRecord, listJobs } from "../../../../lib/server/jobStore";
+import { ProfileVaultError, resolveAgentSettings } from "../../../../lib/server/profileVault";
+
+const DEFAULT_STATES: Record<ExportFormat, JobState[]> = {
+  results: ["succeeded", "failed"],
+  indiamart: ["queued", "running"],
+};
+
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const format = (params.get("format") ?? "results") as ExportFormat;
+  if (!Object.hasOwn(DEFAULT_STATES, format)) {
+    return NextResponse.json({ error: "Unknown export format." }, { status: 400 });
+  }
+
+  const requested = params.get("state");
+  const states = requested
+    ? requested.split(",").filter((value): value is JobState => JOB_STATES.includes(value as JobState))
+    : DEFAULT_STATES[format];
+  const jobs = (await listJobs()).filter((job) => states.includes(job.state));
+
+  let csv: string;
+  if (format === "results") {
+    csv = buildResultsCsv(jobs);
+  } else {
+    // Only the seller ID is needed for the sheet; the resolved auth key never leaves this handler.
+    const profileId = params.get("profileId") ?? (await getAgentRecord()).settings.profileId;
+    try {
+      const { sellerId } = await resolveAgentSettings({ profileId });
+      csv = buildBulkUploadCsv(jobs, { sellerId });
+    } catch (error) {
+      if (error instanceof ProfileVaultError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+  }
+
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-");
+  return new NextResponse(csv, {
+    status: 200,
+    headers: {
+      "content-type": "text/csv; charset=utf-8",
+      "content-disposition": `attachment; filename="indiamart-${format === "results" ? "results" : "bulk-upload"}-${stamp}.csv"`,
+    },
+  });
+}
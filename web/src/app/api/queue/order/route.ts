@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { reorderQueue } from "../../../../lib/server/jobStore";
+
+/** Saves the queue order after a drag and drop: `ids` lists the pending jobs in their new order. */
+export async function PUT(request: Request) {
+  let body: { ids?: string[] };
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload received." }, { status: 400 });
+  }
+
+  if (!Array.isArray(body.ids) || body.ids.some((id) => typeof id !== "string")) {
+    return NextResponse.json({ error: "Send the queued job IDs in their new order." }, { status: 400 });
+  }
+
+  return NextResponse.json({ moved: await reorderQueue(body.ids) }, { status: 200 });
+}
@@ -0,0 +1,168 @@
+import { NextResponse } from "next/server";
+import { AgentSettings, ProductDraft } from "../../../lib/indiamart";
+import { JOB_PRIORITIES, JobState, QueueEdit, RetryPolicy, ThroughputPolicy, applyQueueEdit } from "../../../lib/jobs";
+import { PricingError, priceDraft } from "../../../lib/pricing";
+import { resolveOperation } from "../../../lib/server/catalogSync";
+import { clearJobs, enqueueJobs, getAgentRecord, updateQueuedJobs } from "../../../lib/server/jobStore";
+import { getPricing, priceProduct } from "../../../lib/server/pricingStore";
+import { ensureWorker, getQueueSnapshot, startAgent } from "../../../lib/server/queueWorker";
+import { validateDraftShape } from "../../../lib/validation";
+
+type EnqueueBody = {
+  products?: ProductDraft[];
+  operation?: "delete";
+  settings?: AgentSettings;
+  retryPolicy?: Partial<RetryPolicy>;
+  throughput?: Partial<ThroughputPolicy>;
+  autoStart?: boolean;
+};
+
+type EditBody = QueueEdit & {
+  ids?: string[];
+};
+
+const FINISHED_STATES: JobState[] = ["succeeded", "failed"];
+
+export async function GET() {
+  await ensureWorker();
+  return NextResponse.json(await getQueueSnapshot(), { status: 200 });
+}
+
+export async function POST(request: Request) {
+  let body: EnqueueBody;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload received." }, { status: 400 });
+  }
+
+  if (!Array.isArray(body.products) || body.products.length === 0) {
+    return NextResponse.json({ error: "No products provided to queue." }, { status: 400 });
+  }
+
+  const malformed = body.products.flatMap((product, index) => {
+    const errors = validateDraftShape(product);
+    return errors.length ? [{ index, sku: typeof product?.sku === "string" ? product.sku : "", errors }] : [];
+  });
+  if (malformed.length) {
+    return NextResponse.json(
+      { error: `${malformed.length} product${malformed.length === 1 ? " is" : "s are"} malformed.`, items: malformed },
+      { status: 400 },
+    );
+  }
+
+  // Priced for the profile that will upload them: the one sent, else the agent's current one.
+  const profileId = body.settings ? body.settings.profileId : (await getAgentRecord()).settings.profileId;
+  // A product that cannot be priced is left out on its own, so one bad row does not hold back a whole import.
+  const errors: { index: number; sku: string; title: string; error: string }[] = [];
+  const priced = await Promise.all(
+    body.products.map(async (product, index) => {
+      const operation = await resolveOperation(product, body.settings, body.operation);
+      try {
+        const result = operation === "delete" ? { draft: product } : await priceProduct(product, profileId);
+        return [{ product: result.draft, pricing: result.pricing, operation }];
+      } catch (error) {
+        if (error instanceof PricingError) {
+          errors.push({ index, sku: product.sku, title: product.title, error: error.message });
+          return [];
+        }
+        throw error;
+      }
+    }),
+  );
+  const items = priced.flat();
+  if (items.length === 0) {
+    const error = errors.length === 1 ? errors[0].error : `None of the products could be priced: ${errors[0].error}`;
+    return NextResponse.json({ error, errors }, { status: 400 });
+  }
+  const jobs = await enqueueJobs(items);
+
+  if (body.autoStart) {
+    await startAgent(body.settings ?? {}, body.retryPolicy, body.throughput);
+  }
+
+  return NextResponse.json({ jobs, errors: errors.sort((a, b) => a.index - b.index) }, { status: 201 });
+}
+
+/**
+ * Applies one edit to the selected queued items: priority, hold, category or a find-and-replace in titles. A new
+ * category can change the pricing rule, so those items are repriced from their original cost.
+ */
+export async function PATCH(request: Request) {
+  let body: EditBody;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload received." }, { status: 400 });
+  }
+
+  if (!Array.isArray(body.ids) || body.ids.length === 0) {
+    return NextResponse.json({ error: "Select at least one queued item." }, { status: 400 });
+  }
+  if (body.priority !== undefined && !JOB_PRIORITIES.includes(body.priority)) {
+    return NextResponse.json({ error: `Priority must be one of ${JOB_PRIORITIES.join(", ")}.` }, { status: 400 });
+  }
+  if (body.held !== undefined && typeof body.held !== "boolean") {
+    return NextResponse.json({ error: "held must be true or false." }, { status: 400 });
+  }
+  if (body.category !== undefined && typeof body.category !== "string") {
+    return NextResponse.json({ error: "category must be text." }, { status: 400 });
+  }
+  if (body.titleReplace !== undefined) {
+    const { find, replace } = body.titleReplace ?? {};
+    if (typeof find !== "string" || !find) {
+      return NextResponse.json({ error: "Enter the text to find in titles." }, { status: 400 });
+    }
+    if (typeof replace !== "string") {
+      return NextResponse.json(
+        { error: "titleReplace.replace must be text; send an empty string to delete." },
+        {
+          status: 400,
+        },
+      );
+    }
+  }
+
+  const ids = new Set(body.ids);
+  const [{ rules, exchangeRates }, agent] = await Promise.all([getPricing(), getAgentRecord()]);
+  const errors: { sku: string; title: string; error: string }[] = [];
+
+  const updated = await updateQueuedJobs((job) => {
+    if (!ids.has(job.id)) {
+      return null;
+    }
+    const product = applyQueueEdit(job.product, body);
+    const repriced = body.category !== undefined && job.operation !== "delete";
+    try {
+      const priced = repriced
+        ? priceDraft(product, rules, exchangeRates, (job.settings ?? agent.settings).profileId, job.pricing)
+        : { draft: product, pricing: job.pricing };
+      return {
+        product: priced.draft,
+        pricing: priced.pricing,
+        ...(body.priority !== undefined ? { priority: body.priority } : {}),
+        ...(body.held !== undefined ? { held: body.held } : {}),
+      };
+    } catch (error) {
+      if (error instanceof PricingError) {
+        errors.push({ sku: job.product.sku, title: job.product.title, error: error.message });
+        return null;
+      }
+      throw error;
+    }
+  });
+
+  return NextResponse.json({ updated, errors }, { status: 200 });
+}
+
+export async function DELETE(request: Request) {
+  const requested = new URL(request.url).searchParams.get("state");
+  const states = requested
+    ? requested.split(",").filter((value): value is JobState => FINISHED_STATES.includes(value as JobState))
+    : FINISHED_STATES;
+
+  const removed = await clearJobs(states);
+  return NextResponse.json({ removed }, { status: 200 });
+}
@@ -0,0 +1,90 @@
+import { onAuditEntry, onQueueChange } from "../../../../lib/server/events";
+import { ensureWorker, getQueueSnapshot } from "../../../../lib/server/queueWorker";
+
+// Bursts of job updates (a whole batch being queued) are sent as one snapshot.
+const COALESCE_MS = 250;
+// Also keeps proxies from closing an idle connection and refreshes the quota and ETA between uploads.
+const REFRESH_MS = 10_000;
+
+/**
+ * Server-Sent Events: a `snapshot` event (the same body as `GET /api/queue`) on connect and after every queue
+ * change, and a `log` event for each audit entry the agent records.
+ */
+export async function GET(request: Request) {
+  await ensureWorker();
+  const encoder = new TextEncoder();
+  let stop = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      let pending: ReturnType<typeof setTimeout> | null = null;
+
+      const send = (event: string, data: unknown) => {
+        if (closed) {
+          return;
+        }
+        try {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        } catch {
+          // The client went away before the abort signal fired.
+          stop();
+        }
+      };
+      const sendSnapshot = async () => {
+        pending = null;
+        try {
+          send("snapshot", await getQueueSnapshot());
+        } catch (error) {
+          console.error("Unable to stream the queue snapshot", error);
+        }
+      };
+      const scheduleSnapshot = () => {
+        pending = pending ?? setTimeout(() => void sendSnapshot(), COALESCE_MS);
+      };
+
+      const unsubscribeQueue = onQueueChange(scheduleSnapshot);
+      const unsubscribeAudit = onAuditEntry((entry) => {
+        if (entry.source === "agent") {
+          send("log", entry);
+        }
+      });
+      const refresh = setInterval(() => void sendSnapshot(), REFRESH_MS);
+
+      stop = () => {
+        if (closed) {
+          return;
+        }
+        closed = true;
+        unsubscribeQueue();
+        unsubscribeAudit();
+        clearInterval(refresh);
+        if (pending) {
+          clearTimeout(pending);
+        }
+      };
+      request.signal.addEventListener("abort", () => {
+        stop();
+        try {
+          controller.close();
+        } catch {
+          // Already closed from the client side.
+        }
+      });
+
+      void sendSnapshot();
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "content-type": "text/event-stream; charset=utf-8",
+      "cache-control": "no-cache, no-transform",
+      connection: "keep-alive",
+      "x-accel-buffering": "no",
+    },
+  });
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { deleteSchedule } from "../../../../lib/server/scheduleStore";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/** Cancels the schedule; a batch it already started keeps running until paused. */
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  if (!(await deleteSchedule(id))) {
+    return NextResponse.json({ error: "Schedule not found." }, { status: 404 });
+  }
+
+  return NextResponse.json({ removed: id }, { status: 200 });
+}
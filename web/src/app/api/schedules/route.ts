@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { PublishScheduleInput } from "../../../lib/schedules";
+import { ScheduleStoreError, createSchedule, listSchedules } from "../../../lib/server/scheduleStore";
+import { ensureScheduler } from "../../../lib/server/scheduler";
+
+export async function GET() {
+  await ensureScheduler();
+  return NextResponse.json({ schedules: await listSchedules() }, { status: 200 });
+}
+
+export async function POST(request: Request) {
+  let body: PublishScheduleInput;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload received." }, { status: 400 });
+  }
+
+  try {
+    const schedule = await createSchedule(body);
+    await ensureScheduler();
+    return NextResponse.json({ schedule }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ScheduleStoreError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { TemplateStoreError, deleteTemplate, updateTemplate } from "../../../../lib/server/templateStore";
+import { DescriptionTemplateInput } from "../../../../lib/templates";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  let body: DescriptionTemplateInput;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload received." }, { status: 400 });
+  }
+
+  try {
+    const template = await updateTemplate(id, body);
+    if (!template) {
+      return NextResponse.json({ error: "Template not found." }, { status: 404 });
+    }
+    return NextResponse.json({ template }, { status: 200 });
+  } catch (error) {
+    if (error instanceof TemplateStoreError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  if (!(await deleteTemplate(id))) {
+    return NextResponse.json({ error: "Template not found." }, { status: 404 });
+  }
+
+  return NextResponse.json({ removed: id }, { status: 200 });
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { updateQueuedProducts } from "../../../../lib/server/jobStore";
+import { getTemplate, listTemplates } from "../../../../lib/server/templateStore";
+import { DescriptionTemplate, applyTemplate, templateForCategory } from "../../../../lib/templates";
+
+type ApplyBody = {
+  /** Apply this template to every queued item; when omitted each item gets the template for its category. */
+  templateId?: string;
+};
+
+export async function POST(request: Request) {
+  let body: ApplyBody;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload received." }, { status: 400 });
+  }
+
+  let pick: (category: string) => DescriptionTemplate;
+  if (body.templateId) {
+    const template = await getTemplate(body.templateId);
+    if (!template) {
+      return NextResponse.json({ error: "Template not found." }, { status: 404 });
+    }
+    pick = () => template;
+  } else {
+    const templates = await listTemplates();
+    pick = (category) => templateForCategory(templates, category);
+  }
+
+  // Rotation counts per template, so each template cycles through its own variants across the queue.
+  const sequences = new Map<string, number>();
+  const updated = await updateQueuedProducts((job) => {
+    if (job.operation === "delete") {
+      return null;
+    }
+    const template = pick(job.product.category);
+    const sequence = sequences.get(template.id) ?? 0;
+    sequences.set(template.id, sequence + 1);
+    return applyTemplate(job.product, template, sequence);
+  });
+
+  return NextResponse.json({ updated }, { status: 200 });
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { TemplateStoreError, createTemplate, listTemplates } from "../../../lib/server/templateStore";
+import { DescriptionTemplateInput } from "../../../lib/templates";
+
+export async function GET() {
+  return NextResponse.json({ templates: await listTemplates() }, { status: 200 });
+}
+
+export async function POST(request: Request) {
+  let body: DescriptionTemplateInput;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload received." }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({ template: await createTemplate(body) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof TemplateStoreError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
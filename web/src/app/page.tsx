@@ -1,38 +1,57 @@
 "use client";
 
 import { ChangeEvent, FormEvent, useCallback, useEffect, useMemo, useRef, useState } from "react";
-
-type AgentMode = "simulate" | "live";
+import { AuditEntry } from "../lib/audit";
+import { ColumnMapping, ImportPreset, StagedRow, applyMapping } from "../lib/importMapping";
+import { IMPORT_FILE_ACCEPT, ImportSource, readImportFile } from "../lib/importSources";
+import { GenerationResult } from "../lib/generation";
+import { LibraryProduct } from "../lib/library";
+import { AgentMode, ListingOperation, ProductDraft } from "../lib/indiamart";
+import {
+  DEFAULT_RETRY_POLICY,
+  DEFAULT_THROUGHPUT_POLICY,
+  JOB_PRIORITIES,
+  JobPriority,
+  MAX_CONCURRENCY,
+  PRIORITY_LABELS,
+  QueueEdit,
+  QueueProgress,
+  QueueSnapshot,
+  RateWindow,
+  ThroughputStatus,
+  UploadJob,
+  isPendingJob,
+  sortQueue,
+} from "../lib/jobs";
+import { formatPrice } from "../lib/pricing";
+import { SellerProfile } from "../lib/profiles";
+import { describeSchedule } from "../lib/schedules";
+import { DescriptionTemplate, applyTemplate, templateForCategory } from "../lib/templates";
+import { ValidationError, ValidationWarning, summarizeErrors, validateDraft } from "../lib/validation";
+import AuditLog from "../components/AuditLog";
+import CopyGenerator from "../components/CopyGenerator";
+import DescriptionTemplates from "../components/DescriptionTemplates";
+import ImageManager from "../components/ImageManager";
+import ImportPreview from "../components/ImportPreview";
+import ImportWizard from "../components/ImportWizard";
+import ProductLibrary from "../components/ProductLibrary";
+import LeadInbox from "../components/LeadInbox";
+import NotificationSettings from "../components/NotificationSettings";
+import PricingRules from "../components/PricingRules";
+import PublishSchedules from "../components/PublishSchedules";
+import QueueBulkActions from "../components/QueueBulkActions";
+import SellerProfilesPanel from "../components/SellerProfilesPanel";
 
 type AgentSettings = {
-  apiKey: string;
-  sellerId: string;
-  baseUrl: string;
+  profileId: string;
   mode: AgentMode;
   autoStart: boolean;
-};
-
-type ProductDraft = {
-  title: string;
-  category: string;
-  price: string;
-  currency: string;
-  unit: string;
-  stock: string;
-  minOrderQty: string;
-  keywords: string;
-  imageUrls: string;
-  shortDescription: string;
-  description: string;
-  features: string;
-  packaging: string;
-  leadTime: string;
-};
-
-type ProductPayload = {
-  id: string;
-  createdAt: number;
-  payload: ProductDraft;
+  maxAttempts: number;
+  retryDelaySeconds: number;
+  concurrency: number;
+  perSecond: number;
+  perMinute: number;
+  perDay: number;
 };
 
 type LogLevel = "info" | "error" | "success";
@@ -50,46 +69,21 @@ const makeId = () =>
     ? globalThis.crypto.randomUUID()
     : `id-${Math.random().toString(36).slice(2, 10)}`;
 
-const splitCsvLine = (line: string) => {
-  const values: string[] = [];
-  let current = "";
-  let insideQuotes = false;
-
-  for (let index = 0; index < line.length; index += 1) {
-    const character = line[index];
-
-    if (character === '"') {
-      if (insideQuotes && line[index + 1] === '"') {
-        current += '"';
-        index += 1;
-      } else {
-        insideQuotes = !insideQuotes;
-      }
-      continue;
-    }
-
-    if (character === "," && !insideQuotes) {
-      values.push(current);
-      current = "";
-      continue;
-    }
-
-    current += character;
-  }
-
-  values.push(current);
-  return values;
-};
+// Imports are queued in batches so a huge file never turns into one huge request.
+const CSV_BATCH_SIZE = 500;
 
-const cleanCell = (value: string) => {
-  const trimmed = value.trim();
-  if (trimmed.startsWith('"') && trimmed.endsWith('"')) {
-    return trimmed.slice(1, -1).replace(/""/g, '"');
-  }
-  return trimmed;
+type ImportSession = ImportSource & {
+  id: string;
+  file: File;
+  fileName: string;
+  mapping?: ColumnMapping;
+  defaults?: Partial<ProductDraft>;
+  /** Set once the mapping is confirmed; the preview works on these rows. */
+  staged?: StagedRow[];
 };
 
 const initialDraft: ProductDraft = {
+  sku: "",
   title: "",
   category: "",
   price: "",
@@ -107,44 +101,214 @@ const initialDraft: ProductDraft = {
 };
 
 const defaultSettings: AgentSettings = {
-  apiKey: "",
-  sellerId: "",
-  baseUrl: "https://sellerapi.indiamart.com/catalog/v1/product/add",
+  profileId: "",
   mode: "simulate",
   autoStart: true,
+  maxAttempts: DEFAULT_RETRY_POLICY.maxAttempts,
+  retryDelaySeconds: DEFAULT_RETRY_POLICY.baseDelayMs / 1000,
+  ...DEFAULT_THROUGHPUT_POLICY,
+};
+
+const QUEUE_POLL_INTERVAL_MS = 1500;
+
+const toAgentSettings = (settings: AgentSettings) => ({
+  profileId: settings.profileId || undefined,
+  mode: settings.mode,
+});
+
+const toRetryPolicy = (settings: AgentSettings) => ({
+  maxAttempts: settings.maxAttempts,
+  baseDelayMs: settings.retryDelaySeconds * 1000,
+  maxDelayMs: DEFAULT_RETRY_POLICY.maxDelayMs,
+});
+
+const toThroughputPolicy = (settings: AgentSettings) => ({
+  concurrency: settings.concurrency,
+  perSecond: settings.perSecond,
+  perMinute: settings.perMinute,
+  perDay: settings.perDay,
+});
+
+const RATE_WINDOW_LABELS: Record<RateWindow, string> = {
+  second: "this second",
+  minute: "this minute",
+  day: "today",
+};
+
+// State plus attempt count, so a retry that went queued → running → queued between two polls is still noticed.
+const jobSignature = (job: UploadJob) => `${job.state}:${job.attempts}`;
+
+const OPERATION_LABELS: Record<ListingOperation, string> = {
+  create: "Create",
+  update: "Update",
+  delete: "Remove",
+};
+
+const OPERATION_STYLES: Record<ListingOperation, string> = {
+  create: "bg-indigo-500/20 text-indigo-200",
+  update: "bg-amber-500/20 text-amber-200",
+  delete: "bg-rose-500/20 text-rose-200",
+};
+
+const OperationBadge = ({ operation }: { operation: ListingOperation }) => (
+  <span
+    className={`rounded-md px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide ${OPERATION_STYLES[operation]}`}
+  >
+    {OPERATION_LABELS[operation]}
+  </span>
+);
+
+const FAILURE_LABELS: Record<NonNullable<UploadJob["failureKind"]>, string> = {
+  validation: "Validation",
+  upstream: "IndiaMART error",
+  network: "Network",
+};
+
+const MODE_LABELS: Record<AgentMode, string> = {
+  simulate: "simulation",
+  sandbox: "sandbox",
+  live: "live",
+};
+
+const formatEta = (ms: number) => {
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 1) {
+    return "under a minute";
+  }
+  return minutes < 60 ? `~${minutes} min` : `~${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
+
+const describeSuccess = (job: UploadJob) => {
+  const result = job.result as { status?: string; warnings?: ValidationWarning[] } | undefined;
+  const summary =
+    result?.status === "simulated"
+      ? "Simulation completed. Ready to upload live."
+      : `IndiaMART responded with status: ${result?.status ?? "success"}`;
+  return [summary, ...(result?.warnings ?? []).map((warning) => warning.message)].join(" ");
+};
+
+const fetchPresets = async () => {
+  try {
+    const response = await fetch("/api/import-presets", { cache: "no-store" });
+    return response.ok ? ((await response.json()).presets as ImportPreset[]) : null;
+  } catch {
+    return null;
+  }
+};
+
+const fetchTemplates = async () => {
+  try {
+    const response = await fetch("/api/templates", { cache: "no-store" });
+    return response.ok ? ((await response.json()).templates as DescriptionTemplate[]) : null;
+  } catch {
+    return null;
+  }
+};
+
+const recordAuditEvent = async (entry: Omit<LogEntry, "timestamp" | "id">) => {
+  try {
+    await fetch("/api/audit", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(entry),
+    });
+  } catch {
+    // Best effort: the entry already shows in the Activity Log.
+  }
+};
+
+const fetchProfiles = async () => {
+  try {
+    const response = await fetch("/api/profiles", { cache: "no-store" });
+    return response.ok ? ((await response.json()).profiles as SellerProfile[]) : null;
+  } catch {
+    return null;
+  }
+};
+
+const fetchQueueSnapshot = async () => {
+  try {
+    const response = await fetch("/api/queue", { cache: "no-store" });
+    return response.ok ? ((await response.json()) as QueueSnapshot) : null;
+  } catch {
+    // The next poll retries; a single missed refresh is not worth surfacing in the log.
+    return null;
+  }
+};
+
+const FieldError = ({ errors, field }: { errors: ValidationError[]; field: keyof ProductDraft }) => {
+  const messages = errors.filter((error) => error.field === field);
+  if (messages.length === 0) {
+    return null;
+  }
+  return (
+    <span className="text-xs font-normal text-rose-300">
+      {messages.map((error) => (
+        <span key={error.code} className="block">
+          {error.message}
+        </span>
+      ))}
+    </span>
+  );
 };
 
 export default function Home() {
   const [settings, setSettings] = useState<AgentSettings>(defaultSettings);
   const [draft, setDraft] = useState<ProductDraft>(initialDraft);
-  const [queue, setQueue] = useState<ProductPayload[]>([]);
+  const [jobs, setJobs] = useState<UploadJob[]>([]);
   const [processing, setProcessing] = useState(false);
-  const [activeProductId, setActiveProductId] = useState<string | null>(null);
+  const [rate, setRate] = useState<ThroughputStatus | null>(null);
+  const [progress, setProgress] = useState<QueueProgress | null>(null);
+  const [live, setLive] = useState(false);
   const [logs, setLogs] = useState<LogEntry[]>([]);
+  const [auditRevision, setAuditRevision] = useState(0);
+  const [profiles, setProfiles] = useState<SellerProfile[]>([]);
+  const [editingJobId, setEditingJobId] = useState<string | null>(null);
+  const [selectedJobIds, setSelectedJobIds] = useState<string[]>([]);
+  const [draggedJobId, setDraggedJobId] = useState<string | null>(null);
+  const [draftErrors, setDraftErrors] = useState<ValidationError[]>([]);
+  const [presets, setPresets] = useState<ImportPreset[]>([]);
+  const [importSession, setImportSession] = useState<ImportSession | null>(null);
+  const [libraryProductId, setLibraryProductId] = useState<string | null>(null);
+  const [libraryRevision, setLibraryRevision] = useState(0);
+  const [templates, setTemplates] = useState<DescriptionTemplate[]>([]);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
 
-  const queueRef = useRef<ProductPayload[]>([]);
+  const jobStatesRef = useRef<Map<string, string> | null>(null);
   const processingRef = useRef(processing);
-  const activeProductRef = useRef<string | null>(null);
-
-  useEffect(() => {
-    queueRef.current = queue;
-  }, [queue]);
-
-  useEffect(() => {
-    processingRef.current = processing;
-  }, [processing]);
-
-  useEffect(() => {
-    activeProductRef.current = activeProductId;
-  }, [activeProductId]);
+  // Rotation position per template, so repeated "Auto-generate copy" clicks walk through the variants.
+  const templateSequenceRef = useRef(new Map<string, number>());
+
+  const queue = useMemo(() => sortQueue(jobs.filter(isPendingJob)), [jobs]);
+  // Items that started uploading or left the queue drop out of the selection.
+  const selectedJobs = useMemo(
+    () => queue.filter((job) => job.state === "queued" && selectedJobIds.includes(job.id)),
+    [queue, selectedJobIds],
+  );
+  const editingJob = useMemo(() => jobs.find((job) => job.id === editingJobId), [editingJobId, jobs]);
+  const history = useMemo(
+    () =>
+      jobs
+        .filter((job) => job.state === "succeeded")
+        .sort((a, b) => (b.finishedAt ?? b.updatedAt) - (a.finishedAt ?? a.updatedAt))
+        .slice(0, 20),
+    [jobs],
+  );
+  const failedJobs = useMemo(
+    () =>
+      jobs
+        .filter((job) => job.state === "failed")
+        .sort((a, b) => (b.finishedAt ?? b.updatedAt) - (a.finishedAt ?? a.updatedAt)),
+    [jobs],
+  );
 
   const filteredLogs = useMemo(
     () => logs.slice(-50).sort((a, b) => b.timestamp - a.timestamp),
     [logs],
   );
 
-  const appendLog = useCallback((entry: Omit<LogEntry, "timestamp" | "id">) => {
+  /** Shows an event in the Activity Log only; used for queue events the server already wrote to the audit log. */
+  const showLog = useCallback((entry: Omit<LogEntry, "timestamp" | "id">) => {
     setLogs((prev) => [
       ...prev,
       {
@@ -153,33 +317,268 @@ export default function Home() {
         ...entry,
       },
     ]);
+    setAuditRevision((prev) => prev + 1);
+  }, []);
+
+  const appendLog = useCallback(
+    (entry: Omit<LogEntry, "timestamp" | "id">) => {
+      showLog(entry);
+      void recordAuditEvent(entry).then(() => setAuditRevision((prev) => prev + 1));
+    },
+    [showLog],
+  );
+
+  const applySnapshot = useCallback(
+    (snapshot: QueueSnapshot) => {
+      const previousStates = jobStatesRef.current;
+
+      if (previousStates) {
+        snapshot.jobs.forEach((job) => {
+          if (previousStates.get(job.id) === jobSignature(job)) {
+            return;
+          }
+          const title = job.product.title || "Untitled product";
+          if (job.state === "running") {
+            showLog({
+              level: "info",
+              headline: job.attempts > 1 ? `Retrying: ${title}` : `Processing: ${title}`,
+              details: `Attempt ${job.attempts} of ${snapshot.agent.retryPolicy.maxAttempts} in ${
+                MODE_LABELS[snapshot.agent.mode]
+              } mode.`,
+            });
+          } else if (job.state === "queued" && job.nextAttemptAt) {
+            showLog({
+              level: "error",
+              headline: `Retry scheduled: ${title}`,
+              details: `${job.error ?? "Upload failed"} · next attempt at ${new Date(job.nextAttemptAt).toLocaleTimeString()}`,
+            });
+          } else if (job.state === "succeeded") {
+            showLog({
+              level: "success",
+              headline: `${job.operation === "delete" ? "Removed" : job.operation === "update" ? "Updated" : "Uploaded"}: ${title}`,
+              details: describeSuccess(job),
+            });
+          } else if (job.state === "failed") {
+            showLog({
+              level: "error",
+              headline: `Failed: ${title}`,
+              details: `${job.error ?? "Unexpected error while uploading product."} Moved to the Failed list after ${
+                job.attempts
+              } attempt${job.attempts === 1 ? "" : "s"}.`,
+            });
+          }
+        });
+      }
+
+      jobStatesRef.current = new Map(snapshot.jobs.map((job) => [job.id, jobSignature(job)]));
+      processingRef.current = snapshot.agent.running;
+      setJobs(snapshot.jobs);
+      setProcessing(snapshot.agent.running);
+      setRate(snapshot.rate);
+      setProgress(snapshot.progress);
+    },
+    [showLog],
+  );
+
+  const refreshQueue = useCallback(async () => {
+    const snapshot = await fetchQueueSnapshot();
+    if (snapshot) {
+      applySnapshot(snapshot);
+    }
+  }, [applySnapshot]);
+
+  // Live updates come over Server-Sent Events; polling only covers the gaps while the stream reconnects.
+  useEffect(() => {
+    let timer: ReturnType<typeof setInterval> | null = null;
+    const poll = () => {
+      void fetchQueueSnapshot().then((snapshot) => {
+        if (snapshot) {
+          applySnapshot(snapshot);
+        }
+      });
+    };
+    const startPolling = () => {
+      if (!timer) {
+        poll();
+        timer = setInterval(poll, QUEUE_POLL_INTERVAL_MS);
+      }
+    };
+    const stopPolling = () => {
+      if (timer) {
+        clearInterval(timer);
+        timer = null;
+      }
+    };
+
+    if (typeof EventSource === "undefined") {
+      startPolling();
+      return stopPolling;
+    }
+    const source = new EventSource("/api/queue/stream");
+    source.addEventListener("snapshot", (event) => applySnapshot(JSON.parse(event.data) as QueueSnapshot));
+    source.addEventListener("log", (event) => {
+      const entry = JSON.parse(event.data) as AuditEntry;
+      // Upload outcomes already appear from the job state changes in the snapshots.
+      if (!entry.jobId) {
+        showLog({ level: entry.level, headline: entry.headline, details: entry.details });
+      }
+    });
+    source.onopen = () => {
+      setLive(true);
+      stopPolling();
+    };
+    source.onerror = () => {
+      setLive(false);
+      startPolling();
+    };
+    return () => {
+      source.close();
+      stopPolling();
+    };
+  }, [applySnapshot, showLog]);
+
+  const refreshProfiles = useCallback(async () => {
+    const loaded = await fetchProfiles();
+    if (loaded) {
+      setProfiles(loaded);
+    }
+  }, []);
+
+  useEffect(() => {
+    void fetchProfiles().then((loaded) => {
+      if (loaded) {
+        setProfiles(loaded);
+      }
+    });
+    void fetchPresets().then((loaded) => {
+      if (loaded) {
+        setPresets(loaded);
+      }
+    });
+    void fetchTemplates().then((loaded) => {
+      if (loaded) {
+        setTemplates(loaded);
+      }
+    });
+  }, []);
+
+  const refreshPresets = useCallback(async () => {
+    const loaded = await fetchPresets();
+    if (loaded) {
+      setPresets(loaded);
+    }
+  }, []);
+
+  const refreshTemplates = useCallback(async () => {
+    const loaded = await fetchTemplates();
+    if (loaded) {
+      setTemplates(loaded);
+    }
+  }, []);
+
+  const selectProfile = useCallback((profile: SellerProfile | null) => {
+    setSettings((prev) => ({
+      ...prev,
+      profileId: profile?.id ?? "",
+      mode: profile?.defaultMode ?? "simulate",
+    }));
   }, []);
 
   const resetDraft = useCallback(() => {
     setDraft(initialDraft);
+    setEditingJobId(null);
+    setLibraryProductId(null);
+    setDraftErrors([]);
+  }, []);
+
+  const saveToLibrary = useCallback(
+    async (product: ProductDraft) => {
+      try {
+        const response = await fetch("/api/library", {
+          method: "POST",
+          headers: {
+            "content-type": "application/json",
+          },
+          body: JSON.stringify({ id: libraryProductId ?? undefined, draft: product }),
+        });
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(typeof result?.error === "string" ? result.error : "Unable to save to the library.");
+        }
+        setLibraryRevision((prev) => prev + 1);
+        return result.product as LibraryProduct;
+      } catch (error) {
+        appendLog({
+          level: "error",
+          headline: "Library save failed",
+          details: error instanceof Error ? error.message : "Unexpected error while saving to the library.",
+        });
+        return null;
+      }
+    },
+    [appendLog, libraryProductId],
+  );
+
+  const loadLibraryVersion = useCallback((product: ProductDraft, productId: string) => {
+    setDraft(product);
+    setLibraryProductId(productId);
+    setEditingJobId(null);
+    setDraftErrors([]);
   }, []);
 
   const addToQueue = useCallback(
-    (product: ProductDraft) => {
-      const id = makeId();
-      const payload: ProductPayload = {
-        id,
-        createdAt: Date.now(),
-        payload: product,
-      };
-
-      setQueue((prev) => [...prev, payload]);
-      appendLog({
-        level: "info",
-        headline: `Product queued: ${product.title || "Untitled"}`,
-        details: "Added to automation queue",
-      });
+    async (products: ProductDraft[], operation?: "delete") => {
+      try {
+        const response = await fetch("/api/queue", {
+          method: "POST",
+          headers: {
+            "content-type": "application/json",
+          },
+          body: JSON.stringify({
+            products,
+            operation,
+            settings: toAgentSettings(settings),
+            retryPolicy: toRetryPolicy(settings),
+            throughput: toThroughputPolicy(settings),
+            autoStart: settings.autoStart,
+          }),
+        });
+        const result = await response.json();
+
+        if (!response.ok) {
+          const message = typeof result?.error === "string" ? result.error : "Unable to queue products.";
+          throw new Error(message);
+        }
 
-      if (settings.autoStart && !processingRef.current) {
-        setProcessing(true);
+        const priceErrors = (result.errors ?? []) as { sku: string; title: string; error: string }[];
+        if (priceErrors.length) {
+          appendLog({
+            level: "error",
+            headline: `${priceErrors.length} product${priceErrors.length === 1 ? "" : "s"} not queued`,
+            details: priceErrors.map((item) => `${item.sku || item.title || "Untitled"}: ${item.error}`).join(" "),
+          });
+        }
+
+        if (products.length === 1) {
+          appendLog({
+            level: "info",
+            headline: `${operation === "delete" ? "Removal queued" : "Product queued"}: ${products[0].title || "Untitled"}`,
+            details: "Added to automation queue",
+          });
+        }
+
+        await refreshQueue();
+        return true;
+      } catch (error) {
+        appendLog({
+          level: "error",
+          headline: "Queue update failed",
+          details: error instanceof Error ? error.message : "Unexpected error while queuing products.",
+        });
+        return false;
       }
     },
-    [appendLog, settings.autoStart],
+    [appendLog, refreshQueue, settings],
   );
 
   const handleDraftChange = useCallback(
@@ -188,39 +587,42 @@ export default function Home() {
         ...prev,
         [key]: event.target.value,
       }));
+      setDraftErrors((prev) =>
+        prev.some((error) => error.field === key) ? prev.filter((error) => error.field !== key) : prev,
+      );
     },
     [],
   );
 
-  const normalizeProduct = useCallback((product: ProductDraft) => {
-    const features = product.features
-      .split("\n")
-      .map((feature) => feature.trim())
-      .filter(Boolean);
-
-    const imageUrls = product.imageUrls
-      .split("\n")
-      .map((url) => url.trim())
-      .filter(Boolean);
-
-    const keywords = product.keywords
-      .split(",")
-      .map((keyword) => keyword.trim())
-      .filter(Boolean);
-
-    return {
-      ...product,
-      features,
-      imageUrls,
-      keywords,
-    };
-  }, []);
+  const controlAgent = useCallback(
+    async (action: "start" | "pause") => {
+      const response = await fetch("/api/queue/agent", {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+        },
+        body: JSON.stringify({
+          action,
+          settings: toAgentSettings(settings),
+          retryPolicy: toRetryPolicy(settings),
+          throughput: toThroughputPolicy(settings),
+        }),
+      });
+      if (!response.ok) {
+        throw new Error("Agent did not accept the request.");
+      }
+      processingRef.current = action === "start";
+      setProcessing(action === "start");
+      await refreshQueue();
+    },
+    [refreshQueue, settings],
+  );
 
   const runAgent = useCallback(async () => {
     if (processingRef.current) {
       return;
     }
-    if (queueRef.current.length === 0) {
+    if (queue.length === 0) {
       appendLog({
         level: "info",
         headline: "Queue empty",
@@ -228,243 +630,381 @@ export default function Home() {
       });
       return;
     }
-    setProcessing(true);
-  }, [appendLog]);
-
-  const stopAgent = useCallback(() => {
-    setProcessing(false);
-    setActiveProductId(null);
-    appendLog({
-      level: "info",
-      headline: "Agent paused",
-      details: "Automation paused manually.",
-    });
-  }, [appendLog]);
-
-  const processNextProduct = useCallback(async () => {
-    if (!processingRef.current) {
-      return;
-    }
-    if (activeProductRef.current) {
-      return;
-    }
-
-    const [next] = queueRef.current;
-
-    if (!next) {
-      setProcessing(false);
+    try {
+      await controlAgent("start");
+    } catch (error) {
       appendLog({
-        level: "success",
-        headline: "Queue complete",
-        details: "All products processed successfully.",
+        level: "error",
+        headline: "Agent failed to start",
+        details: error instanceof Error ? error.message : "Unexpected error while starting the agent.",
       });
-      return;
     }
+  }, [appendLog, controlAgent, queue.length]);
 
-    setActiveProductId(next.id);
-    appendLog({
-      level: "info",
-      headline: `Processing: ${next.payload.title || "Untitled product"}`,
-      details: `Attempting IndiaMART sync in ${settings.mode === "simulate" ? "simulation" : "live"} mode.`,
-    });
-
+  const stopAgent = useCallback(async () => {
     try {
-      const response = await fetch("/api/indiamart", {
-        method: "POST",
-        headers: {
-          "content-type": "application/json",
-        },
-        body: JSON.stringify({
-          settings,
-          product: normalizeProduct(next.payload),
-        }),
+      await controlAgent("pause");
+      appendLog({
+        level: "info",
+        headline: "Agent paused",
+        details: "Automation paused manually.",
       });
+    } catch (error) {
+      appendLog({
+        level: "error",
+        headline: "Agent failed to pause",
+        details: error instanceof Error ? error.message : "Unexpected error while pausing the agent.",
+      });
+    }
+  }, [appendLog, controlAgent]);
 
+  const clearHistory = useCallback(async () => {
+    try {
+      const response = await fetch("/api/queue?state=succeeded", { method: "DELETE" });
       const result = await response.json();
 
       if (!response.ok) {
-        const message = typeof result?.error === "string" ? result.error : "Unable to upload product.";
-        throw new Error(message);
+        throw new Error(typeof result?.error === "string" ? result.error : "Unable to clear the history.");
       }
-
-      appendLog({
-        level: "success",
-        headline: `Uploaded: ${next.payload.title || "Untitled product"}`,
-        details:
-          settings.mode === "simulate"
-            ? "Simulation completed. Ready to upload live."
-            : `IndiaMART responded with status: ${result?.status ?? "success"}`,
-      });
     } catch (error) {
-      const message = error instanceof Error ? error.message : "Unexpected error while uploading product.";
       appendLog({
         level: "error",
-        headline: `Failed: ${next.payload.title || "Untitled product"}`,
-        details: message,
+        headline: "History not cleared",
+        details: error instanceof Error ? error.message : "Unexpected error while clearing the history.",
       });
-    } finally {
-      setQueue((prev) => prev.filter((item) => item.id !== next.id));
-      setActiveProductId(null);
-      setTimeout(() => {
-        if (processingRef.current) {
-          void processNextProduct();
-        }
-      }, 600);
     }
-  }, [appendLog, normalizeProduct, settings]);
+    await refreshQueue();
+  }, [appendLog, refreshQueue]);
+
+  const requeueJob = useCallback(
+    async (job: UploadJob, product?: ProductDraft) => {
+      try {
+        const response = await fetch(`/api/queue/${job.id}/requeue`, {
+          method: "POST",
+          headers: {
+            "content-type": "application/json",
+          },
+          body: JSON.stringify({ product }),
+        });
+        const result = await response.json();
 
-  useEffect(() => {
-    if (processing) {
-      void processNextProduct();
-    }
-  }, [processing, processNextProduct]);
+        if (!response.ok) {
+          const message = typeof result?.error === "string" ? result.error : "Unable to re-queue product.";
+          throw new Error(message);
+        }
 
-  useEffect(() => {
-    if (!processingRef.current || activeProductRef.current) {
-      return;
+        appendLog({
+          level: "info",
+          headline: `Re-queued: ${(product ?? job.product).title || "Untitled"}`,
+          details: product ? "Edited product sent back to the automation queue." : "Sent back to the automation queue.",
+        });
+
+        if (settings.autoStart && !processingRef.current) {
+          await controlAgent("start");
+        } else {
+          await refreshQueue();
+        }
+        return true;
+      } catch (error) {
+        appendLog({
+          level: "error",
+          headline: "Re-queue failed",
+          details: error instanceof Error ? error.message : "Unexpected error while re-queuing product.",
+        });
+        return false;
+      }
+    },
+    [appendLog, controlAgent, refreshQueue, settings.autoStart],
+  );
+
+  const saveQueuedJob = useCallback(
+    async (job: UploadJob, product: ProductDraft) => {
+      try {
+        const response = await fetch(`/api/queue/${job.id}`, {
+          method: "PATCH",
+          headers: {
+            "content-type": "application/json",
+          },
+          body: JSON.stringify({ product }),
+        });
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(typeof result?.error === "string" ? result.error : "Unable to save the queued item.");
+        }
+
+        appendLog({
+          level: "info",
+          headline: `Queued item updated: ${product.title || "Untitled"}`,
+          details: "Saved in place; it keeps its position and retry count.",
+        });
+        await refreshQueue();
+        return true;
+      } catch (error) {
+        appendLog({
+          level: "error",
+          headline: "Queued item not saved",
+          details: error instanceof Error ? error.message : "Unexpected error while saving the queued item.",
+        });
+        return false;
+      }
+    },
+    [appendLog, refreshQueue],
+  );
+
+  const removeJob = useCallback(
+    async (job: UploadJob) => {
+      try {
+        const response = await fetch(`/api/queue/${job.id}`, { method: "DELETE" });
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(typeof result?.error === "string" ? result.error : "Unable to remove the product.");
+        }
+
+        if (editingJobId === job.id) {
+          setEditingJobId(null);
+        }
+      } catch (error) {
+        appendLog({
+          level: "error",
+          headline: `Not removed: ${job.product.title || "Untitled"}`,
+          details: error instanceof Error ? error.message : "Unexpected error while removing the product.",
+        });
+      }
+      await refreshQueue();
+    },
+    [appendLog, editingJobId, refreshQueue],
+  );
+
+  const editQueue = useCallback(
+    async (ids: string[], edit: QueueEdit, description?: string) => {
+      try {
+        const response = await fetch("/api/queue", {
+          method: "PATCH",
+          headers: {
+            "content-type": "application/json",
+          },
+          body: JSON.stringify({ ids, ...edit }),
+        });
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(typeof result?.error === "string" ? result.error : "Unable to update the queue.");
+        }
+        const errors = result.errors as { sku: string; title: string; error: string }[];
+        if (description || errors.length) {
+          appendLog({
+            level: errors.length ? "error" : "info",
+            headline: description ?? "Queue updated",
+            details: [
+              `${result.updated} queued item${result.updated === 1 ? "" : "s"} updated.`,
+              ...errors.map((item) => `${item.sku || item.title}: ${item.error}`),
+            ].join(" "),
+          });
+        }
+      } catch (error) {
+        appendLog({
+          level: "error",
+          headline: "Queue update failed",
+          details: error instanceof Error ? error.message : "Unexpected error while updating the queue.",
+        });
+      }
+      await refreshQueue();
+    },
+    [appendLog, refreshQueue],
+  );
+
+  /** Drops `id` just before `targetId`; an item dragged into another priority group takes that priority. */
+  const moveJob = useCallback(
+    async (id: string, targetId: string) => {
+      const moving = queue.find((job) => job.id === id);
+      const target = queue.find((job) => job.id === targetId);
+      if (!moving || !target || id === targetId) {
+        return;
+      }
+      if ((moving.priority ?? "normal") !== (target.priority ?? "normal")) {
+        await editQueue([id], { priority: target.priority ?? "normal" });
+      }
+      const ids = queue.filter((job) => job.id !== id).map((job) => job.id);
+      ids.splice(ids.indexOf(targetId), 0, id);
+      const response = await fetch("/api/queue/order", {
+        method: "PUT",
+        headers: {
+          "content-type": "application/json",
+        },
+        body: JSON.stringify({ ids }),
+      });
+      if (!response.ok) {
+        appendLog({ level: "error", headline: "Queue order not saved" });
+      }
+      await refreshQueue();
+    },
+    [appendLog, editQueue, queue, refreshQueue],
+  );
+
+  const removeSelectedJobs = useCallback(async () => {
+    const removed: string[] = [];
+    const failures: string[] = [];
+    for (const job of selectedJobs) {
+      try {
+        const response = await fetch(`/api/queue/${job.id}`, { method: "DELETE" });
+        if (response.ok) {
+          removed.push(job.id);
+        } else {
+          const result = await response.json().catch(() => null);
+          failures.push(`${job.product.title || "Untitled"}: ${result?.error ?? `HTTP ${response.status}`}`);
+        }
+      } catch {
+        failures.push(`${job.product.title || "Untitled"}: the queue could not be reached.`);
+      }
     }
-    if (queueRef.current.length > 0) {
-      void processNextProduct();
+    if (editingJobId && removed.includes(editingJobId)) {
+      setEditingJobId(null);
     }
-  }, [queue, processNextProduct]);
+    appendLog({
+      level: failures.length ? "error" : "info",
+      headline: "Removed from queue",
+      details: [`${removed.length} queued item${removed.length === 1 ? "" : "s"} removed.`, ...failures].join(" "),
+    });
+    setSelectedJobIds((prev) => prev.filter((id) => !removed.includes(id)));
+    await refreshQueue();
+  }, [appendLog, editingJobId, refreshQueue, selectedJobs]);
+
+  const editJob = useCallback((job: UploadJob) => {
+    const result = job.result as { errors?: ValidationError[] } | undefined;
+    setDraft(job.product);
+    setEditingJobId(job.id);
+    setDraftErrors(Array.isArray(result?.errors) ? result.errors : []);
+  }, []);
 
   const handleAddDraftToQueue = useCallback(
-    (event: FormEvent<HTMLFormElement>) => {
+    async (event: FormEvent<HTMLFormElement>) => {
       event.preventDefault();
-      if (!draft.title) {
+      const errors = validateDraft(draft);
+      setDraftErrors(errors);
+      if (errors.length) {
         appendLog({
           level: "error",
-          headline: "Missing product name",
-          details: "Add a product title before queuing.",
+          headline: `Draft has ${errors.length} problem${errors.length === 1 ? "" : "s"}`,
+          details: summarizeErrors(errors),
         });
         return;
       }
-      addToQueue(draft);
-      resetDraft();
+      const queued = !editingJob
+        ? await addToQueue([draft])
+        : editingJob.state === "failed"
+          ? await requeueJob(editingJob, draft)
+          : await saveQueuedJob(editingJob, draft);
+      if (queued) {
+        await saveToLibrary(draft);
+        resetDraft();
+      }
     },
-    [addToQueue, appendLog, draft, resetDraft],
+    [addToQueue, appendLog, draft, editingJob, requeueJob, resetDraft, saveQueuedJob, saveToLibrary],
   );
 
   const autoGenerateDescriptions = useCallback(() => {
-    const features = draft.features
-      .split("\n")
-      .map((line) => line.trim())
-      .filter(Boolean);
-    const highlights = features.length ? features.join(", ") : "premium quality build with reliable performance";
-    const generatedShort = `${draft.title || "This product"} delivers ${highlights.toLowerCase()}.`;
-    const generatedLong = `${draft.title || "This product"} is engineered for businesses that need dependable supply. Key highlights include ${highlights.toLowerCase()}. Suitable for categories like ${draft.category || "industrial supplies"} with ready stock of ${
-      draft.stock || "custom quantities"
-    }.`;
-
-    setDraft((prev) => ({
-      ...prev,
-      shortDescription: generatedShort,
-      description: generatedLong,
-    }));
+    const template = templateForCategory(templates, draft.category);
+    const sequence = templateSequenceRef.current.get(template.id) ?? 0;
+    templateSequenceRef.current.set(template.id, sequence + 1);
+    setDraft(applyTemplate(draft, template, sequence));
 
     appendLog({
       level: "success",
       headline: "Descriptions generated",
-      details: "Draft updated using the agent template.",
+      details: `Draft updated using the ${template.name} template.`,
     });
-  }, [appendLog, draft.category, draft.features, draft.stock, draft.title]);
-
-  const parseCsvFile = useCallback(
-    async (file: File) => {
-      const text = await file.text();
-      const [headerLine, ...rows] = text
-        .split(/\r?\n/)
-        .map((line) => line.trim())
-        .filter((line) => line.length > 0);
-      if (!headerLine) {
+  }, [appendLog, draft, templates]);
+
+  const logGeneration = useCallback(
+    (result: GenerationResult) => {
+      const { usage } = result;
+      appendLog({
+        level: "info",
+        headline: `Copy generated by ${result.model}`,
+        details: `${usage.totalTokens} tokens${usage.estimated ? " (estimated)" : ""} · ${usage.promptTokens} prompt / ${
+          usage.completionTokens
+        } completion · ${result.latencyMs} ms`,
+      });
+    },
+    [appendLog],
+  );
+
+  const loadImportFile = useCallback(
+    async (file: File, sheet?: string) => {
+      let source: ImportSource;
+      try {
+        source = await readImportFile(file, sheet);
+      } catch (error) {
         appendLog({
           level: "error",
-          headline: "Empty CSV",
-          details: "No header row detected.",
+          headline: "Import file not readable",
+          details: error instanceof Error ? error.message : "Unexpected error while reading the file.",
         });
         return;
       }
-      const headers = splitCsvLine(headerLine).map((column) =>
-        cleanCell(column).toLowerCase().replace(/\s+/g, ""),
-      );
-
-      const expected = new Set([
-        "title",
-        "category",
-        "price",
-        "currency",
-        "unit",
-        "stock",
-        "minorderqty",
-        "keywords",
-        "imageurls",
-        "shortdescription",
-        "description",
-        "features",
-        "packaging",
-        "leadtime",
-      ]);
-
-      const missing = [...expected].filter((key) => !headers.includes(key));
-      if (missing.length) {
+      if (source.headers.length === 0) {
         appendLog({
           level: "error",
-          headline: "CSV headers mismatch",
-          details: `Missing columns: ${missing.join(", ")}`,
+          headline: source.format === "csv" ? "Empty CSV" : "Empty import file",
+          details: source.format === "csv" ? "No header row detected." : "No product records detected.",
         });
         return;
       }
+      setImportSession({ ...source, id: makeId(), file, fileName: file.name });
+    },
+    [appendLog],
+  );
+
+  const stageImport = useCallback((mapping: ColumnMapping, defaults: Partial<ProductDraft>) => {
+    setImportSession((prev) =>
+      prev
+        ? {
+            ...prev,
+            mapping,
+            defaults,
+            staged: prev.rows.map((row) => ({
+              line: row.line,
+              draft: applyMapping(prev.headers, row.cells, mapping, defaults),
+            })),
+          }
+        : prev,
+    );
+  }, []);
 
-      const getValue = (row: string[], column: string) => {
-        const index = headers.indexOf(column);
-        if (index === -1) {
-          return "";
+  const queueImport = useCallback(
+    async (drafts: ProductDraft[]) => {
+      setImportSession(null);
+      let imported = 0;
+      for (let start = 0; start < drafts.length; start += CSV_BATCH_SIZE) {
+        const batch = drafts.slice(start, start + CSV_BATCH_SIZE);
+        if (!(await addToQueue(batch))) {
+          return;
         }
-        return row[index] ?? "";
-      };
-
-      rows.forEach((rowLine) => {
-        const cells = splitCsvLine(rowLine).map((value) => cleanCell(value));
-        const product: ProductDraft = {
-          title: getValue(cells, "title"),
-          category: getValue(cells, "category"),
-          price: getValue(cells, "price"),
-          currency: getValue(cells, "currency") || "INR",
-          unit: getValue(cells, "unit") || "Unit",
-          stock: getValue(cells, "stock"),
-          minOrderQty: getValue(cells, "minorderqty"),
-          keywords: getValue(cells, "keywords"),
-          imageUrls: getValue(cells, "imageurls"),
-          shortDescription: getValue(cells, "shortdescription"),
-          description: getValue(cells, "description"),
-          features: getValue(cells, "features"),
-          packaging: getValue(cells, "packaging"),
-          leadTime: getValue(cells, "leadtime"),
-        };
-        addToQueue(product);
-      });
+        imported += batch.length;
+      }
 
       appendLog({
         level: "success",
-        headline: "CSV imported",
-        details: `${rows.length} product rows processed.`,
+        headline: "Import queued",
+        details: `${imported} product rows queued.`,
       });
     },
     [addToQueue, appendLog],
   );
 
-  const handleCsvUpload = useCallback(
+  const handleImportUpload = useCallback(
     async (event: ChangeEvent<HTMLInputElement>) => {
       const [file] = Array.from(event.target.files ?? []);
       if (!file) {
         return;
       }
-      await parseCsvFile(file);
+      await loadImportFile(file);
       if (fileInputRef.current) {
         fileInputRef.current.value = "";
       }
     },
-    [parseCsvFile],
+    [loadImportFile],
   );
 
   return (
@@ -478,6 +1018,47 @@ export default function Home() {
           </p>
         </header>
 
+        {importSession?.staged && (
+          <section className="mt-8">
+            <ImportPreview
+              key={importSession.id}
+              fileName={importSession.fileName}
+              rows={importSession.staged}
+              onQueue={queueImport}
+              onBack={() => setImportSession((prev) => (prev ? { ...prev, staged: undefined } : prev))}
+              onCancel={() => setImportSession(null)}
+            />
+          </section>
+        )}
+
+        {importSession && !importSession.staged && (
+          <section className="mt-8">
+            <ImportWizard
+              key={importSession.id}
+              fileName={importSession.fileName}
+              headers={importSession.headers}
+              sampleRows={importSession.rows.slice(0, 5).map((row) => row.cells)}
+              rowCount={importSession.rows.length}
+              sheetNames={importSession.sheetNames}
+              sheet={importSession.sheet}
+              onSheetChange={(sheet) => loadImportFile(importSession.file, sheet)}
+              presets={presets}
+              initialMapping={importSession.mapping}
+              initialDefaults={importSession.defaults}
+              onPresetsChanged={refreshPresets}
+              onConfirm={stageImport}
+              onCancel={() => setImportSession(null)}
+              onError={(message) =>
+                appendLog({
+                  level: "error",
+                  headline: "Import preset not saved",
+                  details: message,
+                })
+              }
+            />
+          </section>
+        )}
+
         <section className="mt-8 grid gap-6 lg:grid-cols-[3fr,2fr]">
           <div className="space-y-6">
             <form
@@ -485,13 +1066,25 @@ export default function Home() {
               className="rounded-2xl border border-slate-800 bg-slate-900/50 p-6 shadow-xl shadow-black/40"
             >
               <div className="flex items-center justify-between">
-                <h2 className="text-lg font-semibold text-white">Product Draft</h2>
+                <h2 className="text-lg font-semibold text-white">
+                  Product Draft
+                  {editingJob && (
+                    <span className="ml-3 rounded-md bg-rose-500/20 px-2 py-0.5 text-[11px] font-semibold uppercase tracking-wide text-rose-200">
+                      {editingJob.state === "failed" ? "Editing failed upload" : "Editing queued item"}
+                    </span>
+                  )}
+                  {!editingJobId && libraryProductId && (
+                    <span className="ml-3 rounded-md bg-indigo-500/20 px-2 py-0.5 text-[11px] font-semibold uppercase tracking-wide text-indigo-200">
+                      From library
+                    </span>
+                  )}
+                </h2>
                 <button
                   type="button"
                   onClick={resetDraft}
                   className="text-xs font-medium text-slate-300 underline underline-offset-4 hover:text-white"
                 >
-                  Reset
+                  {editingJobId ? "Cancel edit" : "Reset"}
                 </button>
               </div>
 
@@ -505,6 +1098,7 @@ export default function Home() {
                     placeholder="Premium Copper Wire 16 AWG"
                     required
                   />
+                  <FieldError errors={draftErrors} field="title" />
                 </label>
 
                 <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
@@ -515,6 +1109,7 @@ export default function Home() {
                     className="rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-400/60"
                     placeholder="Electrical Cables"
                   />
+                  <FieldError errors={draftErrors} field="category" />
                 </label>
 
                 <div className="grid grid-cols-[2fr,1fr] gap-3">
@@ -526,6 +1121,7 @@ export default function Home() {
                       className="rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-400/60"
                       placeholder="115"
                     />
+                    <FieldError errors={draftErrors} field="price" />
                   </label>
                   <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
                     Currency
@@ -535,6 +1131,7 @@ export default function Home() {
                       className="rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-400/60"
                       placeholder="INR"
                     />
+                    <FieldError errors={draftErrors} field="currency" />
                   </label>
                 </div>
 
@@ -546,6 +1143,7 @@ export default function Home() {
                     className="rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-400/60"
                     placeholder="Roll"
                   />
+                  <FieldError errors={draftErrors} field="unit" />
                 </label>
 
                 <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
@@ -556,6 +1154,7 @@ export default function Home() {
                     className="rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-400/60"
                     placeholder="500"
                   />
+                  <FieldError errors={draftErrors} field="stock" />
                 </label>
 
                 <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
@@ -566,6 +1165,18 @@ export default function Home() {
                     className="rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-400/60"
                     placeholder="50"
                   />
+                  <FieldError errors={draftErrors} field="minOrderQty" />
+                </label>
+
+                <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                  SKU
+                  <input
+                    value={draft.sku}
+                    onChange={handleDraftChange("sku")}
+                    className="rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-400/60"
+                    placeholder="CW-16AWG-100M"
+                  />
+                  <FieldError errors={draftErrors} field="sku" />
                 </label>
 
                 <label className="flex flex-col gap-2 text-sm font-medium text-slate-200 md:col-span-2">
@@ -576,6 +1187,7 @@ export default function Home() {
                     className="rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-400/60"
                     placeholder="copper wire, e-beam insulated, hvac"
                   />
+                  <FieldError errors={draftErrors} field="keywords" />
                 </label>
 
                 <label className="flex flex-col gap-2 text-sm font-medium text-slate-200 md:col-span-2">
@@ -586,7 +1198,21 @@ export default function Home() {
                     className="h-24 rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-400/60"
                     placeholder="https://example.com/image-1.jpg&#10;https://example.com/image-2.jpg"
                   />
+                  <FieldError errors={draftErrors} field="imageUrls" />
                 </label>
+                <div className="md:col-span-2">
+                  <ImageManager
+                    imageUrls={draft.imageUrls}
+                    onChange={(imageUrls) => setDraft((prev) => ({ ...prev, imageUrls }))}
+                    onError={(message) =>
+                      appendLog({
+                        level: "error",
+                        headline: "Image problem",
+                        details: message,
+                      })
+                    }
+                  />
+                </div>
 
                 <label className="flex flex-col gap-2 text-sm font-medium text-slate-200 md:col-span-2">
                   Key features (one per line)
@@ -596,6 +1222,7 @@ export default function Home() {
                     className="h-28 rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-400/60"
                     placeholder={"High conductivity copper\nFlame retardant insulation\nAvailable in custom lengths"}
                   />
+                  <FieldError errors={draftErrors} field="features" />
                 </label>
 
                 <label className="flex flex-col gap-2 text-sm font-medium text-slate-200 md:col-span-2">
@@ -606,6 +1233,7 @@ export default function Home() {
                     className="rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-400/60"
                     placeholder="Packed on 20kg spools with vacuum sealing"
                   />
+                  <FieldError errors={draftErrors} field="packaging" />
                 </label>
 
                 <label className="flex flex-col gap-2 text-sm font-medium text-slate-200 md:col-span-2">
@@ -616,6 +1244,7 @@ export default function Home() {
                     className="rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-400/60"
                     placeholder="Dispatch within 3 working days"
                   />
+                  <FieldError errors={draftErrors} field="leadTime" />
                 </label>
 
                 <div className="grid gap-3 md:col-span-2 md:grid-cols-2">
@@ -627,6 +1256,7 @@ export default function Home() {
                       className="h-24 rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-400/60"
                       placeholder="Compact summary used on catalogue cards"
                     />
+                    <FieldError errors={draftErrors} field="shortDescription" />
                   </label>
                   <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
                     Full description
@@ -636,6 +1266,7 @@ export default function Home() {
                       className="h-24 rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-400/60"
                       placeholder="Detailed IndiaMART product description"
                     />
+                    <FieldError errors={draftErrors} field="description" />
                   </label>
                 </div>
               </div>
@@ -645,7 +1276,11 @@ export default function Home() {
                   type="submit"
                   className="rounded-lg bg-indigo-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-indigo-400"
                 >
-                  Queue for Agent
+                  {editingJob?.state === "failed"
+                    ? "Re-queue edited product"
+                    : editingJob
+                      ? "Save queued item"
+                      : "Queue for Agent"}
                 </button>
                 <button
                   type="button"
@@ -654,20 +1289,121 @@ export default function Home() {
                 >
                   Auto-generate copy
                 </button>
+                <button
+                  type="button"
+                  onClick={async () => {
+                    const saved = await saveToLibrary(draft);
+                    if (saved) {
+                      setLibraryProductId(saved.id);
+                      appendLog({
+                        level: "success",
+                        headline: `Saved to library: ${draft.title || "Untitled"}`,
+                        details: `Version ${saved.versions[saved.versions.length - 1].version}`,
+                      });
+                    }
+                  }}
+                  className="rounded-lg border border-slate-700 px-4 py-2 text-sm font-semibold text-slate-100 transition hover:border-slate-500"
+                >
+                  Save to library
+                </button>
                 <label className="text-xs text-slate-400">
                   Need a template? Download sample CSV from settings panel.
                 </label>
               </div>
+              <CopyGenerator
+                draft={draft}
+                onApprove={(patch) => {
+                  setDraft((prev) => ({ ...prev, ...patch }));
+                  appendLog({
+                    level: "success",
+                    headline: "Generated copy applied",
+                    details: `Updated ${Object.keys(patch).length} field${Object.keys(patch).length === 1 ? "" : "s"}.`,
+                  });
+                }}
+                onGenerated={logGeneration}
+                onError={(message) =>
+                  appendLog({
+                    level: "error",
+                    headline: "Text generation failed",
+                    details: message,
+                  })
+                }
+              />
             </form>
 
             <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-6 shadow-xl shadow-black/40">
               <div className="flex flex-wrap items-center justify-between gap-3">
                 <div>
-                  <h2 className="text-lg font-semibold text-white">Automation Queue</h2>
+                  <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+                    Automation Queue
+                    <span
+                      title={live ? "Receiving live updates" : "Reconnecting; refreshing every few seconds"}
+                      className={`rounded-full px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide ${
+                        live ? "bg-emerald-500/15 text-emerald-300" : "bg-slate-700/60 text-slate-400"
+                      }`}
+                    >
+                      {live ? "Live" : "Polling"}
+                    </span>
+                  </h2>
                   <p className="text-xs text-slate-400">
                     {queue.length} product{queue.length === 1 ? "" : "s"} waiting · Mode:{" "}
                     <span className="font-semibold text-indigo-300">{settings.mode}</span>
                   </p>
+                  {rate && (
+                    <p className="mt-1 text-xs text-slate-400">
+                      {rate.completedLastMinute}/min · {rate.activeUploads} uploading
+                      {(Object.keys(RATE_WINDOW_LABELS) as RateWindow[]).map((window) => {
+                        const quota = rate.quota[window];
+                        return quota ? (
+                          <span key={window} className={quota.remaining === 0 ? "text-amber-300" : undefined}>
+                            {" "}
+                            · {quota.remaining}/{quota.limit} left {RATE_WINDOW_LABELS[window]}
+                          </span>
+                        ) : null;
+                      })}
+                      {rate.blockedUntil && (
+                        <span className="text-amber-300">
+                          {" "}
+                          · IndiaMART rate limit, paused until {new Date(rate.blockedUntil).toLocaleTimeString()}
+                        </span>
+                      )}
+                    </p>
+                  )}
+                  {progress && (progress.counts.queued > 0 || progress.counts.running > 0) && (
+                    <p className="mt-1 text-xs text-slate-400">
+                      {progress.counts.running} uploading · {progress.counts.queued} queued ·{" "}
+                      {progress.counts.succeeded} done
+                      {progress.counts.failed > 0 && (
+                        <span className="text-rose-300"> · {progress.counts.failed} failed</span>
+                      )}
+                      {progress.held > 0 && ` · ${progress.held} on hold`}
+                      {progress.etaMs !== null && ` · ETA ${formatEta(progress.etaMs)}`}
+                      {progress.current.length > 0 && (
+                        <span className="block text-emerald-300/90">
+                          Now: {progress.current.map((item) => item.title || item.sku || "Untitled").join(", ")}
+                        </span>
+                      )}
+                    </p>
+                  )}
+                  <p className="mt-1 flex gap-3 text-xs">
+                    <a
+                      href="/api/queue/export?format=results"
+                      download
+                      className="font-semibold text-indigo-300 underline underline-offset-4 hover:text-indigo-200"
+                    >
+                      Export results CSV
+                    </a>
+                    <a
+                      href={`/api/queue/export?format=indiamart${
+                        settings.profileId ? `&profileId=${encodeURIComponent(settings.profileId)}` : ""
+                      }`}
+                      download
+                      title="Queued products in IndiaMART's bulk-upload column layout, for manual upload"
+                      className="font-semibold text-indigo-300 underline underline-offset-4 hover:text-indigo-200"
+                    >
+                      Export bulk-upload sheet
+                    </a>
+                  </p>
                 </div>
                 <div className="flex items-center gap-2">
                   <button
@@ -687,26 +1423,161 @@ export default function Home() {
                 </div>
               </div>
 
-              <ul className="mt-6 space-y-3">
+              {queue.some((job) => job.state === "queued") && (
+                <label className="mt-4 flex items-center gap-2 text-xs text-slate-400">
+                  <input
+                    type="checkbox"
+                    checked={
+                      selectedJobs.length > 0 &&
+                      selectedJobs.length === queue.filter((job) => job.state === "queued").length
+                    }
+                    onChange={(event) =>
+                      setSelectedJobIds(
+                        event.target.checked ? queue.filter((job) => job.state === "queued").map((job) => job.id) : [],
+                      )
+                    }
+                  />
+                  Select all waiting items · drag items to reorder
+                </label>
+              )}
+              {selectedJobs.length > 0 && (
+                <QueueBulkActions
+                  count={selectedJobs.length}
+                  onEdit={(edit, description) =>
+                    void editQueue(
+                      selectedJobs.map((job) => job.id),
+                      edit,
+                      description,
+                    )
+                  }
+                  onRemove={() => void removeSelectedJobs()}
+                  onClear={() => setSelectedJobIds([])}
+                />
+              )}
+
+              <ul className="mt-4 space-y-3">
                 {queue.map((item) => {
-                  const waiting = item.id !== activeProductId;
+                  const waiting = item.state !== "running";
+                  const priority = item.priority ?? "normal";
                   return (
                     <li
                       key={item.id}
-                      className={`rounded-xl border border-slate-800 px-4 py-3 text-sm transition ${
-                        waiting ? "bg-slate-950/40" : "border-emerald-400/80 bg-emerald-400/10"
-                      }`}
+                      draggable={waiting}
+                      onDragStart={() => setDraggedJobId(item.id)}
+                      onDragEnd={() => setDraggedJobId(null)}
+                      onDragOver={(event) => {
+                        if (draggedJobId && waiting) {
+                          event.preventDefault();
+                        }
+                      }}
+                      onDrop={(event) => {
+                        event.preventDefault();
+                        if (draggedJobId) {
+                          void moveJob(draggedJobId, item.id);
+                        }
+                        setDraggedJobId(null);
+                      }}
+                      className={`rounded-xl border px-4 py-3 text-sm transition ${
+                        waiting ? "border-slate-800 bg-slate-950/40" : "border-emerald-400/80 bg-emerald-400/10"
+                      } ${item.id === draggedJobId ? "opacity-40" : item.held ? "opacity-60" : ""} ${
+                        item.id === editingJobId ? "border-indigo-400/80" : ""
+                      } ${waiting ? "cursor-grab" : ""}`}
                     >
                       <div className="flex items-center justify-between">
-                        <div className="font-semibold text-slate-100">{item.payload.title || "Untitled"}</div>
+                        <div className="flex items-center gap-2 font-semibold text-slate-100">
+                          {waiting && (
+                            <input
+                              type="checkbox"
+                              aria-label={`Select ${item.product.title || "Untitled"}`}
+                              checked={selectedJobIds.includes(item.id)}
+                              onChange={(event) =>
+                                setSelectedJobIds((prev) =>
+                                  event.target.checked ? [...prev, item.id] : prev.filter((id) => id !== item.id),
+                                )
+                              }
+                            />
+                          )}
+                          <OperationBadge operation={item.operation} />
+                          {priority !== "normal" && (
+                            <span
+                              className={`rounded-md px-1.5 py-0.5 text-[10px] font-semibold uppercase tracking-wide ${
+                                priority === "high"
+                                  ? "bg-amber-500/20 text-amber-200"
+                                  : "bg-slate-700/60 text-slate-300"
+                              }`}
+                            >
+                              {PRIORITY_LABELS[priority]}
+                            </span>
+                          )}
+                          {item.product.title || "Untitled"}
+                        </div>
                         <span className="text-[11px] uppercase tracking-wide text-slate-400">
-                          {waiting ? "Waiting" : "Uploading"}
+                          {!waiting
+                            ? "Uploading"
+                            : item.held
+                              ? "On hold"
+                              : item.nextAttemptAt
+                                ? `Retry at ${new Date(item.nextAttemptAt).toLocaleTimeString()}`
+                                : "Waiting"}
                         </span>
                       </div>
                       <div className="mt-1 text-xs text-slate-400">
-                        ₹{item.payload.price || "N/A"} · {item.payload.category || "General"} · Added{" "}
-                        {new Date(item.createdAt).toLocaleTimeString()}
+                        {item.product.sku && `SKU ${item.product.sku} · `}
+                        {item.product.price
+                          ? formatPrice(item.product.price, item.product.currency || "INR")
+                          : "₹N/A"}{" "}
+                        · {item.product.category || "General"} · Added {new Date(item.createdAt).toLocaleTimeString()}
+                        {item.attempts > 0 && ` · Attempt ${item.attempts}`}
                       </div>
+                      {item.pricing && (
+                        <p className="mt-1 text-xs text-indigo-200/80">
+                          Priced by “{item.pricing.ruleName}” from{" "}
+                          {formatPrice(item.pricing.cost, item.pricing.costCurrency)}
+                          {item.pricing.steps.length > 0 && `: ${item.pricing.steps.join(", ")}`}
+                        </p>
+                      )}
+                      {item.nextAttemptAt && item.error && (
+                        <p className="mt-1 text-xs text-rose-300/80">Last error: {item.error}</p>
+                      )}
+                      {waiting && (
+                        <div className="mt-2 flex items-center gap-3 text-xs font-semibold">
+                          <select
+                            value={priority}
+                            onChange={(event) =>
+                              void editQueue([item.id], { priority: event.target.value as JobPriority })
+                            }
+                            aria-label="Priority"
+                            className="rounded-md border border-slate-800 bg-slate-950/60 px-1.5 py-0.5 text-xs text-slate-200"
+                          >
+                            {JOB_PRIORITIES.map((value) => (
+                              <option key={value} value={value}>
+                                {PRIORITY_LABELS[value]} priority
+                              </option>
+                            ))}
+                          </select>
+                          <button
+                            type="button"
+                            onClick={() => editJob(item)}
+                            className="text-indigo-300 underline underline-offset-4 hover:text-indigo-200"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => void editQueue([item.id], { held: !item.held })}
+                            className="text-amber-300 underline underline-offset-4 hover:text-amber-200"
+                          >
+                            {item.held ? "Release" : "Hold"}
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => void removeJob(item)}
+                            className="text-slate-400 underline underline-offset-4 hover:text-slate-200"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      )}
                     </li>
                   );
                 })}
@@ -716,65 +1587,210 @@ export default function Home() {
                   </li>
                 )}
               </ul>
+
+              {history.length > 0 && (
+                <div className="mt-6">
+                  <div className="flex items-center justify-between">
+                    <h3 className="text-sm font-semibold text-slate-200">Recent results</h3>
+                    <button
+                      type="button"
+                      onClick={clearHistory}
+                      className="text-xs font-medium text-slate-300 underline underline-offset-4 hover:text-white"
+                    >
+                      Clear
+                    </button>
+                  </div>
+                  <ul className="mt-3 space-y-2">
+                    {history.map((item) => (
+                      <li
+                        key={item.id}
+                        className="rounded-xl border border-emerald-500/40 bg-emerald-500/5 px-4 py-2 text-xs text-emerald-100"
+                      >
+                        <div className="flex items-center justify-between">
+                          <span className="flex items-center gap-2 font-semibold">
+                            <OperationBadge operation={item.operation} />
+                            {item.product.title || "Untitled"}
+                          </span>
+                          <span className="flex items-center gap-3 text-[11px] uppercase tracking-wide">
+                            {item.productId && (
+                              <span className="normal-case text-emerald-200/70">ID {item.productId}</span>
+                            )}
+                            {item.state}
+                          </span>
+                        </div>
+                        {item.productId && item.product.sku && item.operation !== "delete" && (
+                          <button
+                            type="button"
+                            onClick={() => void addToQueue([item.product], "delete")}
+                            className="mt-1 text-[11px] font-semibold text-rose-300 underline underline-offset-4 hover:text-rose-200"
+                          >
+                            Remove listing
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+
+            <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-6 shadow-xl shadow-black/40">
+              <h2 className="text-lg font-semibold text-white">Failed</h2>
+              <p className="text-xs text-slate-400">
+                Products that failed validation or ran out of retries. Edit them in the draft form or re-queue as is.
+              </p>
+              <ul className="mt-4 space-y-3">
+                {failedJobs.map((item) => (
+                  <li
+                    key={item.id}
+                    className={`rounded-xl border px-4 py-3 text-sm ${
+                      item.id === editingJobId
+                        ? "border-indigo-400/80 bg-indigo-500/10"
+                        : "border-rose-500/40 bg-rose-500/5"
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2 font-semibold text-slate-100">
+                        <OperationBadge operation={item.operation} />
+                        {item.product.title || "Untitled"}
+                      </div>
+                      <span className="text-[11px] uppercase tracking-wide text-rose-200">
+                        {item.failureKind ? FAILURE_LABELS[item.failureKind] : "Failed"} · {item.attempts} attempt
+                        {item.attempts === 1 ? "" : "s"}
+                      </span>
+                    </div>
+                    {item.error && <p className="mt-1 text-xs text-rose-200/80">{item.error}</p>}
+                    <div className="mt-2 flex items-center gap-3 text-xs font-semibold">
+                      <button
+                        type="button"
+                        onClick={() => void requeueJob(item)}
+                        className="text-emerald-300 underline underline-offset-4 hover:text-emerald-200"
+                      >
+                        Re-queue
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => editJob(item)}
+                        className="text-indigo-300 underline underline-offset-4 hover:text-indigo-200"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => void removeJob(item)}
+                        className="text-slate-400 underline underline-offset-4 hover:text-slate-200"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </li>
+                ))}
+                {failedJobs.length === 0 && (
+                  <li className="rounded-xl border border-dashed border-slate-800 px-4 py-6 text-center text-sm text-slate-500">
+                    No failed uploads.
+                  </li>
+                )}
+              </ul>
             </div>
+            <ProductLibrary
+              refreshKey={libraryRevision}
+              onLoad={loadLibraryVersion}
+              onQueue={(product) => void addToQueue([product])}
+              onError={(message) =>
+                appendLog({
+                  level: "error",
+                  headline: "Library action failed",
+                  details: message,
+                })
+              }
+            />
+            <DescriptionTemplates
+              templates={templates}
+              draft={draft}
+              onChanged={refreshTemplates}
+              onApplied={(updated, templateName) => {
+                appendLog({
+                  level: "success",
+                  headline: `Applied ${templateName} template${templateName === "category" ? "s" : ""}`,
+                  details: `${updated} queued item${updated === 1 ? "" : "s"} updated.`,
+                });
+                void refreshQueue();
+              }}
+              onError={(message) =>
+                appendLog({
+                  level: "error",
+                  headline: "Template action failed",
+                  details: message,
+                })
+              }
+            />
+            <PricingRules
+              profiles={profiles}
+              draft={draft}
+              onApplied={(updated, errors) => {
+                appendLog({
+                  level: errors.length ? "error" : "success",
+                  headline: "Queue repriced",
+                  details: [
+                    `${updated} queued item${updated === 1 ? "" : "s"} repriced.`,
+                    ...errors.map((item) => `${item.sku || item.title}: ${item.error}`),
+                  ].join(" "),
+                });
+                void refreshQueue();
+              }}
+              onError={(message) =>
+                appendLog({
+                  level: "error",
+                  headline: "Pricing action failed",
+                  details: message,
+                })
+              }
+            />
+            <LeadInbox
+              profiles={profiles}
+              onPulled={(profileName, added) =>
+                appendLog({
+                  level: "info",
+                  headline: "Buyer enquiries pulled",
+                  details: `${added} new enquir${added === 1 ? "y" : "ies"} for ${profileName}.`,
+                })
+              }
+              onError={(message) =>
+                appendLog({
+                  level: "error",
+                  headline: "Lead action failed",
+                  details: message,
+                })
+              }
+            />
+            <AuditLog refreshKey={auditRevision} />
           </div>
 
           <aside className="space-y-6">
             <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-6 shadow-xl shadow-black/40">
               <h2 className="text-lg font-semibold text-white">Agent Control Center</h2>
               <p className="mt-2 text-xs text-slate-400">
-                Switch to live mode after validating in simulation. Provide IndiaMART supplier credentials to enable
-                real syncing.
+                Switch to live mode after validating in simulation or against the local sandbox catalog. Choose a seller
+                profile with stored IndiaMART credentials to enable real syncing; keys stay encrypted on the server.
               </p>
               <div className="mt-4 space-y-4 text-sm">
-                <label className="flex flex-col gap-2 font-medium text-slate-200">
-                  IndiaMART API key / Auth token
-                  <input
-                    value={settings.apiKey}
-                    onChange={(event) =>
-                      setSettings((prev) => ({
-                        ...prev,
-                        apiKey: event.target.value,
-                      }))
-                    }
-                    className="rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-400/60"
-                    placeholder="Enter auth key"
-                  />
-                </label>
-
-                <label className="flex flex-col gap-2 font-medium text-slate-200">
-                  Seller ID / Profile ID
-                  <input
-                    value={settings.sellerId}
-                    onChange={(event) =>
-                      setSettings((prev) => ({
-                        ...prev,
-                        sellerId: event.target.value,
-                      }))
-                    }
-                    className="rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-400/60"
-                    placeholder="IM123456789"
-                  />
-                </label>
-
-                <label className="flex flex-col gap-2 font-medium text-slate-200">
-                  IndiaMART endpoint
-                  <input
-                    value={settings.baseUrl}
-                    onChange={(event) =>
-                      setSettings((prev) => ({
-                        ...prev,
-                        baseUrl: event.target.value,
-                      }))
-                    }
-                    className="rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-400/60"
-                    placeholder="https://sellerapi.indiamart.com/catalog/v1/product/add"
-                  />
-                </label>
+                <SellerProfilesPanel
+                  profiles={profiles}
+                  selectedId={settings.profileId}
+                  onSelect={selectProfile}
+                  onSaved={refreshProfiles}
+                  onError={(message) =>
+                    appendLog({
+                      level: "error",
+                      headline: "Seller profile not saved",
+                      details: message,
+                    })
+                  }
+                />
 
                 <div className="flex flex-col gap-2 font-medium text-slate-200">
                   <span>Mode</span>
-                  <div className="grid grid-cols-2 gap-2 text-xs font-semibold">
+                  <div className="grid grid-cols-3 gap-2 text-xs font-semibold">
                     <button
                       type="button"
                       onClick={() => setSettings((prev) => ({ ...prev, mode: "simulate" }))}
@@ -786,6 +1802,17 @@ export default function Home() {
                     >
                       Simulation
                     </button>
+                    <button
+                      type="button"
+                      onClick={() => setSettings((prev) => ({ ...prev, mode: "sandbox" }))}
+                      className={`rounded-lg border px-3 py-2 ${
+                        settings.mode === "sandbox"
+                          ? "border-amber-400 bg-amber-500/20 text-amber-200"
+                          : "border-slate-700 text-slate-300 hover:border-amber-300/60 hover:text-amber-200"
+                      }`}
+                    >
+                      Sandbox
+                    </button>
                     <button
                       type="button"
                       onClick={() => setSettings((prev) => ({ ...prev, mode: "live" }))}
@@ -815,20 +1842,106 @@ export default function Home() {
                   Auto start agent when new products are queued
                 </label>
 
+                <div className="grid grid-cols-2 gap-3">
+                  <label className="flex flex-col gap-2 font-medium text-slate-200">
+                    Max attempts
+                    <input
+                      type="number"
+                      min={1}
+                      value={settings.maxAttempts}
+                      onChange={(event) =>
+                        setSettings((prev) => ({
+                          ...prev,
+                          maxAttempts: Math.max(1, Number(event.target.value) || 1),
+                        }))
+                      }
+                      className="rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-400/60"
+                    />
+                  </label>
+                  <label className="flex flex-col gap-2 font-medium text-slate-200">
+                    First retry after (s)
+                    <input
+                      type="number"
+                      min={0}
+                      value={settings.retryDelaySeconds}
+                      onChange={(event) =>
+                        setSettings((prev) => ({
+                          ...prev,
+                          retryDelaySeconds: Math.max(0, Number(event.target.value) || 0),
+                        }))
+                      }
+                      className="rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-400/60"
+                    />
+                  </label>
+                  <label className="flex flex-col gap-2 font-medium text-slate-200">
+                    Parallel uploads
+                    <input
+                      type="number"
+                      min={1}
+                      max={MAX_CONCURRENCY}
+                      value={settings.concurrency}
+                      onChange={(event) =>
+                        setSettings((prev) => ({
+                          ...prev,
+                          concurrency: Math.min(MAX_CONCURRENCY, Math.max(1, Number(event.target.value) || 1)),
+                        }))
+                      }
+                      className="rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-400/60"
+                    />
+                  </label>
+                  {(
+                    [
+                      ["perSecond", "Requests / second"],
+                      ["perMinute", "Requests / minute"],
+                      ["perDay", "Requests / day"],
+                    ] as const
+                  ).map(([field, label]) => (
+                    <label key={field} className="flex flex-col gap-2 font-medium text-slate-200">
+                      {label}
+                      <input
+                        type="number"
+                        min={0}
+                        value={settings[field]}
+                        placeholder="No limit"
+                        onChange={(event) =>
+                          setSettings((prev) => ({
+                            ...prev,
+                            [field]: Math.max(0, Number(event.target.value) || 0),
+                          }))
+                        }
+                        className="rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-400/60"
+                      />
+                    </label>
+                  ))}
+                </div>
+                <p className="text-[11px] text-slate-500">
+                  A rate of 0 means no limit. Applied the next time the agent starts.
+                </p>
+
                 <div className="rounded-xl border border-slate-800 bg-slate-950/40 p-4 text-xs text-slate-300">
-                  <p className="font-semibold text-slate-200">CSV bulk import</p>
+                  <p className="font-semibold text-slate-200">Bulk import</p>
                   <p className="mt-1 text-slate-400">
-                    Upload using header:{" "}
+                    Any header row works: columns are matched to product fields (e.g. &quot;Product Name&quot;,
+                    &quot;Rate&quot;, &quot;MOQ&quot;) and you confirm the mapping before anything is queued. The
+                    standard header is{" "}
                     <span className="font-mono text-[11px]">
                       title,category,price,currency,unit,stock,minorderqty,keywords,imageurls,shortdescription,description,features,packaging,leadtime
                     </span>
                   </p>
+                  <p className="mt-1 text-slate-400">
+                    Add an optional <span className="font-mono text-[11px]">sku</span> column to update listings that
+                    were already uploaded instead of creating duplicates.
+                  </p>
+                  <p className="mt-1 text-slate-400">
+                    CSV (comma, semicolon or tab separated), Excel .xlsx (pick the sheet), JSON arrays and NDJSON files
+                    are accepted; quoted CSV cells may span several lines.
+                  </p>
                   <div className="mt-3 flex flex-wrap items-center gap-3">
                     <input
                       ref={fileInputRef}
                       type="file"
-                      accept=".csv,text/csv"
-                      onChange={handleCsvUpload}
+                      accept={IMPORT_FILE_ACCEPT}
+                      onChange={handleImportUpload}
                       className="text-xs text-slate-300 file:mr-3 file:rounded-md file:border-0 file:bg-indigo-500/20 file:px-3 file:py-1.5 file:text-indigo-200 file:transition file:hover:bg-indigo-500/40"
                     />
                     <a
@@ -843,6 +1956,62 @@ export default function Home() {
               </div>
             </div>
 
+            <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-6 shadow-xl shadow-black/40">
+              <h2 className="text-lg font-semibold text-white">Scheduled Publishing</h2>
+              <p className="mt-2 text-xs text-slate-400">
+                Publish the queue at a set time or on a recurring window, such as every weekday at 10:00 IST.
+              </p>
+              <div className="mt-4">
+                <PublishSchedules
+                  profiles={profiles}
+                  profileId={settings.profileId}
+                  mode={settings.mode}
+                  onScheduled={(schedule) =>
+                    appendLog({
+                      level: "info",
+                      headline: "Publishing scheduled",
+                      details: describeSchedule(schedule),
+                    })
+                  }
+                  onError={(message) =>
+                    appendLog({
+                      level: "error",
+                      headline: "Schedule not saved",
+                      details: message,
+                    })
+                  }
+                />
+              </div>
+            </div>
+
+            <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-6 shadow-xl shadow-black/40">
+              <h2 className="text-lg font-semibold text-white">Notifications</h2>
+              <p className="mt-2 text-xs text-slate-400">
+                Signed JSON webhooks and email when a queue finishes, products fail or IndiaMART rejects the API key.
+              </p>
+              <div className="mt-4">
+                <NotificationSettings
+                  onSaved={() => appendLog({ level: "info", headline: "Notification settings saved" })}
+                  onTested={(results) =>
+                    results.forEach((result) =>
+                      showLog({
+                        level: result.ok ? "success" : "error",
+                        headline: result.ok ? "Test notification sent" : "Test notification failed",
+                        details: result.error ? `${result.channel}: ${result.error}` : result.channel,
+                      }),
+                    )
+                  }
+                  onError={(message) =>
+                    appendLog({
+                      level: "error",
+                      headline: "Notification request failed",
+                      details: message,
+                    })
+                  }
+                />
+              </div>
+            </div>
+
             <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-6 shadow-xl shadow-black/40">
               <h2 className="text-lg font-semibold text-white">Activity Log</h2>
               <p className="mt-1 text-xs text-slate-400">Latest 50 events</p>
@@ -0,0 +1,219 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AUDIT_LEVELS, AuditEntry, AuditLevel } from "../lib/audit";
+
+type AuditLogProps = {
+  /** Bump to reload, e.g. after the dashboard recorded an event. */
+  refreshKey: number;
+};
+
+type Filters = {
+  level: AuditLevel | "";
+  from: string;
+  to: string;
+  product: string;
+  q: string;
+};
+
+const PAGE_SIZE = 50;
+
+const inputClassName =
+  "rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2 text-xs text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-400/60";
+
+const LEVEL_STYLES: Record<AuditLevel, string> = {
+  success: "text-emerald-300",
+  error: "text-rose-300",
+  info: "text-slate-300",
+};
+
+/** Date inputs are whole days in the browser's time zone. */
+const toParams = (filters: Filters) => {
+  const params = new URLSearchParams();
+  if (filters.level) {
+    params.set("level", filters.level);
+  }
+  if (filters.from) {
+    params.set("from", String(new Date(`${filters.from}T00:00:00`).getTime()));
+  }
+  if (filters.to) {
+    params.set("to", String(new Date(`${filters.to}T23:59:59.999`).getTime()));
+  }
+  (["product", "q"] as const).forEach((field) => {
+    if (filters[field].trim()) {
+      params.set(field, filters[field].trim());
+    }
+  });
+  return params;
+};
+
+const fetchAudit = async (params: URLSearchParams) => {
+  try {
+    const response = await fetch(`/api/audit?${params}`, { cache: "no-store" });
+    return response.ok ? ((await response.json()) as { entries: AuditEntry[]; total: number }) : null;
+  } catch {
+    return null;
+  }
+};
+
+const formatBody = (value: unknown) => (typeof value === "string" ? value : JSON.stringify(value, null, 2));
+
+export default function AuditLog({ refreshKey }: AuditLogProps) {
+  const [filters, setFilters] = useState<Filters>({ level: "", from: "", to: "", product: "", q: "" });
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [result, setResult] = useState<{ entries: AuditEntry[]; total: number }>({ entries: [], total: 0 });
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const params = toParams(filters);
+    params.set("limit", String(limit));
+    void fetchAudit(params).then((loaded) => {
+      if (loaded && !cancelled) {
+        setResult(loaded);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, limit, refreshKey]);
+
+  const updateFilter = (field: keyof Filters, value: string) => {
+    setFilters((prev) => ({ ...prev, [field]: value }));
+    setLimit(PAGE_SIZE);
+  };
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-6 shadow-xl shadow-black/40">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-white">Audit Log</h2>
+          <p className="mt-1 text-xs text-slate-400">
+            Every agent and dashboard event, kept on the server. Auth keys are redacted before they are stored.
+          </p>
+        </div>
+        <div className="flex gap-3 text-xs font-semibold">
+          {(["json", "csv"] as const).map((format) => (
+            <a
+              key={format}
+              href={`/api/audit/export?format=${format}&${toParams(filters)}`}
+              className="text-indigo-300 underline underline-offset-4 hover:text-indigo-200"
+            >
+              Export {format.toUpperCase()}
+            </a>
+          ))}
+        </div>
+      </div>
+
+      <div className="mt-4 grid gap-3 sm:grid-cols-5">
+        <input
+          value={filters.q}
+          onChange={(event) => updateFilter("q", event.target.value)}
+          placeholder="Search everything"
+          className={`${inputClassName} sm:col-span-2`}
+        />
+        <input
+          value={filters.product}
+          onChange={(event) => updateFilter("product", event.target.value)}
+          placeholder="SKU, product ID or title"
+          className={inputClassName}
+        />
+        <select
+          value={filters.level}
+          onChange={(event) => updateFilter("level", event.target.value)}
+          className={inputClassName}
+        >
+          <option value="">All levels</option>
+          {AUDIT_LEVELS.map((level) => (
+            <option key={level} value={level}>
+              {level}
+            </option>
+          ))}
+        </select>
+        <div className="flex gap-2">
+          <input
+            type="date"
+            aria-label="From"
+            value={filters.from}
+            onChange={(event) => updateFilter("from", event.target.value)}
+            className={`${inputClassName} min-w-0 flex-1`}
+          />
+          <input
+            type="date"
+            aria-label="To"
+            value={filters.to}
+            onChange={(event) => updateFilter("to", event.target.value)}
+            className={`${inputClassName} min-w-0 flex-1`}
+          />
+        </div>
+      </div>
+
+      <p className="mt-3 text-xs text-slate-500">
+        {result.total} matching event{result.total === 1 ? "" : "s"}
+      </p>
+      <ul className="mt-2 divide-y divide-slate-800 rounded-lg border border-slate-800 text-xs">
+        {result.entries.map((entry) => (
+          <li key={entry.id} className="px-3 py-2">
+            <button
+              type="button"
+              onClick={() => setExpanded((prev) => (prev === entry.id ? null : entry.id))}
+              className="flex w-full flex-wrap items-baseline gap-x-3 text-left"
+            >
+              <time className="text-slate-500">{new Date(entry.timestamp).toLocaleString()}</time>
+              <span className={`font-semibold uppercase ${LEVEL_STYLES[entry.level]}`}>{entry.level}</span>
+              <span className="font-semibold text-slate-200">{entry.headline}</span>
+              {entry.sku && <span className="font-mono text-slate-400">{entry.sku}</span>}
+              {entry.httpStatus !== undefined && <span className="text-slate-400">HTTP {entry.httpStatus}</span>}
+              {entry.durationMs !== undefined && <span className="text-slate-500">{entry.durationMs} ms</span>}
+            </button>
+            {entry.details && <p className="mt-1 text-slate-400">{entry.details}</p>}
+            {expanded === entry.id && (
+              <dl className="mt-2 grid gap-2 text-slate-300 sm:grid-cols-[auto,1fr]">
+                {(
+                  [
+                    ["Source", entry.source],
+                    ["Mode", entry.mode],
+                    ["Seller profile", entry.profileId],
+                    ["Operation", entry.operation],
+                    ["IndiaMART product ID", entry.productId],
+                    ["IndiaMART status", entry.upstreamStatus],
+                    ["Job", entry.jobId],
+                  ] as const
+                )
+                  .filter(([, value]) => value !== undefined)
+                  .map(([label, value]) => (
+                    <div key={label} className="contents">
+                      <dt className="font-semibold text-slate-400">{label}</dt>
+                      <dd className="break-all">{value}</dd>
+                    </div>
+                  ))}
+                {(["request", "response"] as const)
+                  .filter((field) => entry[field] !== undefined)
+                  .map((field) => (
+                    <div key={field} className="contents">
+                      <dt className="font-semibold capitalize text-slate-400">{field}</dt>
+                      <dd>
+                        <pre className="max-h-64 overflow-auto whitespace-pre-wrap break-all rounded bg-slate-950/60 p-2 font-mono text-[11px]">
+                          {formatBody(entry[field])}
+                        </pre>
+                      </dd>
+                    </div>
+                  ))}
+              </dl>
+            )}
+          </li>
+        ))}
+        {result.entries.length === 0 && <li className="px-3 py-6 text-center text-slate-500">No matching events.</li>}
+      </ul>
+      {result.entries.length < result.total && (
+        <button
+          type="button"
+          onClick={() => setLimit((prev) => prev + PAGE_SIZE)}
+          className="mt-3 text-xs font-medium text-slate-300 underline underline-offset-4 hover:text-white"
+        >
+          Show more
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { GenerationProviderInfo, GenerationProviderName, GenerationResult } from "../lib/generation";
+import { ProductDraft } from "../lib/indiamart";
+
+type CopyGeneratorProps = {
+  draft: ProductDraft;
+  /** Called with only the fields the user approved. */
+  onApprove: (patch: Partial<ProductDraft>) => void;
+  onGenerated: (result: GenerationResult) => void;
+  onError: (message: string) => void;
+};
+
+type CopyField = "shortDescription" | "description" | "keywords";
+
+const FIELD_LABELS: Record<CopyField, string> = {
+  shortDescription: "Short description",
+  description: "Full description",
+  keywords: "Keywords",
+};
+
+// Shown until the provider list has loaded; the offline provider is always there.
+const OFFLINE_PROVIDER: GenerationProviderInfo = { name: "offline", label: "Offline", model: "", available: true };
+
+const fetchProviders = async () => {
+  try {
+    const response = await fetch("/api/generate", { cache: "no-store" });
+    return response.ok ? ((await response.json()).providers as GenerationProviderInfo[]) : null;
+  } catch {
+    return null;
+  }
+};
+
+const proposedValue = (result: GenerationResult, field: CopyField) =>
+  field === "keywords" ? result.copy.keywords.join(", ") : result.copy[field];
+
+export default function CopyGenerator({ draft, onApprove, onGenerated, onError }: CopyGeneratorProps) {
+  const [providers, setProviders] = useState<GenerationProviderInfo[]>([]);
+  const [provider, setProvider] = useState<GenerationProviderName | "">("");
+  const [busy, setBusy] = useState(false);
+  const [proposal, setProposal] = useState<GenerationResult | null>(null);
+  const [accepted, setAccepted] = useState<Set<CopyField>>(new Set());
+
+  useEffect(() => {
+    void fetchProviders().then((loaded) => {
+      if (loaded) {
+        setProviders(loaded);
+      }
+    });
+  }, []);
+
+  const available = useMemo(() => {
+    const configured = providers.filter((item) => item.available);
+    return configured.length ? configured : [OFFLINE_PROVIDER];
+  }, [providers]);
+  const selected = provider || available[0].name;
+
+  const generate = useCallback(async () => {
+    setBusy(true);
+    try {
+      const response = await fetch("/api/generate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          draft: { title: draft.title, category: draft.category, features: draft.features },
+          provider: selected,
+        }),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        onError(body.error ?? "Text generation failed.");
+        return;
+      }
+      const result = body.result as GenerationResult;
+      setProposal(result);
+      setAccepted(new Set(["shortDescription", "description", "keywords"]));
+      onGenerated(result);
+    } catch {
+      onError("Unable to reach the generation endpoint.");
+    } finally {
+      setBusy(false);
+    }
+  }, [draft.category, draft.features, draft.title, onError, onGenerated, selected]);
+
+  const approve = useCallback(() => {
+    if (!proposal) {
+      return;
+    }
+    onApprove(Object.fromEntries([...accepted].map((field) => [field, proposedValue(proposal, field)])));
+    setProposal(null);
+  }, [accepted, onApprove, proposal]);
+
+  return (
+    <div className="mt-4 rounded-xl border border-slate-800 bg-slate-950/40 p-4 text-xs">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="font-semibold text-slate-200">Generate with</span>
+        <select
+          value={selected}
+          onChange={(event) => setProvider(event.target.value as GenerationProviderName)}
+          className="rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2 text-xs text-slate-100 outline-none focus:border-indigo-400"
+        >
+          {available.map((item) => (
+            <option key={item.name} value={item.name}>
+              {item.label}
+              {item.model ? ` (${item.model})` : ""}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={generate}
+          disabled={busy}
+          className="rounded-lg border border-indigo-500 px-3 py-2 font-semibold text-indigo-200 transition hover:bg-indigo-500/10 disabled:opacity-60"
+        >
+          {busy ? "Generating…" : "Generate descriptions & keywords"}
+        </button>
+      </div>
+
+      {proposal && (
+        <div className="mt-4 space-y-3">
+          <p className="text-slate-400">
+            Review the suggestion from {proposal.model}. Only ticked fields replace the draft.
+          </p>
+          {(Object.keys(FIELD_LABELS) as CopyField[]).map((field) => (
+            <label key={field} className="flex gap-3 text-slate-300">
+              <input
+                type="checkbox"
+                checked={accepted.has(field)}
+                onChange={(event) =>
+                  setAccepted((prev) => {
+                    const next = new Set(prev);
+                    if (event.target.checked) {
+                      next.add(field);
+                    } else {
+                      next.delete(field);
+                    }
+                    return next;
+                  })
+                }
+                className="mt-0.5 h-4 w-4 rounded border-slate-700 bg-slate-950 text-indigo-500 focus:ring-indigo-400"
+              />
+              <span>
+                <span className="block font-semibold text-slate-200">{FIELD_LABELS[field]}</span>
+                <span className="block whitespace-pre-wrap">{proposedValue(proposal, field) || "—"}</span>
+              </span>
+            </label>
+          ))}
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={approve}
+              disabled={accepted.size === 0}
+              className="rounded-lg bg-indigo-500 px-3 py-2 font-semibold text-white transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:bg-slate-700"
+            >
+              Apply to draft
+            </button>
+            <button
+              type="button"
+              onClick={() => setProposal(null)}
+              className="font-medium text-slate-300 underline underline-offset-4 hover:text-white"
+            >
+              Discard
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,294 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { ProductDraft } from "../lib/indiamart";
+import {
+  BUILT_IN_TEMPLATE,
+  DescriptionTemplate,
+  TEMPLATE_PLACEHOLDERS,
+  TemplateSelection,
+  TemplateVariant,
+  renderTemplate,
+} from "../lib/templates";
+
+type DescriptionTemplatesProps = {
+  templates: DescriptionTemplate[];
+  /** The form draft, used for the live preview. */
+  draft: ProductDraft;
+  onChanged: () => void;
+  onApplied: (updated: number, templateName: string) => void;
+  onError: (message: string) => void;
+};
+
+type EditorState = {
+  id: string | null;
+  name: string;
+  categories: string;
+  selection: TemplateSelection;
+  variants: TemplateVariant[];
+};
+
+const inputClassName =
+  "rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2 text-xs text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-400/60";
+
+const toEditor = (template: DescriptionTemplate | null): EditorState =>
+  template
+    ? {
+        id: template.id,
+        name: template.name,
+        categories: template.categories.join(", "),
+        selection: template.selection,
+        variants: template.variants.map((variant) => ({ ...variant })),
+      }
+    : {
+        id: null,
+        name: "",
+        categories: "",
+        selection: "rotate",
+        variants: BUILT_IN_TEMPLATE.variants.map((variant) => ({ ...variant })),
+      };
+
+const readError = async (response: Response, fallback: string) => {
+  try {
+    return ((await response.json()) as { error?: string }).error ?? fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export default function DescriptionTemplates({
+  templates,
+  draft,
+  onChanged,
+  onApplied,
+  onError,
+}: DescriptionTemplatesProps) {
+  const [editor, setEditor] = useState<EditorState>(() => toEditor(templates[0] ?? null));
+  const [previewIndex, setPreviewIndex] = useState(0);
+  const [busy, setBusy] = useState(false);
+
+  const select = useCallback(
+    (id: string) => {
+      setEditor(toEditor(templates.find((template) => template.id === id) ?? null));
+      setPreviewIndex(0);
+    },
+    [templates],
+  );
+
+  const updateVariant = useCallback((index: number, patch: Partial<TemplateVariant>) => {
+    setEditor((prev) => ({
+      ...prev,
+      variants: prev.variants.map((variant, position) => (position === index ? { ...variant, ...patch } : variant)),
+    }));
+  }, []);
+
+  const save = useCallback(async () => {
+    setBusy(true);
+    const body = {
+      name: editor.name,
+      categories: editor.categories.split(","),
+      selection: editor.selection,
+      variants: editor.variants,
+    };
+    const response = await fetch(editor.id ? `/api/templates/${editor.id}` : "/api/templates", {
+      method: editor.id ? "PATCH" : "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    setBusy(false);
+    if (!response.ok) {
+      onError(await readError(response, "Unable to save template."));
+      return;
+    }
+    setEditor(toEditor((await response.json()).template as DescriptionTemplate));
+    onChanged();
+  }, [editor, onChanged, onError]);
+
+  const remove = useCallback(async () => {
+    if (!editor.id) {
+      return;
+    }
+    const response = await fetch(`/api/templates/${editor.id}`, { method: "DELETE" });
+    if (!response.ok) {
+      onError(await readError(response, "Unable to delete template."));
+      return;
+    }
+    setEditor(toEditor(null));
+    onChanged();
+  }, [editor.id, onChanged, onError]);
+
+  const applyToQueue = useCallback(
+    async (templateId?: string) => {
+      setBusy(true);
+      const response = await fetch("/api/templates/apply", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ templateId }),
+      });
+      setBusy(false);
+      if (!response.ok) {
+        onError(await readError(response, "Unable to apply template to the queue."));
+        return;
+      }
+      onApplied((await response.json()).updated as number, templateId ? editor.name : "category");
+    },
+    [editor.name, onApplied, onError],
+  );
+
+  const preview = editor.variants[Math.min(previewIndex, editor.variants.length - 1)];
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-6 shadow-xl shadow-black/40">
+      <h2 className="text-lg font-semibold text-white">Description Templates</h2>
+      <p className="mt-1 text-xs text-slate-400">
+        Templates fill the short and long descriptions. Each category uses its own template, or one with no categories
+        as the fallback. Variants rotate in order or are picked at random.
+      </p>
+
+      <div className="mt-4 flex flex-wrap items-center gap-2 text-xs">
+        <select value={editor.id ?? ""} onChange={(event) => select(event.target.value)} className={inputClassName}>
+          <option value="">New template</option>
+          {templates.map((template) => (
+            <option key={template.id} value={template.id}>
+              {template.name}
+              {template.categories.length ? ` (${template.categories.join(", ")})` : " (fallback)"}
+            </option>
+          ))}
+        </select>
+        <input
+          value={editor.name}
+          onChange={(event) => setEditor((prev) => ({ ...prev, name: event.target.value }))}
+          placeholder="Template name"
+          className={inputClassName}
+        />
+        <input
+          value={editor.categories}
+          onChange={(event) => setEditor((prev) => ({ ...prev, categories: event.target.value }))}
+          placeholder="Categories, comma separated (blank = fallback)"
+          className={`${inputClassName} min-w-[16rem] flex-1`}
+        />
+        <select
+          value={editor.selection}
+          onChange={(event) => setEditor((prev) => ({ ...prev, selection: event.target.value as TemplateSelection }))}
+          className={inputClassName}
+        >
+          <option value="rotate">Rotate variants</option>
+          <option value="random">Random variant</option>
+        </select>
+      </div>
+
+      <div className="mt-4 space-y-3">
+        {editor.variants.map((variant, index) => (
+          <div key={index} className="rounded-xl border border-slate-800 bg-slate-950/40 p-3 text-xs">
+            <div className="flex items-center justify-between text-slate-300">
+              <span className="font-semibold">Variant {index + 1}</span>
+              <div className="flex gap-3">
+                <button
+                  type="button"
+                  onClick={() => setPreviewIndex(index)}
+                  className="font-medium text-indigo-300 underline underline-offset-4 hover:text-indigo-200"
+                >
+                  Preview
+                </button>
+                {editor.variants.length > 1 && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setEditor((prev) => ({
+                        ...prev,
+                        variants: prev.variants.filter((_, position) => position !== index),
+                      }));
+                      setPreviewIndex(0);
+                    }}
+                    className="font-medium text-slate-400 underline underline-offset-4 hover:text-slate-200"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            </div>
+            <label className="mt-2 flex flex-col gap-1 text-slate-400">
+              Short description
+              <textarea
+                rows={2}
+                value={variant.short}
+                onChange={(event) => updateVariant(index, { short: event.target.value })}
+                className={`${inputClassName} font-mono`}
+              />
+            </label>
+            <label className="mt-2 flex flex-col gap-1 text-slate-400">
+              Long description
+              <textarea
+                rows={4}
+                value={variant.long}
+                onChange={(event) => updateVariant(index, { long: event.target.value })}
+                className={`${inputClassName} font-mono`}
+              />
+            </label>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => setEditor((prev) => ({ ...prev, variants: [...prev.variants, { short: "", long: "" }] }))}
+          className="text-xs font-medium text-slate-300 underline underline-offset-4 hover:text-white"
+        >
+          Add variant
+        </button>
+      </div>
+
+      <p className="mt-3 text-[11px] leading-relaxed text-slate-500">
+        Placeholders: {TEMPLATE_PLACEHOLDERS.map((field) => `{{${field}}}`).join(" ")}. Use{" "}
+        <code>{"{{field|fallback}}"}</code> for a default, <code>{"{{#if field}}…{{else}}…{{/if}}"}</code> and{" "}
+        <code>{"{{#unless field}}…{{/unless}}"}</code> for conditional sections.
+      </p>
+
+      {preview && (
+        <div className="mt-4 rounded-xl border border-indigo-500/30 bg-indigo-500/5 p-3 text-xs">
+          <p className="font-semibold text-indigo-200">
+            Preview of variant {Math.min(previewIndex, editor.variants.length - 1) + 1} with the current draft
+          </p>
+          <p className="mt-2 text-slate-200">{renderTemplate(preview.short, draft) || "—"}</p>
+          <p className="mt-2 whitespace-pre-wrap text-slate-300">{renderTemplate(preview.long, draft) || "—"}</p>
+        </div>
+      )}
+
+      <div className="mt-5 flex flex-wrap items-center gap-3 text-xs">
+        <button
+          type="button"
+          onClick={save}
+          disabled={busy}
+          className="rounded-lg bg-indigo-500 px-4 py-2 font-semibold text-white transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:bg-slate-700"
+        >
+          {editor.id ? "Save template" : "Create template"}
+        </button>
+        {editor.id && (
+          <button
+            type="button"
+            onClick={() => applyToQueue(editor.id ?? undefined)}
+            disabled={busy}
+            className="rounded-lg border border-indigo-500 px-4 py-2 font-semibold text-indigo-200 transition hover:bg-indigo-500/10 disabled:opacity-60"
+          >
+            Apply to all queued items
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => applyToQueue()}
+          disabled={busy}
+          className="rounded-lg border border-slate-700 px-4 py-2 font-semibold text-slate-100 transition hover:border-slate-500 disabled:opacity-60"
+        >
+          Apply category templates to queue
+        </button>
+        {editor.id && (
+          <button
+            type="button"
+            onClick={remove}
+            className="font-medium text-rose-300 underline underline-offset-4 hover:text-rose-200"
+          >
+            Delete template
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
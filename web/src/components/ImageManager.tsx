@@ -0,0 +1,205 @@
+"use client";
+
+import { ChangeEvent, useCallback, useRef, useState } from "react";
+import { ImageCheck, MAX_LISTING_IMAGES } from "../lib/images";
+
+type ImageManagerProps = {
+  /** The draft's newline-separated image URLs. */
+  imageUrls: string;
+  onChange: (imageUrls: string) => void;
+  onError: (message: string) => void;
+};
+
+type UploadResponse = {
+  images?: { urls: { large: string } }[];
+  errors?: { fileName: string; error: string }[];
+  error?: string;
+};
+
+const splitUrls = (value: string) =>
+  value
+    .split("\n")
+    .map((url) => url.trim())
+    .filter(Boolean);
+
+const describeFacts = (check: ImageCheck) =>
+  [
+    check.width && check.height ? `${check.width}×${check.height}` : "",
+    check.bytes ? `${Math.ceil(check.bytes / 1024)} KB` : "",
+    check.contentType ?? "",
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+export default function ImageManager({ imageUrls, onChange, onError }: ImageManagerProps) {
+  const [checks, setChecks] = useState<Map<string, ImageCheck>>(new Map());
+  const [busy, setBusy] = useState<"upload" | "check" | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const urls = splitUrls(imageUrls);
+
+  const upload = useCallback(
+    async (event: ChangeEvent<HTMLInputElement>) => {
+      const files = Array.from(event.target.files ?? []);
+      event.target.value = "";
+      if (files.length === 0) {
+        return;
+      }
+      const form = new FormData();
+      files.forEach((file) => form.append("files", file));
+      setBusy("upload");
+      try {
+        const response = await fetch("/api/images", { method: "POST", body: form });
+        const body = (await response.json()) as UploadResponse;
+        body.errors?.forEach((item) => onError(item.error));
+        if (!response.ok && !body.errors?.length) {
+          onError(body.error ?? "Image upload failed.");
+        }
+        const uploaded = (body.images ?? []).map((image) => image.urls.large);
+        if (uploaded.length) {
+          onChange([...splitUrls(imageUrls), ...uploaded].join("\n"));
+        }
+      } catch {
+        onError("Unable to upload images.");
+      } finally {
+        setBusy(null);
+      }
+    },
+    [imageUrls, onChange, onError],
+  );
+
+  const checkAll = useCallback(async () => {
+    const pending = splitUrls(imageUrls);
+    if (pending.length === 0) {
+      return;
+    }
+    setBusy("check");
+    try {
+      const response = await fetch("/api/images/check", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ urls: pending }),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        onError(body.error ?? "Image check failed.");
+        return;
+      }
+      setChecks(new Map((body.checks as ImageCheck[]).map((check) => [check.url, check])));
+    } catch {
+      onError("Unable to check images.");
+    } finally {
+      setBusy(null);
+    }
+  }, [imageUrls, onError]);
+
+  const move = useCallback(
+    (index: number, offset: number) => {
+      const next = splitUrls(imageUrls);
+      const [moved] = next.splice(index, 1);
+      next.splice(index + offset, 0, moved);
+      onChange(next.join("\n"));
+    },
+    [imageUrls, onChange],
+  );
+
+  const remove = useCallback(
+    (index: number) =>
+      onChange(
+        splitUrls(imageUrls)
+          .filter((_, position) => position !== index)
+          .join("\n"),
+      ),
+    [imageUrls, onChange],
+  );
+
+  return (
+    <div className="space-y-2 text-xs font-normal">
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={busy !== null}
+          className="rounded-lg border border-slate-700 px-3 py-1.5 font-semibold text-slate-100 transition hover:border-slate-500 disabled:opacity-60"
+        >
+          {busy === "upload" ? "Uploading…" : "Upload images"}
+        </button>
+        <button
+          type="button"
+          onClick={checkAll}
+          disabled={busy !== null || urls.length === 0}
+          className="rounded-lg border border-slate-700 px-3 py-1.5 font-semibold text-slate-100 transition hover:border-slate-500 disabled:opacity-60"
+        >
+          {busy === "check" ? "Checking…" : "Check images"}
+        </button>
+        <input ref={fileInputRef} type="file" accept="image/*" multiple className="hidden" onChange={upload} />
+      </div>
+
+      {urls.length > MAX_LISTING_IMAGES && (
+        <p className="rounded-lg border border-amber-500/40 bg-amber-500/10 px-3 py-2 text-amber-200">
+          IndiaMART takes {MAX_LISTING_IMAGES} images per product. Only the first {MAX_LISTING_IMAGES} of {urls.length}{" "}
+          are sent; move the ones you want to the top.
+        </p>
+      )}
+
+      {urls.length > 0 && (
+        <ul className="divide-y divide-slate-800 rounded-lg border border-slate-800">
+          {urls.map((url, index) => {
+            const check = checks.get(url);
+            const sent = index < MAX_LISTING_IMAGES;
+            return (
+              <li key={`${index}-${url}`} className="flex items-center gap-3 px-3 py-2">
+                {/* Thumbnails come from arbitrary seller hosts, which next/image would need configured one by one. */}
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img src={url} alt="" className="h-10 w-10 shrink-0 rounded object-cover bg-slate-800" />
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-slate-300">{url}</p>
+                  {check && (
+                    <p className={check.ok ? "text-emerald-300" : "text-rose-300"}>
+                      {check.ok ? "OK" : check.problems.join(" ")}
+                      {describeFacts(check) && <span className="text-slate-500"> · {describeFacts(check)}</span>}
+                    </p>
+                  )}
+                </div>
+                <span
+                  className={`rounded-full px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide ${
+                    sent ? "bg-emerald-500/15 text-emerald-300" : "bg-amber-500/15 text-amber-300"
+                  }`}
+                >
+                  {sent ? `Image ${index + 1}` : "Not sent"}
+                </span>
+                <div className="flex gap-2 text-slate-400">
+                  <button
+                    type="button"
+                    aria-label="Move up"
+                    onClick={() => move(index, -1)}
+                    disabled={index === 0}
+                    className="disabled:opacity-30"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    aria-label="Move down"
+                    onClick={() => move(index, 1)}
+                    disabled={index === urls.length - 1}
+                    className="disabled:opacity-30"
+                  >
+                    ↓
+                  </button>
+                  <button
+                    type="button"
+                    aria-label="Remove image"
+                    onClick={() => remove(index)}
+                    className="hover:text-rose-300"
+                  >
+                    ✕
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,294 @@
+"use client";
+
+import { Fragment, useCallback, useMemo, useState } from "react";
+import { toCsv } from "../lib/csv";
+import { DRAFT_FIELDS, DRAFT_FIELD_LABELS, DraftField, StagedRow } from "../lib/importMapping";
+import { ProductDraft } from "../lib/indiamart";
+import { ValidationError, draftWarnings, validateDraft } from "../lib/validation";
+
+type ImportPreviewProps = {
+  fileName: string;
+  rows: StagedRow[];
+  onQueue: (drafts: ProductDraft[]) => void;
+  onBack: () => void;
+  onCancel: () => void;
+};
+
+type PreviewItem = StagedRow & {
+  selected: boolean;
+};
+
+const PAGE_SIZE = 50;
+
+const MULTILINE_FIELDS = new Set<DraftField>(["description", "features", "imageUrls"]);
+
+const inputClassName =
+  "rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2 text-xs text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-400/60";
+
+// Drafts are replaced, never mutated, on edit, so each one only needs validating once even in a large import.
+const validationCache = new WeakMap<ProductDraft, ValidationError[]>();
+
+const validateCached = (draft: ProductDraft) => {
+  let errors = validationCache.get(draft);
+  if (!errors) {
+    errors = validateDraft(draft);
+    validationCache.set(draft, errors);
+  }
+  return errors;
+};
+
+const downloadText = (fileName: string, text: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: "text/csv;charset=utf-8" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/** Mount with a fresh `key` per import: rows are copied into local state so they can be fixed in place. */
+export default function ImportPreview({ fileName, rows, onQueue, onBack, onCancel }: ImportPreviewProps) {
+  const [items, setItems] = useState<PreviewItem[]>(() =>
+    rows.map((row) => ({ ...row, selected: validateCached(row.draft).length === 0 })),
+  );
+  const [onlyProblems, setOnlyProblems] = useState(false);
+  const [page, setPage] = useState(0);
+  const [expandedLine, setExpandedLine] = useState<number | null>(null);
+
+  const errorsByLine = useMemo(
+    () => new Map<number, ValidationError[]>(items.map((item) => [item.line, validateCached(item.draft)])),
+    [items],
+  );
+
+  const problemCount = items.filter((item) => errorsByLine.get(item.line)?.length).length;
+  const selected = items.filter((item) => item.selected);
+  const blocked = selected.filter((item) => errorsByLine.get(item.line)?.length).length;
+
+  const visible = onlyProblems ? items.filter((item) => errorsByLine.get(item.line)?.length) : items;
+  const pageCount = Math.max(1, Math.ceil(visible.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageItems = visible.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  const updateItem = useCallback((line: number, update: (item: PreviewItem) => PreviewItem) => {
+    setItems((prev) => prev.map((item) => (item.line === line ? update(item) : item)));
+  }, []);
+
+  const setAllSelected = useCallback(
+    (value: boolean) => {
+      setItems((prev) => prev.map((item) => ({ ...item, selected: value && !errorsByLine.get(item.line)?.length })));
+    },
+    [errorsByLine],
+  );
+
+  const downloadErrorReport = useCallback(() => {
+    const report = [["line", "sku", "title", "field", "problem"]];
+    items.forEach((item) => {
+      errorsByLine.get(item.line)?.forEach((error) => {
+        report.push([String(item.line), item.draft.sku, item.draft.title, error.field, error.message]);
+      });
+    });
+    downloadText(`${fileName.replace(/\.[^.]+$/, "")}-errors.csv`, toCsv(report));
+  }, [errorsByLine, fileName, items]);
+
+  return (
+    <div className="rounded-2xl border border-indigo-500/40 bg-slate-900/70 p-6 shadow-xl shadow-black/40">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-white">Review import</h2>
+          <p className="mt-1 text-xs text-slate-400">
+            {fileName} · {items.length} row{items.length === 1 ? "" : "s"} ·{" "}
+            <span className={problemCount ? "text-rose-300" : "text-emerald-300"}>{problemCount} with problems</span> ·{" "}
+            {selected.length} selected
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3 text-xs">
+          <label className="flex items-center gap-2 text-slate-300">
+            <input
+              type="checkbox"
+              checked={onlyProblems}
+              onChange={(event) => {
+                setOnlyProblems(event.target.checked);
+                setPage(0);
+              }}
+              className="h-4 w-4 rounded border-slate-700 bg-slate-950 text-indigo-500 focus:ring-indigo-400"
+            />
+            Only rows with problems
+          </label>
+          <button
+            type="button"
+            onClick={downloadErrorReport}
+            disabled={problemCount === 0}
+            className="rounded-lg border border-slate-700 px-3 py-2 font-semibold text-slate-100 transition hover:border-slate-500 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            Download error report
+          </button>
+        </div>
+      </div>
+
+      <div className="mt-4 overflow-x-auto">
+        <table className="w-full text-left text-xs">
+          <thead className="text-slate-400">
+            <tr>
+              <th className="py-2 pr-3 font-medium">
+                <input
+                  type="checkbox"
+                  aria-label="Select all valid rows"
+                  checked={selected.length > 0 && selected.length === items.length - problemCount}
+                  onChange={(event) => setAllSelected(event.target.checked)}
+                  className="h-4 w-4 rounded border-slate-700 bg-slate-950 text-indigo-500 focus:ring-indigo-400"
+                />
+              </th>
+              <th className="py-2 pr-3 font-medium">Line</th>
+              <th className="py-2 pr-3 font-medium">SKU</th>
+              <th className="py-2 pr-3 font-medium">Title</th>
+              <th className="py-2 pr-3 font-medium">Price</th>
+              <th className="py-2 pr-3 font-medium">Problems</th>
+              <th className="py-2 font-medium" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800">
+            {pageItems.map((item) => {
+              const errors = errorsByLine.get(item.line) ?? [];
+              const expanded = expandedLine === item.line;
+              return (
+                <Fragment key={item.line}>
+                  <tr className={errors.length ? "bg-rose-500/5" : undefined}>
+                    <td className="py-2 pr-3">
+                      <input
+                        type="checkbox"
+                        checked={item.selected}
+                        onChange={(event) =>
+                          updateItem(item.line, (prev) => ({ ...prev, selected: event.target.checked }))
+                        }
+                        className="h-4 w-4 rounded border-slate-700 bg-slate-950 text-indigo-500 focus:ring-indigo-400"
+                      />
+                    </td>
+                    <td className="py-2 pr-3 font-mono text-slate-400">{item.line}</td>
+                    <td className="py-2 pr-3 text-slate-300">{item.draft.sku || "—"}</td>
+                    <td className="max-w-[14rem] truncate py-2 pr-3 font-semibold text-slate-100">
+                      {item.draft.title || <span className="text-slate-500">Untitled</span>}
+                    </td>
+                    <td className="py-2 pr-3 text-slate-300">
+                      {item.draft.price ? `${item.draft.currency} ${item.draft.price}` : "—"}
+                    </td>
+                    <td className="py-2 pr-3 text-rose-300">
+                      {errors.map((error) => (
+                        <span key={`${error.field}-${error.code}`} className="block">
+                          {error.message}
+                        </span>
+                      ))}
+                      {draftWarnings(item.draft).map((warning) => (
+                        <span key={warning.code} className="block text-amber-300">
+                          {warning.message}
+                        </span>
+                      ))}
+                    </td>
+                    <td className="py-2 text-right">
+                      <button
+                        type="button"
+                        onClick={() => setExpandedLine(expanded ? null : item.line)}
+                        className="font-semibold text-indigo-300 underline underline-offset-4 hover:text-indigo-200"
+                      >
+                        {expanded ? "Done" : errors.length ? "Fix" : "Edit"}
+                      </button>
+                    </td>
+                  </tr>
+                  {expanded && (
+                    <tr>
+                      <td colSpan={7} className="pb-4 pt-2">
+                        <div className="grid gap-3 md:grid-cols-3">
+                          {DRAFT_FIELDS.map((field) => {
+                            const fieldErrors = errors.filter((error) => error.field === field);
+                            const props = {
+                              value: item.draft[field],
+                              onChange: (event: { target: { value: string } }) =>
+                                updateItem(item.line, (prev) => ({
+                                  ...prev,
+                                  draft: { ...prev.draft, [field]: event.target.value },
+                                })),
+                              className: `${inputClassName} ${fieldErrors.length ? "border-rose-500/70" : ""}`,
+                            };
+                            return (
+                              <label
+                                key={field}
+                                className={`flex flex-col gap-1 text-slate-300 ${
+                                  MULTILINE_FIELDS.has(field) ? "md:col-span-3" : ""
+                                }`}
+                              >
+                                {DRAFT_FIELD_LABELS[field]}
+                                {MULTILINE_FIELDS.has(field) ? <textarea rows={3} {...props} /> : <input {...props} />}
+                                {fieldErrors.map((error) => (
+                                  <span key={error.code} className="text-rose-300">
+                                    {error.message}
+                                  </span>
+                                ))}
+                              </label>
+                            );
+                          })}
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {pageCount > 1 && (
+        <div className="mt-3 flex items-center gap-3 text-xs text-slate-400">
+          <button
+            type="button"
+            onClick={() => setPage(currentPage - 1)}
+            disabled={currentPage === 0}
+            className="rounded-lg border border-slate-700 px-3 py-1 disabled:opacity-40"
+          >
+            Previous
+          </button>
+          Page {currentPage + 1} of {pageCount}
+          <button
+            type="button"
+            onClick={() => setPage(currentPage + 1)}
+            disabled={currentPage >= pageCount - 1}
+            className="rounded-lg border border-slate-700 px-3 py-1 disabled:opacity-40"
+          >
+            Next
+          </button>
+        </div>
+      )}
+
+      {blocked > 0 && (
+        <p className="mt-4 text-xs text-rose-300">
+          {blocked} selected row{blocked === 1 ? " has" : "s have"} problems. Fix or deselect{" "}
+          {blocked === 1 ? "it" : "them"} before queuing.
+        </p>
+      )}
+
+      <div className="mt-5 flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={() => onQueue(selected.map((item) => item.draft))}
+          disabled={selected.length === 0 || blocked > 0}
+          className="rounded-lg bg-indigo-500 px-4 py-2 text-xs font-semibold text-white transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:bg-slate-700"
+        >
+          Queue {selected.length} row{selected.length === 1 ? "" : "s"}
+        </button>
+        <button
+          type="button"
+          onClick={onBack}
+          className="text-xs font-medium text-slate-300 underline underline-offset-4 hover:text-white"
+        >
+          Back to mapping
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="text-xs font-medium text-slate-300 underline underline-offset-4 hover:text-white"
+        >
+          Cancel import
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,274 @@
+"use client";
+
+import { useCallback, useMemo, useState } from "react";
+import { normalizeCsvHeader } from "../lib/csv";
+import {
+  ColumnMapping,
+  DEFAULT_IMPORT_VALUES,
+  DRAFT_FIELDS,
+  DRAFT_FIELD_LABELS,
+  DraftField,
+  ImportPreset,
+  ImportPresetInput,
+  REQUIRED_IMPORT_FIELDS,
+  findMatchingPreset,
+  mappedFields,
+  missingRequiredFields,
+  suggestMapping,
+} from "../lib/importMapping";
+import { ProductDraft } from "../lib/indiamart";
+
+type ImportWizardProps = {
+  fileName: string;
+  headers: string[];
+  sampleRows: string[][];
+  rowCount: number;
+  sheetNames?: string[];
+  sheet?: string;
+  onSheetChange?: (sheet: string) => void;
+  presets: ImportPreset[];
+  initialMapping?: ColumnMapping;
+  initialDefaults?: Partial<ProductDraft>;
+  onPresetsChanged: () => Promise<void>;
+  onConfirm: (mapping: ColumnMapping, defaults: Partial<ProductDraft>) => void;
+  onCancel: () => void;
+  onError: (message: string) => void;
+};
+
+const inputClassName =
+  "rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2 text-xs text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-400/60";
+
+/**
+ * Mount with a fresh `key` per file: the initial mapping is derived from the headers (or taken from
+ * `initialMapping` when returning from the preview) only once.
+ */
+export default function ImportWizard({
+  fileName,
+  headers,
+  sampleRows,
+  rowCount,
+  sheetNames,
+  sheet,
+  onSheetChange,
+  presets,
+  initialMapping,
+  initialDefaults,
+  onPresetsChanged,
+  onConfirm,
+  onCancel,
+  onError,
+}: ImportWizardProps) {
+  const [initialPreset] = useState(() => findMatchingPreset(headers, presets));
+  const [presetId, setPresetId] = useState(initialPreset?.id ?? "");
+  const [supplier, setSupplier] = useState(initialPreset?.supplier ?? "");
+  const [mapping, setMapping] = useState<ColumnMapping>(() => initialMapping ?? suggestMapping(headers, initialPreset));
+  const [defaults, setDefaults] = useState<Partial<ProductDraft>>(
+    () => initialDefaults ?? { ...DEFAULT_IMPORT_VALUES, ...initialPreset?.defaults },
+  );
+  const [saving, setSaving] = useState(false);
+
+  const mapped = useMemo(() => mappedFields(mapping), [mapping]);
+  const missing = useMemo(() => missingRequiredFields(mapping, defaults), [defaults, mapping]);
+
+  const applyPreset = useCallback(
+    (id: string) => {
+      const preset = presets.find((item) => item.id === id) ?? null;
+      setPresetId(id);
+      setSupplier(preset?.supplier ?? "");
+      setMapping(suggestMapping(headers, preset));
+      setDefaults({ ...DEFAULT_IMPORT_VALUES, ...preset?.defaults });
+    },
+    [headers, presets],
+  );
+
+  const savePreset = useCallback(async () => {
+    const input: ImportPresetInput = { supplier, mapping, defaults };
+    setSaving(true);
+    try {
+      const response = await fetch("/api/import-presets", {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+        },
+        body: JSON.stringify(input),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(typeof result?.error === "string" ? result.error : "Unable to save import preset.");
+      }
+      await onPresetsChanged();
+      setPresetId((result.preset as ImportPreset).id);
+    } catch (error) {
+      onError(error instanceof Error ? error.message : "Unable to save import preset.");
+    } finally {
+      setSaving(false);
+    }
+  }, [defaults, mapping, onError, onPresetsChanged, supplier]);
+
+  const removePreset = useCallback(async () => {
+    if (!presetId) {
+      return;
+    }
+    const response = await fetch(`/api/import-presets/${presetId}`, { method: "DELETE" });
+    if (!response.ok) {
+      onError("Unable to delete import preset.");
+      return;
+    }
+    setPresetId("");
+    await onPresetsChanged();
+  }, [onError, onPresetsChanged, presetId]);
+
+  return (
+    <div className="rounded-2xl border border-indigo-500/40 bg-slate-900/70 p-6 shadow-xl shadow-black/40">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-white">Map import columns</h2>
+          <p className="mt-1 text-xs text-slate-400">
+            {fileName} · {rowCount} row{rowCount === 1 ? "" : "s"} · {headers.length} column
+            {headers.length === 1 ? "" : "s"} detected
+          </p>
+          {sheetNames && sheetNames.length > 1 && (
+            <label className="mt-2 flex items-center gap-2 text-xs text-slate-300">
+              Sheet
+              <select
+                value={sheet}
+                onChange={(event) => onSheetChange?.(event.target.value)}
+                className={inputClassName}
+              >
+                {sheetNames.map((name) => (
+                  <option key={name} value={name}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <select value={presetId} onChange={(event) => applyPreset(event.target.value)} className={inputClassName}>
+            <option value="">No preset (suggested mapping)</option>
+            {presets.map((preset) => (
+              <option key={preset.id} value={preset.id}>
+                {preset.supplier}
+              </option>
+            ))}
+          </select>
+          {presetId && (
+            <button
+              type="button"
+              onClick={removePreset}
+              className="text-xs font-medium text-rose-300 underline underline-offset-4 hover:text-rose-200"
+            >
+              Delete preset
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="mt-4 overflow-x-auto">
+        <table className="w-full text-left text-xs">
+          <thead className="text-slate-400">
+            <tr>
+              <th className="py-2 pr-3 font-medium">Source column</th>
+              <th className="py-2 pr-3 font-medium">Sample</th>
+              <th className="py-2 font-medium">Maps to</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800">
+            {headers.map((header, index) => {
+              const key = normalizeCsvHeader(header);
+              const target = mapping[key] ?? "ignore";
+              return (
+                <tr key={`${key}-${index}`}>
+                  <td className="py-2 pr-3 font-semibold text-slate-200">{header || `Column ${index + 1}`}</td>
+                  <td className="max-w-[16rem] truncate py-2 pr-3 text-slate-400">
+                    {sampleRows.map((row) => row[index]).find(Boolean) ?? "—"}
+                  </td>
+                  <td className="py-2">
+                    <select
+                      value={target}
+                      onChange={(event) =>
+                        setMapping((prev) => ({ ...prev, [key]: event.target.value as DraftField | "ignore" }))
+                      }
+                      className={`${inputClassName} w-full ${target === "ignore" ? "text-slate-500" : ""}`}
+                    >
+                      <option value="ignore">Ignore column</option>
+                      {DRAFT_FIELDS.map((field) => (
+                        <option key={field} value={field}>
+                          {DRAFT_FIELD_LABELS[field]}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-5">
+        <p className="text-xs font-semibold text-slate-200">Defaults</p>
+        <p className="mt-1 text-xs text-slate-400">
+          Used for fields without a column, and for blank cells in mapped columns.
+        </p>
+        <div className="mt-3 grid gap-3 md:grid-cols-3">
+          {DRAFT_FIELDS.filter((field) => field !== "sku").map((field) => (
+            <label key={field} className="flex flex-col gap-1 text-xs text-slate-300">
+              <span>
+                {DRAFT_FIELD_LABELS[field]}
+                {mapped.has(field) ? <span className="text-slate-500"> · mapped</span> : null}
+                {REQUIRED_IMPORT_FIELDS.includes(field) ? <span className="text-rose-300"> *</span> : null}
+              </span>
+              <input
+                value={defaults[field] ?? ""}
+                onChange={(event) => setDefaults((prev) => ({ ...prev, [field]: event.target.value }))}
+                className={inputClassName}
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {missing.length > 0 && (
+        <p className="mt-4 text-xs text-rose-300">
+          Map a column or set a default for: {missing.map((field) => DRAFT_FIELD_LABELS[field]).join(", ")}.
+        </p>
+      )}
+
+      <div className="mt-5 flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={() => onConfirm(mapping, defaults)}
+          disabled={missing.length > 0}
+          className="rounded-lg bg-indigo-500 px-4 py-2 text-xs font-semibold text-white transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:bg-slate-700"
+        >
+          Preview {rowCount} row{rowCount === 1 ? "" : "s"}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="text-xs font-medium text-slate-300 underline underline-offset-4 hover:text-white"
+        >
+          Cancel
+        </button>
+        <div className="ml-auto flex items-center gap-2">
+          <input
+            value={supplier}
+            onChange={(event) => setSupplier(event.target.value)}
+            placeholder="Supplier name"
+            className={inputClassName}
+          />
+          <button
+            type="button"
+            onClick={savePreset}
+            disabled={saving || !supplier.trim()}
+            className="rounded-lg border border-indigo-500 px-3 py-2 text-xs font-semibold text-indigo-200 transition hover:bg-indigo-500/10 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            Save preset
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
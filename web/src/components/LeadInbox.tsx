@@ -0,0 +1,349 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { LEAD_STATUSES, LEAD_STATUS_LABELS, Lead, LeadSource, LeadSourceInput, LeadStatus } from "../lib/leads";
+import { ListingEnvironment } from "../lib/listings";
+import { SellerProfile } from "../lib/profiles";
+
+type LeadInboxProps = {
+  profiles: SellerProfile[];
+  onPulled: (profileName: string, added: number) => void;
+  onError: (message: string) => void;
+};
+
+type LeadFilter = {
+  status: LeadStatus | "";
+  profileId: string;
+  q: string;
+};
+
+type LeadList = {
+  leads: Lead[];
+  counts: Record<LeadStatus, number>;
+};
+
+const REFRESH_MS = 60_000;
+
+const STATUS_STYLES: Record<LeadStatus, string> = {
+  new: "border-indigo-500/60 text-indigo-200",
+  contacted: "border-sky-500/60 text-sky-200",
+  quoted: "border-amber-500/60 text-amber-200",
+  won: "border-emerald-500/60 text-emerald-200",
+  lost: "border-slate-600 text-slate-400",
+};
+
+const inputClassName =
+  "rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2 text-xs text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-400/60";
+
+const readError = async (response: Response, fallback: string) => {
+  try {
+    return ((await response.json()) as { error?: string }).error ?? fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const fetchLeads = async (filter: LeadFilter) => {
+  const params = new URLSearchParams(Object.entries(filter).filter(([, value]) => value.trim()) as [string, string][]);
+  try {
+    const response = await fetch(`/api/leads?${params}`, { cache: "no-store" });
+    return response.ok ? ((await response.json()) as LeadList) : null;
+  } catch {
+    return null;
+  }
+};
+
+const fetchSources = async () => {
+  try {
+    const response = await fetch("/api/leads/sources", { cache: "no-store" });
+    return response.ok ? ((await response.json()).sources as LeadSource[]) : null;
+  } catch {
+    return null;
+  }
+};
+
+const loadInbox = (filter: LeadFilter) => Promise.all([fetchLeads(filter), fetchSources()]);
+
+const describePull = (source: LeadSource) => {
+  if (!source.lastPullAt) {
+    return "Not pulled yet";
+  }
+  const at = new Date(source.lastPullAt).toLocaleString();
+  return source.lastError
+    ? `Last pull failed ${at}: ${source.lastError}`
+    : `Last pulled ${at} · ${source.lastAdded ?? 0} new`;
+};
+
+export default function LeadInbox({ profiles, onPulled, onError }: LeadInboxProps) {
+  const [filter, setFilter] = useState<LeadFilter>({ status: "", profileId: "", q: "" });
+  const [list, setList] = useState<LeadList | null>(null);
+  const [sources, setSources] = useState<LeadSource[]>([]);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [pulling, setPulling] = useState<string | null>(null);
+
+  const apply = useCallback(([loaded, loadedSources]: [LeadList | null, LeadSource[] | null]) => {
+    if (loaded) {
+      setList(loaded);
+    }
+    if (loadedSources) {
+      setSources(loadedSources);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadInbox(filter).then(apply);
+    // Leads also arrive from the background poller, so the inbox checks back now and then.
+    const timer = setInterval(() => void loadInbox(filter).then(apply), REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [apply, filter]);
+
+  const refresh = useCallback(async () => apply(await loadInbox(filter)), [apply, filter]);
+
+  const updateLead = useCallback(
+    async (lead: Lead, update: { status?: LeadStatus; note?: string }) => {
+      const response = await fetch(`/api/leads/${lead.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(update),
+      });
+      if (!response.ok) {
+        onError(await readError(response, "Unable to update the lead."));
+        return;
+      }
+      await refresh();
+    },
+    [onError, refresh],
+  );
+
+  const saveNote = useCallback(
+    async (lead: Lead) => {
+      const note = notes[lead.id];
+      if (note === undefined || note === lead.note) {
+        return;
+      }
+      await updateLead(lead, { note });
+      setNotes((prev) => {
+        const next = { ...prev };
+        delete next[lead.id];
+        return next;
+      });
+    },
+    [notes, updateLead],
+  );
+
+  const saveSource = useCallback(
+    async (profileId: string, input: LeadSourceInput) => {
+      const response = await fetch("/api/leads/sources", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ profileId, ...input }),
+      });
+      if (!response.ok) {
+        onError(await readError(response, "Unable to save the lead source."));
+        return;
+      }
+      await refresh();
+    },
+    [onError, refresh],
+  );
+
+  const pullNow = useCallback(
+    async (profile: SellerProfile) => {
+      setPulling(profile.id);
+      try {
+        const response = await fetch("/api/leads/sync", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ profileId: profile.id }),
+        });
+        if (!response.ok) {
+          onError(await readError(response, "Unable to pull buyer enquiries."));
+        } else {
+          onPulled(profile.name, (await response.json()).added as number);
+        }
+        await refresh();
+      } catch {
+        onError("Unable to reach the leads endpoint.");
+      } finally {
+        setPulling(null);
+      }
+    },
+    [onError, onPulled, refresh],
+  );
+
+  const profileName = (id: string) => profiles.find((profile) => profile.id === id)?.name ?? "Deleted profile";
+  const total = list ? Object.values(list.counts).reduce((sum, count) => sum + count, 0) : 0;
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-6 shadow-xl shadow-black/40">
+      <h2 className="text-lg font-semibold text-white">Buyer Leads</h2>
+      <p className="mt-1 text-xs text-slate-400">
+        Enquiries pulled from IndiaMART&apos;s Lead Manager every five minutes for each profile with pulling switched
+        on, linked to the listing they are about. Repeat enquiries from the same buyer for the same product are marked.
+      </p>
+
+      <div className="mt-4 space-y-2 text-xs">
+        {profiles.length === 0 && <p className="text-slate-500">Add a seller profile to pull its enquiries.</p>}
+        {profiles.map((profile) => {
+          const source = sources.find((item) => item.profileId === profile.id);
+          if (!source) {
+            return null;
+          }
+          return (
+            <div
+              key={profile.id}
+              className="flex flex-wrap items-center gap-3 rounded-xl border border-slate-800 bg-slate-950/40 px-3 py-2"
+            >
+              <span className="font-semibold text-slate-200">{profile.name}</span>
+              <label className="flex items-center gap-2 text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={source.enabled}
+                  onChange={(event) => void saveSource(profile.id, { enabled: event.target.checked })}
+                />
+                Pull automatically
+              </label>
+              <select
+                value={source.environment}
+                onChange={(event) =>
+                  void saveSource(profile.id, { environment: event.target.value as ListingEnvironment })
+                }
+                className={inputClassName}
+              >
+                <option value="live">IndiaMART Lead Manager</option>
+                <option value="sandbox">Sandbox (mock leads)</option>
+              </select>
+              <button
+                type="button"
+                onClick={() => void pullNow(profile)}
+                disabled={pulling !== null}
+                className="rounded-lg border border-slate-700 px-3 py-2 font-semibold text-slate-100 transition hover:border-slate-500 disabled:opacity-60"
+              >
+                {pulling === profile.id ? "Pulling…" : "Pull now"}
+              </button>
+              <span className={source.lastError ? "text-rose-300" : "text-slate-500"}>
+                {source.environment === "live" && !profile.hasLeadKey
+                  ? "Store a Lead Manager CRM key on this profile to pull live enquiries."
+                  : describePull(source)}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center gap-2 text-xs">
+        {(["", ...LEAD_STATUSES] as const).map((status) => (
+          <button
+            key={status || "all"}
+            type="button"
+            onClick={() => setFilter((prev) => ({ ...prev, status }))}
+            className={`rounded-full border px-3 py-1 font-semibold transition ${
+              filter.status === status
+                ? "border-indigo-400 bg-indigo-500/20 text-indigo-100"
+                : "border-slate-700 text-slate-300 hover:border-slate-500"
+            }`}
+          >
+            {status ? LEAD_STATUS_LABELS[status] : "All"} ({status ? (list?.counts[status] ?? 0) : total})
+          </button>
+        ))}
+        <select
+          value={filter.profileId}
+          onChange={(event) => setFilter((prev) => ({ ...prev, profileId: event.target.value }))}
+          className={`${inputClassName} ml-auto`}
+        >
+          <option value="">All profiles</option>
+          {profiles.map((profile) => (
+            <option key={profile.id} value={profile.id}>
+              {profile.name}
+            </option>
+          ))}
+        </select>
+        <input
+          value={filter.q}
+          onChange={(event) => setFilter((prev) => ({ ...prev, q: event.target.value }))}
+          placeholder="Search buyer, product or message"
+          className={inputClassName}
+        />
+      </div>
+
+      <ul className="mt-4 space-y-3 text-xs">
+        {list?.leads.length === 0 && <li className="text-slate-500">No enquiries match.</li>}
+        {list?.leads.map((lead) => (
+          <li key={lead.id} className="rounded-xl border border-slate-800 bg-slate-950/40 p-3">
+            <div className="flex flex-wrap items-start justify-between gap-2">
+              <div>
+                <p className="font-semibold text-slate-100">
+                  {lead.buyer.name || "Unnamed buyer"}
+                  {lead.buyer.company && <span className="font-normal text-slate-400"> · {lead.buyer.company}</span>}
+                </p>
+                <p className="text-slate-400">
+                  {[lead.buyer.city, lead.buyer.state].filter(Boolean).join(", ")}
+                  {lead.buyer.mobile && (
+                    <>
+                      {" "}
+                      ·{" "}
+                      <a href={`tel:${lead.buyer.mobile}`} className="text-indigo-300 hover:underline">
+                        {lead.buyer.mobile}
+                      </a>
+                    </>
+                  )}
+                  {lead.buyer.email && (
+                    <>
+                      {" "}
+                      ·{" "}
+                      <a href={`mailto:${lead.buyer.email}`} className="text-indigo-300 hover:underline">
+                        {lead.buyer.email}
+                      </a>
+                    </>
+                  )}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                {lead.duplicateOf && (
+                  <span className="rounded-full border border-amber-500/60 px-2 py-0.5 text-amber-200">
+                    Repeat enquiry
+                  </span>
+                )}
+                <select
+                  value={lead.status}
+                  onChange={(event) => void updateLead(lead, { status: event.target.value as LeadStatus })}
+                  className={`${inputClassName} ${STATUS_STYLES[lead.status]}`}
+                >
+                  {LEAD_STATUSES.map((status) => (
+                    <option key={status} value={status}>
+                      {LEAD_STATUS_LABELS[status]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <p className="mt-2 text-slate-200">
+              <span className="font-semibold">{lead.productName || lead.subject || "No product named"}</span>
+              {lead.listing ? (
+                <span className="text-emerald-300">
+                  {" "}
+                  → {lead.listing.sku} · IndiaMART ID {lead.listing.productId}
+                </span>
+              ) : (
+                <span className="text-slate-500"> · no matching listing</span>
+              )}
+            </p>
+            {lead.message && <p className="mt-1 whitespace-pre-wrap text-slate-300">{lead.message}</p>}
+            <textarea
+              rows={1}
+              value={notes[lead.id] ?? lead.note}
+              onChange={(event) => setNotes((prev) => ({ ...prev, [lead.id]: event.target.value }))}
+              onBlur={() => void saveNote(lead)}
+              placeholder="Note, e.g. quoted ₹1,299 for 100 pcs"
+              className={`${inputClassName} mt-2 w-full`}
+            />
+            <p className="mt-1 text-[11px] text-slate-500">
+              {new Date(lead.receivedAt).toLocaleString()} · {profileName(lead.profileId)}
+              {lead.environment === "sandbox" ? " (sandbox)" : ""} · Query {lead.queryId}
+            </p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,347 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useState } from "react";
+import {
+  NOTIFICATION_EVENTS,
+  NOTIFICATION_EVENT_LABELS,
+  NotificationEvent,
+  NotificationSettings as Settings,
+  NotificationSettingsInput,
+  SmtpSecurity,
+} from "../lib/notifications";
+
+type NotificationSettingsProps = {
+  onSaved: () => void;
+  onTested: (results: { channel: string; ok: boolean; error?: string }[]) => void;
+  onError: (message: string) => void;
+};
+
+type WebhookRow = {
+  key: string;
+  id?: string;
+  url: string;
+  /** Undefined keeps the stored secret. */
+  secret?: string;
+  hasSecret: boolean;
+};
+
+type EmailForm = {
+  enabled: boolean;
+  host: string;
+  port: string;
+  security: SmtpSecurity;
+  username: string;
+  /** Undefined keeps the stored password. */
+  password?: string;
+  hasPassword: boolean;
+  from: string;
+  to: string;
+};
+
+const SECURITY_LABELS: Record<SmtpSecurity, string> = {
+  tls: "TLS (port 465)",
+  starttls: "STARTTLS (port 587)",
+  none: "None (local catcher)",
+};
+
+const inputClassName =
+  "rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-400/60";
+
+const emptyEmail: EmailForm = {
+  enabled: false,
+  host: "",
+  port: "587",
+  security: "starttls",
+  username: "",
+  hasPassword: false,
+  from: "",
+  to: "",
+};
+
+const makeKey = () => Math.random().toString(36).slice(2);
+
+const fetchSettings = async () => {
+  try {
+    const response = await fetch("/api/notifications", { cache: "no-store" });
+    return response.ok ? ((await response.json()).settings as Settings) : null;
+  } catch {
+    return null;
+  }
+};
+
+const toForm = (settings: Settings) => ({
+  events: settings.events,
+  webhooks: settings.webhooks.map((webhook) => ({
+    key: webhook.id,
+    id: webhook.id,
+    url: webhook.url,
+    hasSecret: webhook.hasSecret,
+  })),
+  email: settings.email
+    ? {
+        enabled: true,
+        host: settings.email.host,
+        port: String(settings.email.port),
+        security: settings.email.security,
+        username: settings.email.username,
+        hasPassword: settings.email.hasPassword,
+        from: settings.email.from,
+        to: settings.email.to.join(", "),
+      }
+    : emptyEmail,
+});
+
+export default function NotificationSettings({ onSaved, onTested, onError }: NotificationSettingsProps) {
+  const [events, setEvents] = useState<Record<NotificationEvent, boolean> | null>(null);
+  const [webhooks, setWebhooks] = useState<WebhookRow[]>([]);
+  const [email, setEmail] = useState<EmailForm>(emptyEmail);
+  const [busy, setBusy] = useState<"saving" | "testing" | null>(null);
+
+  const apply = useCallback((settings: Settings) => {
+    const form = toForm(settings);
+    setEvents(form.events);
+    setWebhooks(form.webhooks);
+    setEmail(form.email);
+  }, []);
+
+  useEffect(() => {
+    void fetchSettings().then((settings) => {
+      if (settings) {
+        apply(settings);
+      }
+    });
+  }, [apply]);
+
+  const updateWebhook = useCallback((key: string, patch: Partial<WebhookRow>) => {
+    setWebhooks((prev) => prev.map((row) => (row.key === key ? { ...row, ...patch } : row)));
+  }, []);
+
+  const save = useCallback(
+    async (event: FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      const input: NotificationSettingsInput = {
+        events: events ?? undefined,
+        webhooks: webhooks
+          .filter((row) => row.url.trim())
+          .map((row) => ({ id: row.id, url: row.url, secret: row.secret })),
+        email: email.enabled
+          ? {
+              host: email.host,
+              port: Number(email.port),
+              security: email.security,
+              username: email.username,
+              password: email.password,
+              from: email.from,
+              to: email.to,
+            }
+          : null,
+      };
+      setBusy("saving");
+      try {
+        const response = await fetch("/api/notifications", {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(input),
+        });
+        const body = await response.json();
+        if (!response.ok) {
+          onError(body.error ?? "Unable to save notification settings.");
+          return;
+        }
+        apply(body.settings as Settings);
+        onSaved();
+      } catch {
+        onError("Unable to reach the notifications endpoint.");
+      } finally {
+        setBusy(null);
+      }
+    },
+    [apply, email, events, onError, onSaved, webhooks],
+  );
+
+  const sendTest = useCallback(async () => {
+    setBusy("testing");
+    try {
+      const response = await fetch("/api/notifications/test", { method: "POST" });
+      const body = await response.json();
+      if (!response.ok) {
+        onError(body.error ?? "Unable to send a test notification.");
+        return;
+      }
+      onTested(body.results);
+    } catch {
+      onError("Unable to reach the notifications endpoint.");
+    } finally {
+      setBusy(null);
+    }
+  }, [onError, onTested]);
+
+  if (!events) {
+    return <p className="text-xs text-slate-500">Loading notification settings…</p>;
+  }
+
+  return (
+    <form onSubmit={save} className="space-y-4 text-xs">
+      <fieldset className="space-y-2">
+        <legend className="font-semibold text-slate-200">Notify on</legend>
+        {NOTIFICATION_EVENTS.map((item) => (
+          <label key={item} className="flex items-center gap-2 text-slate-300">
+            <input
+              type="checkbox"
+              checked={events[item]}
+              onChange={(event) => setEvents((prev) => (prev ? { ...prev, [item]: event.target.checked } : prev))}
+            />
+            {NOTIFICATION_EVENT_LABELS[item]}
+          </label>
+        ))}
+      </fieldset>
+
+      <fieldset className="space-y-2">
+        <legend className="font-semibold text-slate-200">Webhooks</legend>
+        {webhooks.map((row) => (
+          <div key={row.key} className="space-y-2 rounded-lg border border-slate-800 p-2">
+            <input
+              value={row.url}
+              onChange={(event) => updateWebhook(row.key, { url: event.target.value })}
+              placeholder="https://example.com/hooks/indiamart"
+              className={`${inputClassName} w-full`}
+            />
+            <div className="flex items-center gap-2">
+              <input
+                type="password"
+                value={row.secret ?? ""}
+                onChange={(event) => updateWebhook(row.key, { secret: event.target.value })}
+                placeholder={row.hasSecret ? "Signing secret saved; type to replace" : "Signing secret (optional)"}
+                className={`${inputClassName} flex-1`}
+              />
+              <button
+                type="button"
+                onClick={() => setWebhooks((prev) => prev.filter((item) => item.key !== row.key))}
+                className="font-medium text-slate-300 underline underline-offset-4 hover:text-rose-300"
+              >
+                Remove
+              </button>
+            </div>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => setWebhooks((prev) => [...prev, { key: makeKey(), url: "", hasSecret: false }])}
+          className="font-medium text-indigo-300 underline underline-offset-4 hover:text-indigo-200"
+        >
+          Add webhook
+        </button>
+      </fieldset>
+
+      <fieldset className="space-y-2">
+        <legend className="font-semibold text-slate-200">Email</legend>
+        <label className="flex items-center gap-2 text-slate-300">
+          <input
+            type="checkbox"
+            checked={email.enabled}
+            onChange={(event) => setEmail((prev) => ({ ...prev, enabled: event.target.checked }))}
+          />
+          Send email through an SMTP server
+        </label>
+        {email.enabled && (
+          <div className="grid grid-cols-2 gap-3">
+            <label className="col-span-2 flex flex-col gap-1 font-medium text-slate-200">
+              SMTP host
+              <input
+                value={email.host}
+                onChange={(event) => setEmail((prev) => ({ ...prev, host: event.target.value }))}
+                placeholder="smtp.example.com"
+                className={inputClassName}
+              />
+            </label>
+            <label className="flex flex-col gap-1 font-medium text-slate-200">
+              Port
+              <input
+                type="number"
+                min={1}
+                max={65535}
+                value={email.port}
+                onChange={(event) => setEmail((prev) => ({ ...prev, port: event.target.value }))}
+                className={inputClassName}
+              />
+            </label>
+            <label className="flex flex-col gap-1 font-medium text-slate-200">
+              Security
+              <select
+                value={email.security}
+                onChange={(event) => setEmail((prev) => ({ ...prev, security: event.target.value as SmtpSecurity }))}
+                className={inputClassName}
+              >
+                {(Object.keys(SECURITY_LABELS) as SmtpSecurity[]).map((item) => (
+                  <option key={item} value={item}>
+                    {SECURITY_LABELS[item]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 font-medium text-slate-200">
+              Username
+              <input
+                value={email.username}
+                onChange={(event) => setEmail((prev) => ({ ...prev, username: event.target.value }))}
+                autoComplete="off"
+                className={inputClassName}
+              />
+            </label>
+            <label className="flex flex-col gap-1 font-medium text-slate-200">
+              Password
+              <input
+                type="password"
+                value={email.password ?? ""}
+                onChange={(event) => setEmail((prev) => ({ ...prev, password: event.target.value }))}
+                placeholder={email.hasPassword ? "Saved; type to replace" : ""}
+                autoComplete="new-password"
+                className={inputClassName}
+              />
+            </label>
+            <label className="col-span-2 flex flex-col gap-1 font-medium text-slate-200">
+              From
+              <input
+                value={email.from}
+                onChange={(event) => setEmail((prev) => ({ ...prev, from: event.target.value }))}
+                placeholder="agent@example.com"
+                className={inputClassName}
+              />
+            </label>
+            <label className="col-span-2 flex flex-col gap-1 font-medium text-slate-200">
+              To (comma separated)
+              <input
+                value={email.to}
+                onChange={(event) => setEmail((prev) => ({ ...prev, to: event.target.value }))}
+                placeholder="catalog@example.com"
+                className={inputClassName}
+              />
+            </label>
+          </div>
+        )}
+      </fieldset>
+
+      <div className="flex gap-3">
+        <button
+          type="submit"
+          disabled={busy !== null}
+          className="rounded-lg bg-indigo-500 px-3 py-2 font-semibold text-white transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:bg-slate-700"
+        >
+          {busy === "saving" ? "Saving…" : "Save"}
+        </button>
+        <button
+          type="button"
+          onClick={sendTest}
+          disabled={busy !== null}
+          className="rounded-lg border border-slate-700 px-3 py-2 font-semibold text-slate-200 transition hover:border-indigo-400 disabled:cursor-not-allowed disabled:text-slate-500"
+        >
+          {busy === "testing" ? "Sending…" : "Send test"}
+        </button>
+      </div>
+      <p className="text-[11px] text-slate-500">
+        Save before testing; the test goes to the stored settings. Failed deliveries are retried and recorded in the
+        audit log.
+      </p>
+    </form>
+  );
+}
@@ -0,0 +1,426 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { ProductDraft } from "../lib/indiamart";
+import {
+  BASE_CURRENCY,
+  ExchangeRates,
+  PRICE_ROUNDINGS,
+  PriceRounding,
+  PricingError,
+  PricingRule,
+  PricingRuleInput,
+  ROUNDING_LABELS,
+  calculatePrice,
+  formatPrice,
+} from "../lib/pricing";
+import { SellerProfile } from "../lib/profiles";
+
+type PricingRulesProps = {
+  profiles: SellerProfile[];
+  /** The form draft, used for the live preview. */
+  draft: ProductDraft;
+  onApplied: (updated: number, errors: { sku: string; title: string; error: string }[]) => void;
+  onError: (message: string) => void;
+};
+
+type EditorState = {
+  id: string | null;
+  name: string;
+  categories: string;
+  profileId: string;
+  currency: string;
+  markupPercent: string;
+  markupFixed: string;
+  rounding: PriceRounding;
+  floor: string;
+  ceiling: string;
+  /** `minQty:discount%` pairs, comma separated. */
+  tiers: string;
+};
+
+const inputClassName =
+  "rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2 text-xs text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-400/60";
+
+const toEditor = (rule: PricingRule | null): EditorState =>
+  rule
+    ? {
+        id: rule.id,
+        name: rule.name,
+        categories: rule.categories.join(", "),
+        profileId: rule.profileId ?? "",
+        currency: rule.currency,
+        markupPercent: String(rule.markupPercent),
+        markupFixed: String(rule.markupFixed),
+        rounding: rule.rounding,
+        floor: rule.floor === undefined ? "" : String(rule.floor),
+        ceiling: rule.ceiling === undefined ? "" : String(rule.ceiling),
+        tiers: rule.tiers.map((tier) => `${tier.minQty}:${tier.discountPercent}`).join(", "),
+      }
+    : {
+        id: null,
+        name: "",
+        categories: "",
+        profileId: "",
+        currency: BASE_CURRENCY,
+        markupPercent: "25",
+        markupFixed: "0",
+        rounding: "x99",
+        floor: "",
+        ceiling: "",
+        tiers: "",
+      };
+
+const toInput = (editor: EditorState): PricingRuleInput => ({
+  name: editor.name,
+  categories: editor.categories.split(","),
+  profileId: editor.profileId || null,
+  currency: editor.currency,
+  markupPercent: Number(editor.markupPercent || 0),
+  markupFixed: Number(editor.markupFixed || 0),
+  rounding: editor.rounding,
+  floor: editor.floor.trim() ? Number(editor.floor) : null,
+  ceiling: editor.ceiling.trim() ? Number(editor.ceiling) : null,
+  tiers: editor.tiers
+    .split(",")
+    .map((pair) => pair.trim())
+    .filter(Boolean)
+    .map((pair) => {
+      const [minQty, discountPercent] = pair.split(":");
+      return { minQty: Number(minQty), discountPercent: Number(String(discountPercent ?? "").replace("%", "")) };
+    }),
+});
+
+const formatRates = (exchangeRates: ExchangeRates) =>
+  Object.entries(exchangeRates.rates)
+    .map(([currency, rate]) => `${currency} ${rate}`)
+    .join("\n");
+
+const parseRates = (text: string) =>
+  Object.fromEntries(
+    text
+      .split("\n")
+      .map((line) => line.trim().split(/[\s=:]+/))
+      .filter(([currency]) => currency)
+      .map(([currency, rate]) => [currency.toUpperCase(), rate === undefined ? NaN : Number(rate)]),
+  );
+
+const readError = async (response: Response, fallback: string) => {
+  try {
+    return ((await response.json()) as { error?: string }).error ?? fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const fetchPricing = async () => {
+  try {
+    const response = await fetch("/api/pricing", { cache: "no-store" });
+    return response.ok ? ((await response.json()) as { rules: PricingRule[]; exchangeRates: ExchangeRates }) : null;
+  } catch {
+    return null;
+  }
+};
+
+export default function PricingRules({ profiles, draft, onApplied, onError }: PricingRulesProps) {
+  const [rules, setRules] = useState<PricingRule[]>([]);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRates>({ rates: {}, updatedAt: 0 });
+  const [ratesText, setRatesText] = useState("");
+  const [editor, setEditor] = useState<EditorState>(() => toEditor(null));
+  const [busy, setBusy] = useState(false);
+
+  const apply = useCallback((loaded: { rules: PricingRule[]; exchangeRates: ExchangeRates }) => {
+    setRules(loaded.rules);
+    setExchangeRates(loaded.exchangeRates);
+    setRatesText(formatRates(loaded.exchangeRates));
+  }, []);
+
+  useEffect(() => {
+    void fetchPricing().then((loaded) => {
+      if (loaded) {
+        apply(loaded);
+      }
+    });
+  }, [apply]);
+
+  const refresh = useCallback(async () => {
+    const loaded = await fetchPricing();
+    if (loaded) {
+      apply(loaded);
+    }
+  }, [apply]);
+
+  const select = useCallback(
+    (id: string) => setEditor(toEditor(rules.find((rule) => rule.id === id) ?? null)),
+    [rules],
+  );
+
+  const preview = useMemo(() => {
+    if (!draft.price.trim()) {
+      return "Enter a price in the draft form to preview this rule.";
+    }
+    const input = toInput(editor);
+    const rule: PricingRule = {
+      id: editor.id ?? "preview",
+      name: editor.name || "New rule",
+      categories: [],
+      currency: editor.currency.trim().toUpperCase() || BASE_CURRENCY,
+      markupPercent: input.markupPercent ?? 0,
+      markupFixed: input.markupFixed ?? 0,
+      rounding: editor.rounding,
+      profileId: undefined,
+      floor: input.floor ?? undefined,
+      ceiling: input.ceiling ?? undefined,
+      tiers: (input.tiers ?? []).filter(
+        (tier) => Number.isFinite(tier.minQty) && Number.isFinite(tier.discountPercent),
+      ),
+      createdAt: 0,
+      updatedAt: 0,
+    };
+    try {
+      const result = calculatePrice(draft.price, draft.currency, draft.minOrderQty, rule, exchangeRates);
+      return `${formatPrice(result.cost, result.costCurrency)} → ${formatPrice(result.price, result.currency)}${
+        result.steps.length ? ` (${result.steps.join(", ")})` : ""
+      }`;
+    } catch (error) {
+      return error instanceof PricingError ? error.message : "Unable to preview this rule.";
+    }
+  }, [draft.currency, draft.minOrderQty, draft.price, editor, exchangeRates]);
+
+  const save = useCallback(async () => {
+    setBusy(true);
+    const response = await fetch(editor.id ? `/api/pricing/${editor.id}` : "/api/pricing", {
+      method: editor.id ? "PATCH" : "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(toInput(editor)),
+    });
+    setBusy(false);
+    if (!response.ok) {
+      onError(await readError(response, "Unable to save the pricing rule."));
+      return;
+    }
+    setEditor(toEditor((await response.json()).rule as PricingRule));
+    await refresh();
+  }, [editor, onError, refresh]);
+
+  const remove = useCallback(async () => {
+    if (!editor.id) {
+      return;
+    }
+    const response = await fetch(`/api/pricing/${editor.id}`, { method: "DELETE" });
+    if (!response.ok) {
+      onError(await readError(response, "Unable to delete the pricing rule."));
+      return;
+    }
+    setEditor(toEditor(null));
+    await refresh();
+  }, [editor.id, onError, refresh]);
+
+  const saveRates = useCallback(async () => {
+    setBusy(true);
+    const response = await fetch("/api/pricing/rates", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ rates: parseRates(ratesText) }),
+    });
+    setBusy(false);
+    if (!response.ok) {
+      onError(await readError(response, "Unable to save exchange rates."));
+      return;
+    }
+    await refresh();
+  }, [onError, ratesText, refresh]);
+
+  const applyToQueue = useCallback(async () => {
+    setBusy(true);
+    const response = await fetch("/api/pricing/apply", { method: "POST" });
+    setBusy(false);
+    if (!response.ok) {
+      onError(await readError(response, "Unable to reprice the queue."));
+      return;
+    }
+    const body = await response.json();
+    onApplied(body.updated as number, body.errors);
+  }, [onApplied, onError]);
+
+  const profileName = (id?: string) =>
+    id ? (profiles.find((profile) => profile.id === id)?.name ?? "Deleted profile") : "Any profile";
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-6 shadow-xl shadow-black/40">
+      <h2 className="text-lg font-semibold text-white">Pricing Rules</h2>
+      <p className="mt-1 text-xs text-slate-400">
+        Imported prices are treated as cost and turned into the listed price when products are queued: converted to the
+        rule&apos;s currency, marked up, discounted by MOQ tier, rounded and held between the floor and ceiling. The
+        most specific rule wins: category and profile, then category, then profile, then a rule with neither.
+      </p>
+
+      <div className="mt-4 flex flex-wrap items-center gap-2 text-xs">
+        <select value={editor.id ?? ""} onChange={(event) => select(event.target.value)} className={inputClassName}>
+          <option value="">New rule</option>
+          {rules.map((rule) => (
+            <option key={rule.id} value={rule.id}>
+              {rule.name} ({rule.categories.length ? rule.categories.join(", ") : "any category"} ·{" "}
+              {profileName(rule.profileId)})
+            </option>
+          ))}
+        </select>
+        <input
+          value={editor.name}
+          onChange={(event) => setEditor((prev) => ({ ...prev, name: event.target.value }))}
+          placeholder="Rule name"
+          className={inputClassName}
+        />
+        <input
+          value={editor.categories}
+          onChange={(event) => setEditor((prev) => ({ ...prev, categories: event.target.value }))}
+          placeholder="Categories, comma separated (blank = any)"
+          className={`${inputClassName} min-w-[16rem] flex-1`}
+        />
+        <select
+          value={editor.profileId}
+          onChange={(event) => setEditor((prev) => ({ ...prev, profileId: event.target.value }))}
+          className={inputClassName}
+        >
+          <option value="">Any profile</option>
+          {profiles.map((profile) => (
+            <option key={profile.id} value={profile.id}>
+              {profile.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="mt-3 grid grid-cols-2 gap-3 text-xs text-slate-400 md:grid-cols-4">
+        <label className="flex flex-col gap-1">
+          Markup %
+          <input
+            type="number"
+            value={editor.markupPercent}
+            onChange={(event) => setEditor((prev) => ({ ...prev, markupPercent: event.target.value }))}
+            className={inputClassName}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          Fixed markup
+          <input
+            type="number"
+            value={editor.markupFixed}
+            onChange={(event) => setEditor((prev) => ({ ...prev, markupFixed: event.target.value }))}
+            className={inputClassName}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          Listing currency
+          <input
+            value={editor.currency}
+            onChange={(event) => setEditor((prev) => ({ ...prev, currency: event.target.value }))}
+            className={inputClassName}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          Rounding
+          <select
+            value={editor.rounding}
+            onChange={(event) => setEditor((prev) => ({ ...prev, rounding: event.target.value as PriceRounding }))}
+            className={inputClassName}
+          >
+            {PRICE_ROUNDINGS.map((rounding) => (
+              <option key={rounding} value={rounding}>
+                {ROUNDING_LABELS[rounding]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          Floor price
+          <input
+            type="number"
+            value={editor.floor}
+            onChange={(event) => setEditor((prev) => ({ ...prev, floor: event.target.value }))}
+            placeholder="None"
+            className={inputClassName}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          Ceiling price
+          <input
+            type="number"
+            value={editor.ceiling}
+            onChange={(event) => setEditor((prev) => ({ ...prev, ceiling: event.target.value }))}
+            placeholder="None"
+            className={inputClassName}
+          />
+        </label>
+        <label className="col-span-2 flex flex-col gap-1">
+          MOQ tiers (minimum quantity:discount %)
+          <input
+            value={editor.tiers}
+            onChange={(event) => setEditor((prev) => ({ ...prev, tiers: event.target.value }))}
+            placeholder="100:5, 500:10"
+            className={inputClassName}
+          />
+        </label>
+      </div>
+
+      <p className="mt-3 rounded-xl border border-indigo-500/30 bg-indigo-500/5 p-3 text-xs text-slate-200">
+        <span className="font-semibold text-indigo-200">Preview with the current draft: </span>
+        {preview}
+      </p>
+
+      <div className="mt-4 flex flex-wrap items-center gap-3 text-xs">
+        <button
+          type="button"
+          onClick={save}
+          disabled={busy}
+          className="rounded-lg bg-indigo-500 px-4 py-2 font-semibold text-white transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:bg-slate-700"
+        >
+          {editor.id ? "Save rule" : "Create rule"}
+        </button>
+        <button
+          type="button"
+          onClick={applyToQueue}
+          disabled={busy}
+          className="rounded-lg border border-slate-700 px-4 py-2 font-semibold text-slate-100 transition hover:border-slate-500 disabled:opacity-60"
+        >
+          Reprice queued items
+        </button>
+        {editor.id && (
+          <button
+            type="button"
+            onClick={remove}
+            className="font-medium text-rose-300 underline underline-offset-4 hover:text-rose-200"
+          >
+            Delete rule
+          </button>
+        )}
+      </div>
+
+      <div className="mt-6 text-xs">
+        <label className="flex flex-col gap-1 text-slate-400">
+          Exchange rates: rupees per unit, one currency per line
+          <textarea
+            rows={3}
+            value={ratesText}
+            onChange={(event) => setRatesText(event.target.value)}
+            placeholder={"USD 83.20\nEUR 90.10"}
+            className={`${inputClassName} font-mono`}
+          />
+        </label>
+        <div className="mt-2 flex items-center gap-3">
+          <button
+            type="button"
+            onClick={saveRates}
+            disabled={busy}
+            className="rounded-lg border border-slate-700 px-4 py-2 font-semibold text-slate-100 transition hover:border-slate-500 disabled:opacity-60"
+          >
+            Save rates
+          </button>
+          {exchangeRates.updatedAt > 0 && (
+            <span className="text-slate-500">Updated {new Date(exchangeRates.updatedAt).toLocaleString()}</span>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
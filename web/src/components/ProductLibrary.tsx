@@ -0,0 +1,216 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { DRAFT_FIELD_LABELS } from "../lib/importMapping";
+import { ProductDraft } from "../lib/indiamart";
+import { LibraryProduct, LibrarySummary, ProductVersion, diffDrafts } from "../lib/library";
+
+type ProductLibraryProps = {
+  /** Bump to make the list reload, e.g. after the form saved a version. */
+  refreshKey: number;
+  onLoad: (draft: ProductDraft, productId: string) => void;
+  onQueue: (draft: ProductDraft) => void;
+  onError: (message: string) => void;
+};
+
+type Filters = {
+  q: string;
+  category: string;
+  keyword: string;
+};
+
+const inputClassName =
+  "rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2 text-xs text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-400/60";
+
+const fetchLibrary = async (filters: Filters) => {
+  const params = new URLSearchParams(Object.entries(filters).filter(([, value]) => value.trim()));
+  try {
+    const response = await fetch(`/api/library?${params}`, { cache: "no-store" });
+    return response.ok ? ((await response.json()).products as LibrarySummary[]) : null;
+  } catch {
+    return null;
+  }
+};
+
+const VersionDiff = ({ previous, current }: { previous: ProductVersion; current: ProductVersion }) => {
+  const changes = diffDrafts(previous.draft, current.draft);
+  if (changes.length === 0) {
+    return <p className="text-slate-500">No changes from v{previous.version}.</p>;
+  }
+  return (
+    <table className="w-full text-left">
+      <tbody className="divide-y divide-slate-800">
+        {changes.map((change) => (
+          <tr key={change.field} className="align-top">
+            <td className="py-1 pr-3 font-semibold text-slate-300">{DRAFT_FIELD_LABELS[change.field]}</td>
+            <td className="whitespace-pre-wrap py-1 pr-3 text-rose-300/90 line-through decoration-rose-400/60">
+              {change.before || "—"}
+            </td>
+            <td className="whitespace-pre-wrap py-1 text-emerald-300">{change.after || "—"}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+export default function ProductLibrary({ refreshKey, onLoad, onQueue, onError }: ProductLibraryProps) {
+  const [filters, setFilters] = useState<Filters>({ q: "", category: "", keyword: "" });
+  const [products, setProducts] = useState<LibrarySummary[]>([]);
+  const [expanded, setExpanded] = useState<LibraryProduct | null>(null);
+  const [comparing, setComparing] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    void fetchLibrary(filters).then((loaded) => {
+      if (loaded && !cancelled) {
+        setProducts(loaded);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, refreshKey]);
+
+  const toggle = useCallback(
+    async (id: string) => {
+      if (expanded?.id === id) {
+        setExpanded(null);
+        return;
+      }
+      const response = await fetch(`/api/library/${id}`, { cache: "no-store" });
+      if (!response.ok) {
+        onError("Unable to load library product.");
+        return;
+      }
+      setExpanded((await response.json()).product as LibraryProduct);
+      setComparing(null);
+    },
+    [expanded, onError],
+  );
+
+  const remove = useCallback(
+    async (id: string) => {
+      const response = await fetch(`/api/library/${id}`, { method: "DELETE" });
+      if (!response.ok) {
+        onError("Unable to delete library product.");
+        return;
+      }
+      setExpanded(null);
+      setProducts((prev) => prev.filter((product) => product.id !== id));
+    },
+    [onError],
+  );
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-6 shadow-xl shadow-black/40">
+      <h2 className="text-lg font-semibold text-white">Product Library</h2>
+      <p className="mt-1 text-xs text-slate-400">
+        Every queued draft is saved here with its version history. Load a version into the form or queue it again.
+      </p>
+      <div className="mt-4 grid gap-2 md:grid-cols-3">
+        <input
+          value={filters.q}
+          onChange={(event) => setFilters((prev) => ({ ...prev, q: event.target.value }))}
+          placeholder="Search title, SKU…"
+          className={inputClassName}
+        />
+        <input
+          value={filters.category}
+          onChange={(event) => setFilters((prev) => ({ ...prev, category: event.target.value }))}
+          placeholder="Category"
+          className={inputClassName}
+        />
+        <input
+          value={filters.keyword}
+          onChange={(event) => setFilters((prev) => ({ ...prev, keyword: event.target.value }))}
+          placeholder="Keyword"
+          className={inputClassName}
+        />
+      </div>
+
+      <ul className="mt-4 space-y-2 text-sm">
+        {products.map((product) => {
+          const open = expanded?.id === product.id ? expanded : null;
+          return (
+            <li key={product.id} className="rounded-xl border border-slate-800 bg-slate-950/40 px-4 py-3">
+              <button
+                type="button"
+                onClick={() => toggle(product.id)}
+                className="flex w-full items-center justify-between"
+              >
+                <span className="font-semibold text-slate-100">{product.latest.draft.title || "Untitled"}</span>
+                <span className="text-[11px] uppercase tracking-wide text-slate-400">
+                  v{product.latest.version} · {new Date(product.updatedAt).toLocaleDateString()}
+                </span>
+              </button>
+              <div className="mt-1 text-xs text-slate-400">
+                {product.latest.draft.sku && `SKU ${product.latest.draft.sku} · `}
+                {product.latest.draft.category || "General"}
+                {product.latest.draft.keywords && ` · ${product.latest.draft.keywords}`}
+              </div>
+
+              {open && (
+                <div className="mt-3 space-y-2 text-xs">
+                  {[...open.versions].reverse().map((version) => {
+                    const previous = open.versions.find((item) => item.version === version.version - 1);
+                    return (
+                      <div key={version.version} className="rounded-lg border border-slate-800 px-3 py-2">
+                        <div className="flex flex-wrap items-center gap-3">
+                          <span className="font-semibold text-slate-200">v{version.version}</span>
+                          <span className="text-slate-500">{new Date(version.savedAt).toLocaleString()}</span>
+                          <div className="ml-auto flex gap-3">
+                            {previous && (
+                              <button
+                                type="button"
+                                onClick={() => setComparing(comparing === version.version ? null : version.version)}
+                                className="font-medium text-slate-300 underline underline-offset-4 hover:text-white"
+                              >
+                                {comparing === version.version ? "Hide changes" : "Changes"}
+                              </button>
+                            )}
+                            <button
+                              type="button"
+                              onClick={() => onLoad(version.draft, open.id)}
+                              className="font-medium text-indigo-300 underline underline-offset-4 hover:text-indigo-200"
+                            >
+                              Load
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => onQueue(version.draft)}
+                              className="font-semibold text-emerald-300 underline underline-offset-4 hover:text-emerald-200"
+                            >
+                              Queue again
+                            </button>
+                          </div>
+                        </div>
+                        {previous && comparing === version.version && (
+                          <div className="mt-2">
+                            <VersionDiff previous={previous} current={version} />
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                  <button
+                    type="button"
+                    onClick={() => remove(open.id)}
+                    className="font-medium text-rose-300 underline underline-offset-4 hover:text-rose-200"
+                  >
+                    Delete from library
+                  </button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+        {products.length === 0 && (
+          <li className="rounded-xl border border-dashed border-slate-800 px-4 py-6 text-center text-sm text-slate-500">
+            No saved products{filters.q || filters.category || filters.keyword ? " match these filters" : " yet"}.
+          </li>
+        )}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useState } from "react";
+import { AgentMode } from "../lib/indiamart";
+import { SellerProfile } from "../lib/profiles";
+import {
+  DAY_LABELS,
+  DEFAULT_TIME_ZONE,
+  PublishSchedule,
+  PublishScheduleInput,
+  WEEKDAYS,
+  describeSchedule,
+} from "../lib/schedules";
+
+type PublishSchedulesProps = {
+  profiles: SellerProfile[];
+  /** Preselected in the form: the profile and mode the dashboard is using. */
+  profileId: string;
+  mode: AgentMode;
+  onScheduled: (schedule: PublishSchedule) => void;
+  onError: (message: string) => void;
+};
+
+type ScheduleForm = {
+  kind: "once" | "recurring";
+  runAt: string;
+  days: number[];
+  time: string;
+  timeZone: string;
+};
+
+const MODE_LABELS: Record<AgentMode, string> = {
+  simulate: "Simulation",
+  sandbox: "Sandbox",
+  live: "Live upload",
+};
+
+// The server runs schedules on its own; polling only keeps "next run" and the last outcome current.
+const REFRESH_INTERVAL_MS = 30_000;
+
+const emptyForm: ScheduleForm = {
+  kind: "recurring",
+  runAt: "",
+  days: WEEKDAYS,
+  time: "10:00",
+  timeZone: DEFAULT_TIME_ZONE,
+};
+
+const inputClassName =
+  "rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-400/60";
+
+const fetchSchedules = async () => {
+  try {
+    const response = await fetch("/api/schedules", { cache: "no-store" });
+    return response.ok ? ((await response.json()).schedules as PublishSchedule[]) : null;
+  } catch {
+    return null;
+  }
+};
+
+export default function PublishSchedules({ profiles, profileId, mode, onScheduled, onError }: PublishSchedulesProps) {
+  const [schedules, setSchedules] = useState<PublishSchedule[]>([]);
+  const [form, setForm] = useState<ScheduleForm>(emptyForm);
+  const [target, setTarget] = useState<{ profileId: string; mode: AgentMode } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const chosen = target ?? { profileId, mode };
+
+  const refresh = useCallback(async () => {
+    const loaded = await fetchSchedules();
+    if (loaded) {
+      setSchedules(loaded);
+    }
+  }, []);
+
+  useEffect(() => {
+    const load = () =>
+      void fetchSchedules().then((loaded) => {
+        if (loaded) {
+          setSchedules(loaded);
+        }
+      });
+    load();
+    const timer = setInterval(load, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const toggleDay = useCallback((day: number, checked: boolean) => {
+    setForm((prev) => ({
+      ...prev,
+      days: checked ? [...prev.days, day].sort() : prev.days.filter((item) => item !== day),
+    }));
+  }, []);
+
+  const create = useCallback(
+    async (event: FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      const input: PublishScheduleInput = {
+        profileId: chosen.profileId || undefined,
+        mode: chosen.mode,
+        ...(form.kind === "once"
+          ? { runAt: form.runAt ? new Date(form.runAt).getTime() : undefined }
+          : { recurrence: { days: form.days, time: form.time, timeZone: form.timeZone } }),
+      };
+      setSaving(true);
+      try {
+        const response = await fetch("/api/schedules", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(input),
+        });
+        const body = await response.json();
+        if (!response.ok) {
+          onError(body.error ?? "Unable to create the schedule.");
+          return;
+        }
+        onScheduled(body.schedule as PublishSchedule);
+        setForm(emptyForm);
+        setTarget(null);
+        await refresh();
+      } catch {
+        onError("Unable to reach the schedule endpoint.");
+      } finally {
+        setSaving(false);
+      }
+    },
+    [chosen.mode, chosen.profileId, form, onError, onScheduled, refresh],
+  );
+
+  const cancel = useCallback(
+    async (id: string) => {
+      try {
+        const response = await fetch(`/api/schedules/${id}`, { method: "DELETE" });
+        if (!response.ok) {
+          onError((await response.json()).error ?? "Unable to cancel the schedule.");
+        }
+        await refresh();
+      } catch {
+        onError("Unable to reach the schedule endpoint.");
+      }
+    },
+    [onError, refresh],
+  );
+
+  const profileName = (id?: string) =>
+    id ? (profiles.find((profile) => profile.id === id)?.name ?? "Deleted profile") : "No profile";
+
+  return (
+    <div className="space-y-4 text-xs">
+      {schedules.length > 0 ? (
+        <ul className="divide-y divide-slate-800 rounded-lg border border-slate-800">
+          {schedules.map((schedule) => (
+            <li key={schedule.id} className="flex items-start gap-3 px-3 py-2">
+              <div className="min-w-0 flex-1 space-y-0.5">
+                <p className="font-semibold text-slate-200">{describeSchedule(schedule)}</p>
+                <p className="text-slate-400">
+                  {profileName(schedule.profileId)} · {MODE_LABELS[schedule.mode]}
+                </p>
+                <p className="text-slate-400">
+                  {schedule.nextRunAt === null
+                    ? "Finished"
+                    : `Next run ${new Date(schedule.nextRunAt).toLocaleString()}`}
+                </p>
+                {schedule.lastOutcome && <p className="text-slate-500">{schedule.lastOutcome}</p>}
+              </div>
+              <button
+                type="button"
+                onClick={() => cancel(schedule.id)}
+                className="font-medium text-slate-300 underline underline-offset-4 hover:text-rose-300"
+              >
+                {schedule.nextRunAt === null ? "Remove" : "Cancel"}
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="rounded-lg border border-dashed border-slate-800 px-3 py-4 text-center text-slate-500">
+          No scheduled runs.
+        </p>
+      )}
+
+      <form onSubmit={create} className="space-y-3 rounded-lg border border-slate-800 bg-slate-950/40 p-3">
+        <div className="grid grid-cols-2 gap-3">
+          <label className="flex flex-col gap-1 font-medium text-slate-200">
+            Seller profile
+            <select
+              value={chosen.profileId}
+              onChange={(event) => setTarget({ ...chosen, profileId: event.target.value })}
+              className={inputClassName}
+            >
+              <option value="">No profile (simulation only)</option>
+              {profiles.map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 font-medium text-slate-200">
+            Mode
+            <select
+              value={chosen.mode}
+              onChange={(event) => setTarget({ ...chosen, mode: event.target.value as AgentMode })}
+              className={inputClassName}
+            >
+              {(Object.keys(MODE_LABELS) as AgentMode[]).map((item) => (
+                <option key={item} value={item}>
+                  {MODE_LABELS[item]}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="flex gap-4 text-slate-300">
+          {(["recurring", "once"] as const).map((kind) => (
+            <label key={kind} className="flex items-center gap-2">
+              <input
+                type="radio"
+                name="schedule-kind"
+                checked={form.kind === kind}
+                onChange={() => setForm((prev) => ({ ...prev, kind }))}
+              />
+              {kind === "once" ? "Once" : "Recurring"}
+            </label>
+          ))}
+        </div>
+
+        {form.kind === "once" ? (
+          <label className="flex flex-col gap-1 font-medium text-slate-200">
+            Run at (your local time)
+            <input
+              type="datetime-local"
+              value={form.runAt}
+              onChange={(event) => setForm((prev) => ({ ...prev, runAt: event.target.value }))}
+              className={inputClassName}
+            />
+          </label>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-3 text-slate-300">
+              {DAY_LABELS.map((label, day) => (
+                <label key={label} className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={form.days.includes(day)}
+                    onChange={(event) => toggleDay(day, event.target.checked)}
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="flex flex-col gap-1 font-medium text-slate-200">
+                Time
+                <input
+                  type="time"
+                  value={form.time}
+                  onChange={(event) => setForm((prev) => ({ ...prev, time: event.target.value }))}
+                  className={inputClassName}
+                />
+              </label>
+              <label className="flex flex-col gap-1 font-medium text-slate-200">
+                Time zone
+                <input
+                  value={form.timeZone}
+                  onChange={(event) => setForm((prev) => ({ ...prev, timeZone: event.target.value }))}
+                  className={inputClassName}
+                />
+              </label>
+            </div>
+          </>
+        )}
+
+        <button
+          type="submit"
+          disabled={saving}
+          className="rounded-lg bg-indigo-500 px-3 py-2 font-semibold text-white transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:bg-slate-700"
+        >
+          {saving ? "Scheduling…" : "Schedule run"}
+        </button>
+        <p className="text-[11px] text-slate-500">
+          The server starts the agent with everything queued at that time, even with this page closed. Runs that fall
+          while another batch is uploading wait for it to finish.
+        </p>
+      </form>
+    </div>
+  );
+}
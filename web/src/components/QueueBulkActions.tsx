@@ -0,0 +1,104 @@
+"use client";
+
+import { useState } from "react";
+import { JOB_PRIORITIES, JobPriority, PRIORITY_LABELS, QueueEdit } from "../lib/jobs";
+
+type QueueBulkActionsProps = {
+  count: number;
+  onEdit: (edit: QueueEdit, description: string) => void;
+  onRemove: () => void;
+  onClear: () => void;
+};
+
+const inputClassName =
+  "rounded-lg border border-slate-800 bg-slate-950/60 px-2 py-1 text-xs text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-400/60";
+
+const buttonClassName =
+  "rounded-lg border border-slate-700 px-2 py-1 font-semibold text-slate-100 transition hover:border-slate-500 disabled:cursor-not-allowed disabled:opacity-50";
+
+export default function QueueBulkActions({ count, onEdit, onRemove, onClear }: QueueBulkActionsProps) {
+  const [category, setCategory] = useState("");
+  const [find, setFind] = useState("");
+  const [replace, setReplace] = useState("");
+
+  return (
+    <div className="mt-4 space-y-2 rounded-xl border border-indigo-500/40 bg-indigo-500/5 p-3 text-xs text-slate-200">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-semibold text-indigo-200">{count} selected</span>
+        <select
+          value=""
+          onChange={(event) => {
+            const priority = event.target.value as JobPriority;
+            onEdit({ priority }, `Priority set to ${PRIORITY_LABELS[priority].toLowerCase()}`);
+          }}
+          className={inputClassName}
+        >
+          <option value="" disabled>
+            Set priority…
+          </option>
+          {JOB_PRIORITIES.map((priority) => (
+            <option key={priority} value={priority}>
+              {PRIORITY_LABELS[priority]}
+            </option>
+          ))}
+        </select>
+        <button type="button" onClick={() => onEdit({ held: true }, "Put on hold")} className={buttonClassName}>
+          Hold
+        </button>
+        <button type="button" onClick={() => onEdit({ held: false }, "Released")} className={buttonClassName}>
+          Release
+        </button>
+        <button
+          type="button"
+          onClick={onRemove}
+          className="rounded-lg border border-rose-500/60 px-2 py-1 font-semibold text-rose-200 transition hover:bg-rose-500/10"
+        >
+          Remove
+        </button>
+        <button
+          type="button"
+          onClick={onClear}
+          className="ml-auto font-medium text-slate-300 underline underline-offset-4 hover:text-white"
+        >
+          Clear selection
+        </button>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          value={category}
+          onChange={(event) => setCategory(event.target.value)}
+          placeholder="Category"
+          className={inputClassName}
+        />
+        <button
+          type="button"
+          disabled={!category.trim()}
+          onClick={() => onEdit({ category }, `Category set to "${category.trim()}"`)}
+          className={buttonClassName}
+        >
+          Set category
+        </button>
+        <input
+          value={find}
+          onChange={(event) => setFind(event.target.value)}
+          placeholder="Find in titles"
+          className={`${inputClassName} ml-2`}
+        />
+        <input
+          value={replace}
+          onChange={(event) => setReplace(event.target.value)}
+          placeholder="Replace with"
+          className={inputClassName}
+        />
+        <button
+          type="button"
+          disabled={!find}
+          onClick={() => onEdit({ titleReplace: { find, replace } }, `Replaced "${find}" with "${replace}" in titles`)}
+          className={buttonClassName}
+        >
+          Replace
+        </button>
+      </div>
+    </div>
+  );
+}
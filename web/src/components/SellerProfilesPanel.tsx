@@ -0,0 +1,268 @@
+"use client";
+
+import { FormEvent, useCallback, useState } from "react";
+import { AgentMode } from "../lib/indiamart";
+import { SellerProfile, SellerProfileInput } from "../lib/profiles";
+
+type ProfileForm = {
+  name: string;
+  sellerId: string;
+  baseUrl: string;
+  defaultMode: AgentMode;
+  apiKey: string;
+  leadKey: string;
+};
+
+type SellerProfilesPanelProps = {
+  profiles: SellerProfile[];
+  selectedId: string;
+  onSelect: (profile: SellerProfile | null) => void;
+  onSaved: () => Promise<void>;
+  onError: (message: string) => void;
+};
+
+const emptyForm: ProfileForm = {
+  name: "",
+  sellerId: "",
+  baseUrl: "https://sellerapi.indiamart.com/catalog/v1/product/add",
+  defaultMode: "simulate",
+  apiKey: "",
+  leadKey: "",
+};
+
+const inputClassName =
+  "rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-400/60";
+
+export default function SellerProfilesPanel({
+  profiles,
+  selectedId,
+  onSelect,
+  onSaved,
+  onError,
+}: SellerProfilesPanelProps) {
+  const [editing, setEditing] = useState<"new" | string | null>(null);
+  const [form, setForm] = useState<ProfileForm>(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  const selected = profiles.find((profile) => profile.id === selectedId) ?? null;
+  const editingProfile = editing && editing !== "new" ? profiles.find((profile) => profile.id === editing) : null;
+
+  const openEditor = useCallback((profile: SellerProfile | null) => {
+    setEditing(profile ? profile.id : "new");
+    setForm(
+      profile
+        ? {
+            name: profile.name,
+            sellerId: profile.sellerId,
+            baseUrl: profile.baseUrl,
+            defaultMode: profile.defaultMode,
+            apiKey: "",
+            leadKey: "",
+          }
+        : emptyForm,
+    );
+  }, []);
+
+  const closeEditor = useCallback(() => {
+    setEditing(null);
+    setForm(emptyForm);
+  }, []);
+
+  const saveProfile = useCallback(
+    async (event: FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      // A blank key field on an existing profile means "keep the stored key".
+      const input: SellerProfileInput = {
+        name: form.name,
+        sellerId: form.sellerId,
+        baseUrl: form.baseUrl,
+        defaultMode: form.defaultMode,
+        apiKey: form.apiKey || editing === "new" ? form.apiKey : undefined,
+        leadKey: form.leadKey || editing === "new" ? form.leadKey : undefined,
+      };
+      setSaving(true);
+      try {
+        const response = await fetch(editing === "new" ? "/api/profiles" : `/api/profiles/${editing}`, {
+          method: editing === "new" ? "POST" : "PATCH",
+          headers: {
+            "content-type": "application/json",
+          },
+          body: JSON.stringify(input),
+        });
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(typeof result?.error === "string" ? result.error : "Unable to save seller profile.");
+        }
+        await onSaved();
+        onSelect(result.profile as SellerProfile);
+        closeEditor();
+      } catch (error) {
+        onError(error instanceof Error ? error.message : "Unable to save seller profile.");
+      } finally {
+        setSaving(false);
+      }
+    },
+    [closeEditor, editing, form, onError, onSaved, onSelect],
+  );
+
+  const removeProfile = useCallback(async () => {
+    if (!editingProfile) {
+      return;
+    }
+    const response = await fetch(`/api/profiles/${editingProfile.id}`, { method: "DELETE" });
+    if (!response.ok) {
+      onError("Unable to delete seller profile.");
+      return;
+    }
+    if (selectedId === editingProfile.id) {
+      onSelect(null);
+    }
+    await onSaved();
+    closeEditor();
+  }, [closeEditor, editingProfile, onError, onSaved, onSelect, selectedId]);
+
+  return (
+    <div className="flex flex-col gap-2 font-medium text-slate-200">
+      <span>Seller profile</span>
+      <div className="flex items-center gap-2">
+        <select
+          value={selectedId}
+          onChange={(event) => onSelect(profiles.find((profile) => profile.id === event.target.value) ?? null)}
+          className={`${inputClassName} flex-1`}
+        >
+          <option value="">No profile (simulation only)</option>
+          {profiles.map((profile) => (
+            <option key={profile.id} value={profile.id}>
+              {profile.name}
+              {profile.sellerId ? ` · ${profile.sellerId}` : ""}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => openEditor(selected)}
+          disabled={!selected}
+          className="rounded-lg border border-slate-700 px-3 py-2 text-xs font-semibold text-slate-100 transition hover:border-slate-500 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          Edit
+        </button>
+        <button
+          type="button"
+          onClick={() => openEditor(null)}
+          className="rounded-lg border border-indigo-500 px-3 py-2 text-xs font-semibold text-indigo-200 transition hover:bg-indigo-500/10"
+        >
+          New
+        </button>
+      </div>
+      {selected && !editing && (
+        <p className="text-xs font-normal text-slate-400">
+          {selected.hasKey ? `Auth key stored (ending ${selected.keyHint})` : "No auth key stored"} · Default mode:{" "}
+          {selected.defaultMode}
+          {selected.hasLeadKey ? " · Lead Manager key stored" : ""}
+        </p>
+      )}
+
+      {editing && (
+        <form
+          onSubmit={saveProfile}
+          className="mt-2 space-y-3 rounded-xl border border-slate-800 bg-slate-950/40 p-4 text-xs"
+        >
+          <p className="font-semibold text-slate-200">{editing === "new" ? "New seller profile" : "Edit profile"}</p>
+          <label className="flex flex-col gap-1">
+            Profile name
+            <input
+              value={form.name}
+              onChange={(event) => setForm((prev) => ({ ...prev, name: event.target.value }))}
+              className={inputClassName}
+              placeholder="Main store"
+              required
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Seller ID / Profile ID
+            <input
+              value={form.sellerId}
+              onChange={(event) => setForm((prev) => ({ ...prev, sellerId: event.target.value }))}
+              className={inputClassName}
+              placeholder="IM123456789"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            IndiaMART endpoint
+            <input
+              value={form.baseUrl}
+              onChange={(event) => setForm((prev) => ({ ...prev, baseUrl: event.target.value }))}
+              className={inputClassName}
+              placeholder="https://sellerapi.indiamart.com/catalog/v1/product/add"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            IndiaMART API key / Auth token
+            <input
+              type="password"
+              autoComplete="off"
+              value={form.apiKey}
+              onChange={(event) => setForm((prev) => ({ ...prev, apiKey: event.target.value }))}
+              className={inputClassName}
+              placeholder={
+                editingProfile?.hasKey
+                  ? `Stored key ending ${editingProfile.keyHint} — leave blank to keep`
+                  : "Enter auth key"
+              }
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Lead Manager CRM key
+            <input
+              type="password"
+              autoComplete="off"
+              value={form.leadKey}
+              onChange={(event) => setForm((prev) => ({ ...prev, leadKey: event.target.value }))}
+              className={inputClassName}
+              placeholder={
+                editingProfile?.hasLeadKey ? "Stored — leave blank to keep" : "Optional; needed to pull buyer enquiries"
+              }
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Default mode
+            <select
+              value={form.defaultMode}
+              onChange={(event) => setForm((prev) => ({ ...prev, defaultMode: event.target.value as AgentMode }))}
+              className={inputClassName}
+            >
+              <option value="simulate">Simulation</option>
+              <option value="sandbox">Sandbox (mock catalog)</option>
+              <option value="live">Live upload</option>
+            </select>
+          </label>
+          <div className="flex flex-wrap items-center gap-3 pt-1">
+            <button
+              type="submit"
+              disabled={saving}
+              className="rounded-lg bg-indigo-500 px-3 py-2 text-xs font-semibold text-white transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:bg-slate-700"
+            >
+              Save profile
+            </button>
+            <button
+              type="button"
+              onClick={closeEditor}
+              className="text-xs font-medium text-slate-300 underline underline-offset-4 hover:text-white"
+            >
+              Cancel
+            </button>
+            {editingProfile && (
+              <button
+                type="button"
+                onClick={removeProfile}
+                className="ml-auto text-xs font-medium text-rose-300 underline underline-offset-4 hover:text-rose-200"
+              >
+                Delete profile
+              </button>
+            )}
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { ensureWorker } = await import("./lib/server/queueWorker");
+    const { ensureScheduler } = await import("./lib/server/scheduler");
+    const { ensureLeadPoller } = await import("./lib/server/leadPoller");
+    const { recordServerStart } = await import("./lib/server/serverInfo");
+    await recordServerStart();
+    // Resume a batch that was running when the server last stopped, without waiting for a dashboard visit.
+    await ensureWorker();
+    await ensureScheduler();
+    await ensureLeadPoller();
+  }
+}
@@ -0,0 +1,118 @@
+import { AgentMode, ListingOperation } from "./indiamart";
+
+export type AuditLevel = "info" | "error" | "success";
+
+/** `agent` entries are written by the server as it works; `dashboard` entries are sent by the browser. */
+export type AuditSource = "agent" | "dashboard";
+
+export type AuditEntry = {
+  id: string;
+  timestamp: number;
+  level: AuditLevel;
+  source: AuditSource;
+  headline: string;
+  details?: string;
+  jobId?: string;
+  /** IndiaMART's listing ID. */
+  productId?: string;
+  sku?: string;
+  title?: string;
+  profileId?: string;
+  mode?: AgentMode;
+  operation?: ListingOperation;
+  /** Status the agent settled on; `upstreamStatus` is what IndiaMART itself answered. */
+  httpStatus?: number;
+  upstreamStatus?: number;
+  durationMs?: number;
+  request?: unknown;
+  response?: unknown;
+};
+
+export type AuditEntryInput = Omit<AuditEntry, "id" | "timestamp" | "source">;
+
+export type AuditQuery = {
+  level?: AuditLevel[];
+  /** Inclusive epoch-millisecond bounds. */
+  from?: number;
+  to?: number;
+  /** Matches the SKU, IndiaMART product ID, job ID or title. */
+  product?: string;
+  /** Full-text search over every field, request and response bodies included. */
+  q?: string;
+  offset?: number;
+  limit?: number;
+};
+
+export const AUDIT_LEVELS: AuditLevel[] = ["info", "success", "error"];
+
+export const REDACTED = "[redacted]";
+
+const SECRET_KEY_PATTERN = /(api[-_]?key|auth[-_]?token|token|secret|password|authorization|cookie)/i;
+
+/**
+ * Deep copy with credential-looking keys masked and any of `secrets` scrubbed from string values, so logged
+ * request and response bodies never carry an auth key even when IndiaMART echoes it back.
+ */
+export const redactSecrets = (value: unknown, secrets: string[] = []): unknown => {
+  const known = secrets.filter((secret) => secret.length >= 4);
+  const visit = (item: unknown): unknown => {
+    if (typeof item === "string") {
+      return known.reduce((text, secret) => text.split(secret).join(REDACTED), item);
+    }
+    if (Array.isArray(item)) {
+      return item.map(visit);
+    }
+    if (item && typeof item === "object") {
+      return Object.fromEntries(
+        Object.entries(item).map(([key, nested]) => [key, SECRET_KEY_PATTERN.test(key) ? REDACTED : visit(nested)]),
+      );
+    }
+    return item;
+  };
+  return visit(value);
+};
+
+const matchesProduct = (entry: AuditEntry, product: string) =>
+  [entry.sku, entry.productId, entry.jobId, entry.title].some((value) => value?.toLowerCase().includes(product));
+
+export const matchesAuditQuery = (entry: AuditEntry, query: AuditQuery) => {
+  if (query.level?.length && !query.level.includes(entry.level)) {
+    return false;
+  }
+  if (query.from !== undefined && entry.timestamp < query.from) {
+    return false;
+  }
+  if (query.to !== undefined && entry.timestamp > query.to) {
+    return false;
+  }
+  const product = query.product?.trim().toLowerCase();
+  if (product && !matchesProduct(entry, product)) {
+    return false;
+  }
+  const terms = query.q?.trim().toLowerCase().split(/\s+/).filter(Boolean) ?? [];
+  if (terms.length) {
+    const text = JSON.stringify(entry).toLowerCase();
+    return terms.every((term) => text.includes(term));
+  }
+  return true;
+};
+
+/** Reads the filters the log view sends as query-string parameters. */
+export const parseAuditQuery = (params: URLSearchParams): AuditQuery => {
+  const number = (name: string) => {
+    const value = params.get(name);
+    return value && Number.isFinite(Number(value)) ? Number(value) : undefined;
+  };
+  const level = params.get("level");
+  return {
+    level: level
+      ? level.split(",").filter((item): item is AuditLevel => AUDIT_LEVELS.includes(item as AuditLevel))
+      : undefined,
+    from: number("from"),
+    to: number("to"),
+    product: params.get("product") ?? undefined,
+    q: params.get("q") ?? undefined,
+    offset: number("offset"),
+    limit: number("limit"),
+  };
+};
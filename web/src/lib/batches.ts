@@ -0,0 +1,55 @@
+import { AgentMode, ListingOperation } from "./indiamart";
+import { FailureKind, JOB_STATES, JobState } from "./jobs";
+import { PriceCalculation } from "./pricing";
+import { ValidationError } from "./validation";
+
+/** `rejected` items failed validation on arrival and were never queued; `removed` jobs were cleared from the queue. */
+export type BatchItemState = JobState | "rejected" | "removed";
+
+export type BatchState = "processing" | "completed";
+
+export type BatchItemStatus = {
+  index: number;
+  jobId?: string;
+  state: BatchItemState;
+  sku: string;
+  title: string;
+  operation?: ListingOperation;
+  attempts: number;
+  productId?: string;
+  /** The IndiaMART request for this item, built the way the worker sends it. */
+  payload?: Record<string, string>;
+  /** Set when a pricing rule turned the cost sent into the listed price. */
+  pricing?: PriceCalculation;
+  result?: unknown;
+  error?: string;
+  errors?: ValidationError[];
+  failureKind?: FailureKind;
+};
+
+export type BatchSummary = {
+  id: string;
+  createdAt: number;
+  profileId?: string;
+  mode: AgentMode;
+  state: BatchState;
+  total: number;
+  counts: Record<BatchItemState, number>;
+};
+
+export type BatchStatus = BatchSummary & {
+  items: BatchItemStatus[];
+};
+
+export const BATCH_ITEM_STATES: BatchItemState[] = [...JOB_STATES, "rejected", "removed"];
+
+export const MAX_BATCH_SIZE = 5000;
+
+export const summarizeItems = (items: BatchItemStatus[]) => {
+  const counts = Object.fromEntries(BATCH_ITEM_STATES.map((state) => [state, 0])) as Record<BatchItemState, number>;
+  items.forEach((item) => {
+    counts[item.state] += 1;
+  });
+  const state: BatchState = counts.queued + counts.running > 0 ? "processing" : "completed";
+  return { counts, state };
+};
@@ -0,0 +1,218 @@
+export type CsvDelimiter = "," | ";" | "\t";
+
+export type CsvRow = {
+  /** 1-based line in the source file where the record starts; quoted newlines make records span several lines. */
+  line: number;
+  cells: string[];
+};
+
+export type CsvParser = {
+  push: (chunk: string) => CsvRow[];
+  end: () => CsvRow[];
+  readonly delimiter: CsvDelimiter | null;
+};
+
+const DELIMITERS: CsvDelimiter[] = [",", ";", "\t"];
+
+/** Picks whichever candidate occurs most often outside quotes in the header line; commas win ties. */
+export const detectDelimiter = (sample: string): CsvDelimiter => {
+  const counts = new Map<CsvDelimiter, number>(DELIMITERS.map((delimiter) => [delimiter, 0]));
+  let insideQuotes = false;
+  for (const character of sample) {
+    if (character === '"') {
+      insideQuotes = !insideQuotes;
+    } else if (!insideQuotes && (character === "\n" || character === "\r")) {
+      break;
+    } else if (!insideQuotes && counts.has(character as CsvDelimiter)) {
+      counts.set(character as CsvDelimiter, (counts.get(character as CsvDelimiter) ?? 0) + 1);
+    }
+  }
+  return DELIMITERS.reduce((best, delimiter) =>
+    (counts.get(delimiter) ?? 0) > (counts.get(best) ?? 0) ? delimiter : best,
+  );
+};
+
+/**
+ * Incremental RFC 4180 parser. Feed it chunks in order; records are returned as soon as their terminating line break
+ * has been seen, so quoted cells may contain delimiters, doubled quotes and CR/LF line breaks. Records that are
+ * entirely empty are dropped. The delimiter is detected from the first line unless one is given.
+ */
+export const createCsvParser = (options: { delimiter?: CsvDelimiter } = {}): CsvParser => {
+  let delimiter: CsvDelimiter | null = options.delimiter ?? null;
+  let pending = "";
+  let started = false;
+
+  let cells: string[] = [];
+  let cell = "";
+  let insideQuotes = false;
+  let quotedCell = false;
+  let previous = "";
+  let line = 1;
+  let recordLine = 1;
+
+  const finishCell = () => {
+    cells.push(quotedCell ? cell : cell.trim());
+    cell = "";
+    quotedCell = false;
+  };
+
+  const finishRecord = (rows: CsvRow[]) => {
+    finishCell();
+    if (cells.length > 1 || cells[0] !== "") {
+      rows.push({ line: recordLine, cells });
+    }
+    cells = [];
+  };
+
+  const consume = (text: string, rows: CsvRow[]) => {
+    for (let index = 0; index < text.length; index += 1) {
+      const character = text[index];
+      const afterCarriageReturn = previous === "\r";
+      previous = character;
+
+      if (insideQuotes) {
+        if (character === '"') {
+          if (index + 1 === text.length) {
+            // Can't tell an escaped quote from a closing one until the next chunk arrives.
+            pending = '"';
+            return;
+          }
+          if (text[index + 1] === '"') {
+            cell += '"';
+            index += 1;
+            previous = '"';
+          } else {
+            insideQuotes = false;
+          }
+        } else {
+          if (character === "\r" || (character === "\n" && !afterCarriageReturn)) {
+            line += 1;
+          }
+          cell += character;
+        }
+        continue;
+      }
+
+      if (character === '"' && cell.trim() === "") {
+        insideQuotes = true;
+        quotedCell = true;
+        cell = "";
+      } else if (character === delimiter) {
+        finishCell();
+      } else if (character === "\n" && afterCarriageReturn) {
+        continue;
+      } else if (character === "\r" || character === "\n") {
+        finishRecord(rows);
+        line += 1;
+        recordLine = line;
+      } else if (!quotedCell) {
+        cell += character;
+      }
+    }
+  };
+
+  const push = (chunk: string) => {
+    let text = pending + chunk;
+    pending = "";
+    if (!started) {
+      if (!text) {
+        return [];
+      }
+      text = text.replace(/^\uFEFF/, "");
+      // Wait until the whole header line is buffered so the delimiter guess sees every column.
+      if (!delimiter && !/[\r\n]/.test(text)) {
+        pending = text;
+        return [];
+      }
+      delimiter = delimiter ?? detectDelimiter(text);
+      started = true;
+    }
+    const rows: CsvRow[] = [];
+    consume(text, rows);
+    return rows;
+  };
+
+  const end = () => {
+    if (!started && pending) {
+      delimiter = delimiter ?? detectDelimiter(pending);
+      started = true;
+    }
+    const rows: CsvRow[] = [];
+    if (pending) {
+      // A quote at the very end of the input can only be a closing one.
+      const tail = pending;
+      pending = "";
+      if (tail === '"' && insideQuotes) {
+        insideQuotes = false;
+      } else {
+        consume(tail, rows);
+      }
+    }
+    if (cell !== "" || quotedCell || cells.length > 0) {
+      finishRecord(rows);
+    }
+    return rows;
+  };
+
+  return {
+    push,
+    end,
+    get delimiter() {
+      return delimiter;
+    },
+  };
+};
+
+// Spreadsheets run a cell that starts with one of these as a formula; supplier titles and API error text are not trusted.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsvCell = (raw: string) => {
+  const value = FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * Serialises rows as comma-separated CRLF lines, quoting only the cells that need it. Every caller writes a file meant
+ * for Excel or Sheets, so a cell that would start a formula is prefixed with `'` and kept as text.
+ */
+export const toCsv = (rows: string[][]) => rows.map((row) => row.map(escapeCsvCell).join(",")).join("\r\n") + "\r\n";
+
+export const normalizeCsvHeader = (column: string) => column.toLowerCase().replace(/\s+/g, "");
+
+const yieldToBrowser = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+/**
+ * Streams a file through the parser chunk by chunk, handing rows to `onRows` and yielding between chunks so large
+ * imports don't lock up the page. Returning `false` from `onRows` stops reading. The TextDecoder drops a UTF-8 BOM on
+ * its own; the parser strips one from plain string input as well.
+ */
+export const parseCsvBlob = async (
+  blob: Blob,
+  onRows: (rows: CsvRow[]) => void | boolean | Promise<void | boolean>,
+  options: { delimiter?: CsvDelimiter } = {},
+) => {
+  const parser = createCsvParser(options);
+  const reader = blob.stream().pipeThrough(new TextDecoderStream()).getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    const rows = parser.push(value);
+    if (rows.length && (await onRows(rows)) === false) {
+      await reader.cancel();
+      return parser.delimiter;
+    }
+    await yieldToBrowser();
+  }
+  const rows = parser.end();
+  if (rows.length) {
+    await onRows(rows);
+  }
+  return parser.delimiter;
+};
+
+export const parseCsvText = (text: string, options: { delimiter?: CsvDelimiter } = {}) => {
+  const parser = createCsvParser(options);
+  return [...parser.push(text), ...parser.end()];
+};
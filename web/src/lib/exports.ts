@@ -0,0 +1,126 @@
+import { AuditEntry } from "./audit";
+import { toCsv } from "./csv";
+import { AgentSettings, buildIndiaMartPayload, normalizeProduct } from "./indiamart";
+import { UploadJob } from "./jobs";
+
+export type ExportFormat = "results" | "indiamart";
+
+const RESULT_COLUMNS = [
+  "job_id",
+  "sku",
+  "title",
+  "operation",
+  "status",
+  "attempts",
+  "indiamart_product_id",
+  "indiamart_response",
+  "error",
+  "failure_kind",
+  "queued_at",
+  "started_at",
+  "finished_at",
+  "price",
+  "pricing_rule",
+];
+
+const toIso = (timestamp: number | undefined) => (timestamp ? new Date(timestamp).toISOString() : "");
+
+const describeResponse = (result: unknown) => {
+  if (result === undefined || result === null) {
+    return "";
+  }
+  const body = result as { response?: unknown };
+  const response = body.response ?? result;
+  return typeof response === "string" ? response : JSON.stringify(response);
+};
+
+// Excel only reads the file as UTF-8 (₹, accented names) when it starts with a BOM.
+const withBom = (csv: string) => `\uFEFF${csv}`;
+
+/** One row per job with its outcome, in the order the jobs were queued. */
+export const buildResultsCsv = (jobs: UploadJob[]) =>
+  withBom(
+    toCsv([
+      RESULT_COLUMNS,
+      ...[...jobs]
+        .sort((a, b) => a.createdAt - b.createdAt)
+        .map((job) => [
+          job.id,
+          job.product.sku,
+          job.product.title,
+          job.operation,
+          job.state,
+          String(job.attempts),
+          job.productId ?? "",
+          describeResponse(job.result),
+          job.error ?? "",
+          job.failureKind ?? "",
+          toIso(job.createdAt),
+          toIso(job.startedAt),
+          toIso(job.finishedAt),
+          job.product.price ? `${job.product.price} ${job.product.currency || "INR"}` : "",
+          job.pricing ? `${job.pricing.ruleName} (cost ${job.pricing.cost} ${job.pricing.costCurrency})` : "",
+        ]),
+    ]),
+  );
+
+/**
+ * The products as IndiaMART's manual bulk-upload sheet expects them: one column per `buildIndiaMartPayload` key.
+ * Removals have no row in that template, so delete jobs are left out.
+ */
+export const buildBulkUploadCsv = (jobs: UploadJob[], settings: AgentSettings) => {
+  const payloads = jobs
+    .filter((job) => job.operation !== "delete")
+    .map((job) => buildIndiaMartPayload(normalizeProduct(job.product), settings));
+  const columns = Object.keys(buildIndiaMartPayload({ title: "" }, settings)) as (keyof (typeof payloads)[number])[];
+  return withBom(toCsv([columns, ...payloads.map((payload) => columns.map((column) => payload[column]))]));
+};
+
+const AUDIT_COLUMNS = [
+  "timestamp",
+  "level",
+  "source",
+  "headline",
+  "details",
+  "job_id",
+  "indiamart_product_id",
+  "sku",
+  "title",
+  "profile_id",
+  "mode",
+  "operation",
+  "http_status",
+  "indiamart_status",
+  "duration_ms",
+  "request",
+  "response",
+];
+
+const asJson = (value: unknown) => (value === undefined ? "" : JSON.stringify(value));
+
+/** Audit entries as stored (secrets were redacted when they were recorded), newest first. */
+export const buildAuditCsv = (entries: AuditEntry[]) =>
+  withBom(
+    toCsv([
+      AUDIT_COLUMNS,
+      ...entries.map((entry) => [
+        toIso(entry.timestamp),
+        entry.level,
+        entry.source,
+        entry.headline,
+        entry.details ?? "",
+        entry.jobId ?? "",
+        entry.productId ?? "",
+        entry.sku ?? "",
+        entry.title ?? "",
+        entry.profileId ?? "",
+        entry.mode ?? "",
+        entry.operation ?? "",
+        entry.httpStatus === undefined ? "" : String(entry.httpStatus),
+        entry.upstreamStatus === undefined ? "" : String(entry.upstreamStatus),
+        entry.durationMs === undefined ? "" : String(entry.durationMs),
+        asJson(entry.request),
+        asJson(entry.response),
+      ]),
+    ]),
+  );
@@ -0,0 +1,46 @@
+export type GenerationProviderName = "offline" | "http";
+
+/** What a provider is given to write from. */
+export type GenerationRequest = {
+  title: string;
+  category: string;
+  features: string[];
+};
+
+export type GeneratedCopy = {
+  shortDescription: string;
+  description: string;
+  keywords: string[];
+};
+
+export type GenerationUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** True when the backend did not report usage and the counts are a characters/4 estimate. */
+  estimated: boolean;
+};
+
+export type GenerationResult = {
+  provider: GenerationProviderName;
+  model: string;
+  copy: GeneratedCopy;
+  usage: GenerationUsage;
+  latencyMs: number;
+};
+
+export type GenerationProviderInfo = {
+  name: GenerationProviderName;
+  label: string;
+  model: string;
+  available: boolean;
+};
+
+export const toGenerationRequest = (draft: { title: string; category: string; features: string }) => ({
+  title: draft.title.trim(),
+  category: draft.category.trim(),
+  features: draft.features
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean),
+});
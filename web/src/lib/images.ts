@@ -0,0 +1,68 @@
+/** IndiaMART's product API takes three image columns, `IMAGE1`…`IMAGE3`. */
+export const MAX_LISTING_IMAGES = 3;
+
+export const IMAGE_REQUIREMENTS = {
+  minWidth: 500,
+  minHeight: 500,
+  maxWidth: 8000,
+  maxHeight: 8000,
+  maxBytes: 10 * 1024 * 1024,
+  contentTypes: ["image/jpeg", "image/png", "image/webp", "image/gif"],
+};
+
+/** Longest edge, in pixels, of each resized copy made for an uploaded image. */
+export const IMAGE_SIZES = {
+  thumb: 240,
+  medium: 800,
+  large: 1600,
+};
+
+export type ImageSize = keyof typeof IMAGE_SIZES | "original";
+
+export type StoredImage = {
+  id: string;
+  fileName: string;
+  contentType: string;
+  bytes: number;
+  width: number;
+  height: number;
+  createdAt: number;
+};
+
+export type ImageFacts = {
+  contentType?: string;
+  bytes?: number;
+  width?: number;
+  height?: number;
+};
+
+export type ImageCheck = ImageFacts & {
+  url: string;
+  ok: boolean;
+  problems: string[];
+};
+
+export const imagePath = (id: string, size: ImageSize) => `/api/images/${id}/${size}`;
+
+export const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+/** Problems with an image by the IndiaMART requirements above; facts that could not be read are not reported. */
+export const describeImageProblems = ({ contentType, bytes, width, height }: ImageFacts) => {
+  const problems: string[] = [];
+  const limits = IMAGE_REQUIREMENTS;
+  if (contentType && !limits.contentTypes.includes(contentType)) {
+    problems.push(`${contentType} is not a supported image type (JPEG, PNG, WebP or GIF).`);
+  }
+  if (bytes !== undefined && bytes > limits.maxBytes) {
+    problems.push(`${formatBytes(bytes)} is larger than the ${formatBytes(limits.maxBytes)} limit.`);
+  }
+  if (width !== undefined && height !== undefined) {
+    if (width < limits.minWidth || height < limits.minHeight) {
+      problems.push(`${width}×${height} is smaller than ${limits.minWidth}×${limits.minHeight}.`);
+    } else if (width > limits.maxWidth || height > limits.maxHeight) {
+      problems.push(`${width}×${height} is larger than ${limits.maxWidth}×${limits.maxHeight}.`);
+    }
+  }
+  return problems;
+};
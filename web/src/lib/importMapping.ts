@@ -0,0 +1,172 @@
+import { normalizeCsvHeader } from "./csv";
+import { ProductDraft } from "./indiamart";
+import { REQUIRED_FIELDS } from "./validation";
+
+export type DraftField = keyof ProductDraft;
+
+/** Maps a normalized source header to the draft field it fills, or `"ignore"` to drop the column. */
+export type ColumnMapping = Record<string, DraftField | "ignore">;
+
+export type ImportPreset = {
+  id: string;
+  supplier: string;
+  mapping: ColumnMapping;
+  defaults: Partial<ProductDraft>;
+  createdAt: number;
+  updatedAt: number;
+};
+
+/** A mapped row waiting in the import preview, with the line it started on in the source file. */
+export type StagedRow = {
+  line: number;
+  draft: ProductDraft;
+};
+
+export type ImportPresetInput = {
+  supplier?: string;
+  mapping?: ColumnMapping;
+  defaults?: Partial<ProductDraft>;
+};
+
+export const DRAFT_FIELD_LABELS: Record<DraftField, string> = {
+  sku: "SKU",
+  title: "Product title",
+  category: "Category",
+  price: "Price",
+  currency: "Currency",
+  unit: "Unit",
+  stock: "Stock / Supply ability",
+  minOrderQty: "Minimum order quantity",
+  keywords: "Keywords",
+  imageUrls: "Image URLs",
+  shortDescription: "Short description",
+  description: "Full description",
+  features: "Key features",
+  packaging: "Packaging",
+  leadTime: "Lead time",
+};
+
+export const DRAFT_FIELDS = Object.keys(DRAFT_FIELD_LABELS) as DraftField[];
+
+export const REQUIRED_IMPORT_FIELDS: DraftField[] = REQUIRED_FIELDS;
+
+/** What the old fixed-header importer filled in for blank cells. */
+export const DEFAULT_IMPORT_VALUES: Partial<ProductDraft> = {
+  currency: "INR",
+  unit: "Unit",
+};
+
+/** Header spellings seen in supplier sheets, already normalized with `normalizeCsvHeader`. */
+const FIELD_ALIASES: Record<DraftField, string[]> = {
+  sku: ["sku", "itemcode", "productcode", "code", "partno", "partnumber", "articleno"],
+  title: ["title", "productname", "name", "itemname", "product", "producttitle"],
+  category: ["category", "productcategory", "group", "productgroup"],
+  price: ["price", "rate", "yourprice", "unitprice", "sellingprice", "mrp", "priceperunit"],
+  currency: ["currency", "currencytype", "curr"],
+  unit: ["unit", "uom", "unitofmeasure", "units"],
+  stock: ["stock", "supplyability", "availablequantity", "quantity", "qty", "inventory"],
+  minOrderQty: ["minorderqty", "moq", "minimumorderquantity", "minorder", "minqty", "minimumorder"],
+  keywords: ["keywords", "tags", "searchkeywords", "searchterms"],
+  imageUrls: [
+    "imageurls",
+    "images",
+    "imageurl",
+    "image",
+    "imagelinks",
+    "photos",
+    "photo",
+    "image1",
+    "image2",
+    "image3",
+  ],
+  shortDescription: ["shortdescription", "shortdesc", "summary", "tagline"],
+  description: ["description", "longdescription", "longdesc", "details", "productdescription"],
+  features: ["features", "keyfeatures", "specifications", "specs", "highlights"],
+  packaging: ["packaging", "packagedetails", "packing", "packagingdetails"],
+  leadTime: ["leadtime", "deliverytime", "dispatchtime", "delivery"],
+};
+
+const ALIAS_LOOKUP = new Map<string, DraftField>(
+  DRAFT_FIELDS.flatMap((field) => FIELD_ALIASES[field].map((alias) => [alias, field] as const)),
+);
+
+/** Several columns may feed one list field (Image 1, Image 2, …); this is how their values are joined. */
+const LIST_SEPARATORS: Partial<Record<DraftField, string>> = {
+  imageUrls: "\n",
+  features: "\n",
+  keywords: ", ",
+};
+
+const ALIAS_SUFFIX = /\d+$/;
+
+export const suggestField = (header: string): DraftField | "ignore" => {
+  const key = normalizeCsvHeader(header).replace(/[^a-z0-9]/g, "");
+  return ALIAS_LOOKUP.get(key) ?? ALIAS_LOOKUP.get(key.replace(ALIAS_SUFFIX, "")) ?? "ignore";
+};
+
+/**
+ * Suggests a mapping for the given headers. A preset wins for every header it knows about; anything else falls back
+ * to the alias table. A non-list field is only suggested for the first column that matches it.
+ */
+export const suggestMapping = (headers: string[], preset?: ImportPreset | null): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const taken = new Set<DraftField>();
+  headers.forEach((header) => {
+    const key = normalizeCsvHeader(header);
+    const fromPreset = preset?.mapping[key];
+    let field = fromPreset ?? suggestField(header);
+    if (!fromPreset && field !== "ignore" && taken.has(field) && !LIST_SEPARATORS[field]) {
+      field = "ignore";
+    }
+    if (field !== "ignore") {
+      taken.add(field);
+    }
+    mapping[key] = field;
+  });
+  return mapping;
+};
+
+/** The first preset whose saved mapping knows every header in the file, so a supplier's sheet is recognised. */
+export const findMatchingPreset = (headers: string[], presets: ImportPreset[]) => {
+  const keys = headers.map(normalizeCsvHeader);
+  return presets.find((preset) => keys.every((key) => key in preset.mapping)) ?? null;
+};
+
+export const mappedFields = (mapping: ColumnMapping) =>
+  new Set(Object.values(mapping).filter((field): field is DraftField => field !== "ignore"));
+
+/** Required fields with neither a mapped column nor a default value. */
+export const missingRequiredFields = (mapping: ColumnMapping, defaults: Partial<ProductDraft>) => {
+  const mapped = mappedFields(mapping);
+  return REQUIRED_IMPORT_FIELDS.filter((field) => !mapped.has(field) && !defaults[field]?.trim());
+};
+
+/** Turns one source row into a draft. Blank or unmapped fields take the default, then an empty string. */
+export const applyMapping = (
+  headers: string[],
+  cells: string[],
+  mapping: ColumnMapping,
+  defaults: Partial<ProductDraft>,
+): ProductDraft => {
+  const values = new Map<DraftField, string[]>();
+  headers.forEach((header, index) => {
+    const field = mapping[normalizeCsvHeader(header)];
+    const value = cells[index]?.trim();
+    if (!field || field === "ignore" || !value) {
+      return;
+    }
+    values.set(field, [...(values.get(field) ?? []), value]);
+  });
+
+  return Object.fromEntries(
+    DRAFT_FIELDS.map((field) => {
+      const parts = values.get(field);
+      let value = parts ? parts.join(LIST_SEPARATORS[field] ?? " ") : "";
+      // Keywords are comma separated in the draft, but spreadsheet cells and JSON arrays often put one per line.
+      if (field === "keywords") {
+        value = value.replace(/\s*\n\s*/g, ", ");
+      }
+      return [field, value || defaults[field] || ""];
+    }),
+  ) as ProductDraft;
+};
@@ -0,0 +1,144 @@
+import { CsvRow, parseCsvBlob } from "./csv";
+import { readXlsx } from "./xlsx";
+
+export type ImportFormat = "csv" | "xlsx" | "json" | "ndjson";
+
+/** Every source format is reduced to a header row plus data rows tagged with where they came from in the file. */
+export type ImportTable = {
+  headers: string[];
+  rows: CsvRow[];
+};
+
+export type ImportSource = ImportTable & {
+  format: ImportFormat;
+  /** Workbook sheets, for XLSX files only. */
+  sheetNames?: string[];
+  sheet?: string;
+};
+
+export class ImportSourceError extends Error {}
+
+export const IMPORT_FILE_ACCEPT =
+  ".csv,.tsv,.txt,.xlsx,.json,.ndjson,.jsonl,text/csv,text/tab-separated-values,application/json,application/x-ndjson,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+export const detectImportFormat = (file: File): ImportFormat => {
+  const name = file.name.toLowerCase();
+  if (name.endsWith(".xlsx") || file.type.includes("spreadsheetml")) {
+    return "xlsx";
+  }
+  if (name.endsWith(".ndjson") || name.endsWith(".jsonl") || file.type.includes("ndjson")) {
+    return "ndjson";
+  }
+  if (name.endsWith(".json") || file.type === "application/json") {
+    return "json";
+  }
+  return "csv";
+};
+
+const toCell = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  if (Array.isArray(value)) {
+    return value.map(toCell).filter(Boolean).join("\n");
+  }
+  if (typeof value === "object") {
+    return JSON.stringify(value);
+  }
+  return String(value).trim();
+};
+
+/** Headers are the union of record keys in first-seen order, so sparse ERP exports still line up. */
+const recordsToTable = (records: { line: number; record: Record<string, unknown> }[]): ImportTable => {
+  const headers: string[] = [];
+  const seen = new Set<string>();
+  records.forEach(({ record }) => {
+    Object.keys(record).forEach((key) => {
+      if (!seen.has(key)) {
+        seen.add(key);
+        headers.push(key);
+      }
+    });
+  });
+  return {
+    headers,
+    rows: records.map(({ line, record }) => ({ line, cells: headers.map((header) => toCell(record[header])) })),
+  };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+/** Accepts a top-level array, or an object wrapping one under `products`, `items` or `data`. */
+export const parseJsonCatalog = (text: string): ImportTable => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new ImportSourceError(`Invalid JSON: ${error instanceof Error ? error.message : "parse error"}`);
+  }
+  const list = Array.isArray(parsed)
+    ? parsed
+    : isRecord(parsed)
+      ? [parsed.products, parsed.items, parsed.data].find(Array.isArray)
+      : undefined;
+  if (!list) {
+    throw new ImportSourceError("JSON must be an array of products or an object with a products array.");
+  }
+  const records = list.flatMap((record, index) => (isRecord(record) ? [{ line: index + 1, record }] : []));
+  return recordsToTable(records);
+};
+
+export const parseNdjsonCatalog = (text: string): ImportTable => {
+  const records: { line: number; record: Record<string, unknown> }[] = [];
+  text.split(/\r?\n/).forEach((source, index) => {
+    if (!source.trim()) {
+      return;
+    }
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(source);
+    } catch {
+      throw new ImportSourceError(`Line ${index + 1} is not valid JSON.`);
+    }
+    if (!isRecord(parsed)) {
+      throw new ImportSourceError(`Line ${index + 1} is not a JSON object.`);
+    }
+    records.push({ line: index + 1, record: parsed });
+  });
+  return recordsToTable(records);
+};
+
+const splitHeader = (rows: CsvRow[]): ImportTable => {
+  const [header, ...records] = rows;
+  return { headers: header?.cells ?? [], rows: records };
+};
+
+/** Reads any supported file into a table. For workbooks, `sheet` picks the sheet; the first one is the default. */
+export const readImportFile = async (file: File, sheet?: string): Promise<ImportSource> => {
+  const format = detectImportFormat(file);
+  if (format === "xlsx") {
+    const workbook = await readXlsx(file);
+    const selected = sheet && workbook.sheetNames.includes(sheet) ? sheet : workbook.sheetNames[0];
+    if (!selected) {
+      throw new ImportSourceError("The workbook has no sheets.");
+    }
+    return {
+      format,
+      ...splitHeader(await workbook.readSheet(selected)),
+      sheetNames: workbook.sheetNames,
+      sheet: selected,
+    };
+  }
+  if (format === "json") {
+    return { format, ...parseJsonCatalog(await file.text()) };
+  }
+  if (format === "ndjson") {
+    return { format, ...parseNdjsonCatalog(await file.text()) };
+  }
+  const rows: CsvRow[] = [];
+  await parseCsvBlob(file, (chunk) => {
+    rows.push(...chunk);
+  });
+  return { format, ...splitHeader(rows) };
+};
@@ -0,0 +1,129 @@
+export type AgentMode = "simulate" | "live" | "sandbox";
+
+export const AGENT_MODES: AgentMode[] = ["simulate", "live", "sandbox"];
+
+export type ListingOperation = "create" | "update" | "delete";
+
+export type AgentSettings = {
+  profileId?: string;
+  apiKey?: string;
+  sellerId?: string;
+  baseUrl?: string;
+  mode?: AgentMode;
+};
+
+export type ProductDraft = {
+  sku: string;
+  title: string;
+  category: string;
+  price: string;
+  currency: string;
+  unit: string;
+  stock: string;
+  minOrderQty: string;
+  keywords: string;
+  imageUrls: string;
+  shortDescription: string;
+  description: string;
+  features: string;
+  packaging: string;
+  leadTime: string;
+};
+
+export type ProductPayload = {
+  sku?: string;
+  title: string;
+  category?: string;
+  price?: string;
+  currency?: string;
+  unit?: string;
+  stock?: string;
+  minOrderQty?: string;
+  keywords?: string[];
+  imageUrls?: string[];
+  shortDescription?: string;
+  description?: string;
+  features?: string[];
+  packaging?: string;
+  leadTime?: string;
+};
+
+export const DEFAULT_ENDPOINT = "https://sellerapi.indiamart.com/catalog/v1/product/add";
+
+/** Token accepted by the bundled mock catalog unless `MOCK_INDIAMART_TOKENS` says otherwise. */
+export const SANDBOX_TOKEN = "sandbox-token";
+
+/**
+ * The configured endpoint points at the `add` operation; update and delete live next to it. Endpoints without an
+ * `/add` suffix are used as-is for every operation and rely on `PRODUCT_ID` in the payload.
+ */
+export const resolveEndpoint = (baseUrl: string, operation: ListingOperation) =>
+  operation === "create" ? baseUrl : baseUrl.replace(/\/add\/?$/, `/${operation}`);
+
+export const normalizeProduct = (product: ProductDraft): ProductPayload => {
+  const features = product.features
+    .split("\n")
+    .map((feature) => feature.trim())
+    .filter(Boolean);
+
+  const imageUrls = product.imageUrls
+    .split("\n")
+    .map((url) => url.trim())
+    .filter(Boolean);
+
+  const keywords = product.keywords
+    .split(",")
+    .map((keyword) => keyword.trim())
+    .filter(Boolean);
+
+  return {
+    ...product,
+    features,
+    imageUrls,
+    keywords,
+  };
+};
+
+export const buildIndiaMartPayload = (product: ProductPayload, settings: AgentSettings) => {
+  const featuresText = product.features?.join("|") ?? "";
+  return {
+    ITEM_CODE: product.sku ?? "",
+    PRODUCT_NAME: product.title,
+    SELLER_ID: settings.sellerId ?? "",
+    CURRENCY_TYPE: product.currency ?? "INR",
+    YOUR_PRICE: product.price ?? "",
+    UNIT: product.unit ?? "",
+    MIN_ORDER_QUANTITY: product.minOrderQty ?? "",
+    PACKAGE_DETAILS: product.packaging ?? "",
+    SUPPLY_ABILITY: product.stock ?? "",
+    DELIVERY_TIME: product.leadTime ?? "",
+    SHORT_DESC: product.shortDescription ?? "",
+    LONG_DESC: product.description ?? "",
+    KEY_FEATURES: featuresText,
+    KEYWORDS: product.keywords?.join(",") ?? "",
+    // Images past the third have no column; `validateWarnings` reports them instead of dropping them silently.
+    IMAGE1: product.imageUrls?.[0] ?? "",
+    IMAGE2: product.imageUrls?.[1] ?? "",
+    IMAGE3: product.imageUrls?.[2] ?? "",
+    CATEGORY: product.category ?? "",
+  };
+};
+
+export const buildIndiaMartDeletePayload = (productId: string, settings: AgentSettings) => ({
+  PRODUCT_ID: productId,
+  SELLER_ID: settings.sellerId ?? "",
+});
+
+/** The body sent for an operation: updates are the full product plus the listing's `PRODUCT_ID`. */
+export const buildOperationPayload = (
+  product: ProductPayload,
+  settings: AgentSettings,
+  operation: ListingOperation,
+  productId?: string,
+): Record<string, string> =>
+  operation === "delete"
+    ? buildIndiaMartDeletePayload(productId ?? "", settings)
+    : {
+        ...buildIndiaMartPayload(product, settings),
+        ...(operation === "update" ? { PRODUCT_ID: productId ?? "" } : {}),
+      };
@@ -0,0 +1,186 @@
+import { AgentMode, AgentSettings, ListingOperation, ProductDraft } from "./indiamart";
+import { PriceCalculation } from "./pricing";
+
+export type JobState = "queued" | "running" | "succeeded" | "failed";
+
+export type FailureKind = "validation" | "upstream" | "network";
+
+/** Queued jobs upload highest priority first, and in queue order within a priority. */
+export type JobPriority = "high" | "normal" | "low";
+
+export type UploadJob = {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  state: JobState;
+  operation: ListingOperation;
+  product: ProductDraft;
+  productId?: string;
+  batchId?: string;
+  /** Profile and mode for this job alone, e.g. a batch API item; other jobs use the agent's settings. */
+  settings?: AgentSettings;
+  /** Set when a pricing rule turned the imported cost into `product.price`. */
+  pricing?: PriceCalculation;
+  /** Missing means normal. */
+  priority?: JobPriority;
+  /** A held job stays in the queue but is skipped until it is released. */
+  held?: boolean;
+  attempts: number;
+  startedAt?: number;
+  finishedAt?: number;
+  nextAttemptAt?: number;
+  failureKind?: FailureKind;
+  result?: unknown;
+  error?: string;
+};
+
+export type RetryPolicy = {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+};
+
+/** How many uploads run at once and how many may start per window. A rate of 0 means no limit for that window. */
+export type ThroughputPolicy = {
+  concurrency: number;
+  perSecond: number;
+  perMinute: number;
+  perDay: number;
+};
+
+export type RateWindow = "second" | "minute" | "day";
+
+export type RateQuota = {
+  limit: number;
+  remaining: number;
+};
+
+export type ThroughputStatus = {
+  activeUploads: number;
+  completedLastMinute: number;
+  /** Only windows with a limit are present. */
+  quota: Partial<Record<RateWindow, RateQuota>>;
+  /** Set while uploads are held back after IndiaMART answered 429 or sent `Retry-After`. */
+  blockedUntil?: number;
+};
+
+export type QueueProgress = {
+  counts: Record<JobState, number>;
+  /** Queued jobs on hold; counted in `counts.queued` but left out of the ETA. */
+  held: number;
+  /** Jobs being uploaded right now. */
+  current: { id: string; title: string; sku: string; attempts: number; startedAt?: number }[];
+  /** Time left at the pace of the last minute; null until something has finished in that window. */
+  etaMs: number | null;
+};
+
+export type AgentStatus = {
+  running: boolean;
+  mode: AgentMode;
+  profileId?: string;
+  retryPolicy: RetryPolicy;
+  throughput: ThroughputPolicy;
+  updatedAt: number;
+};
+
+export type QueueSnapshot = {
+  jobs: UploadJob[];
+  agent: AgentStatus;
+  rate: ThroughputStatus;
+  progress: QueueProgress;
+};
+
+/** Changes made to several queued items at once from the queue panel. */
+export type QueueEdit = {
+  priority?: JobPriority;
+  held?: boolean;
+  category?: string;
+  /** Replaces every occurrence of `find` in the title, matching case. */
+  titleReplace?: { find: string; replace: string };
+};
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 2000,
+  maxDelayMs: 60000,
+};
+
+export const DEFAULT_THROUGHPUT_POLICY: ThroughputPolicy = {
+  concurrency: 2,
+  perSecond: 2,
+  perMinute: 60,
+  perDay: 0,
+};
+
+export const MAX_CONCURRENCY = 8;
+
+export const JOB_STATES: JobState[] = ["queued", "running", "succeeded", "failed"];
+
+export const JOB_PRIORITIES: JobPriority[] = ["high", "normal", "low"];
+
+export const PRIORITY_LABELS: Record<JobPriority, string> = {
+  high: "High",
+  normal: "Normal",
+  low: "Low",
+};
+
+export const isPendingJob = (job: UploadJob) => job.state === "queued" || job.state === "running";
+
+/** The order the worker takes pending jobs in: uploading first, then by priority, then by queue position. */
+export const sortQueue = (jobs: UploadJob[]) => {
+  const rank = (job: UploadJob) => (job.state === "running" ? -1 : JOB_PRIORITIES.indexOf(job.priority ?? "normal"));
+  return [...jobs].sort((a, b) => rank(a) - rank(b));
+};
+
+/** The product side of a queue edit; priority and hold are job fields. */
+export const applyQueueEdit = (product: ProductDraft, edit: QueueEdit): ProductDraft => ({
+  ...product,
+  ...(edit.category !== undefined ? { category: edit.category.trim() } : {}),
+  ...(edit.titleReplace?.find
+    ? { title: product.title.split(edit.titleReplace.find).join(edit.titleReplace.replace).trim() }
+    : {}),
+});
+
+const pick = (value: unknown, fallback: number, minimum: number) =>
+  typeof value === "number" && Number.isFinite(value) ? Math.max(minimum, Math.floor(value)) : fallback;
+
+export const normalizeRetryPolicy = (policy?: Partial<RetryPolicy>): RetryPolicy => ({
+  maxAttempts: pick(policy?.maxAttempts, DEFAULT_RETRY_POLICY.maxAttempts, 1),
+  baseDelayMs: pick(policy?.baseDelayMs, DEFAULT_RETRY_POLICY.baseDelayMs, 0),
+  maxDelayMs: pick(policy?.maxDelayMs, DEFAULT_RETRY_POLICY.maxDelayMs, 0),
+});
+
+/** Exponential backoff: base, 2×base, 4×base … capped at `maxDelayMs`. */
+export const retryDelay = (policy: RetryPolicy, attempts: number) =>
+  Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** Math.max(0, attempts - 1));
+
+export const normalizeThroughputPolicy = (policy?: Partial<ThroughputPolicy>): ThroughputPolicy => ({
+  concurrency: Math.min(MAX_CONCURRENCY, pick(policy?.concurrency, DEFAULT_THROUGHPUT_POLICY.concurrency, 1)),
+  perSecond: pick(policy?.perSecond, DEFAULT_THROUGHPUT_POLICY.perSecond, 0),
+  perMinute: pick(policy?.perMinute, DEFAULT_THROUGHPUT_POLICY.perMinute, 0),
+  perDay: pick(policy?.perDay, DEFAULT_THROUGHPUT_POLICY.perDay, 0),
+});
+
+export const summarizeProgress = (jobs: UploadJob[], completedLastMinute: number): QueueProgress => {
+  const counts = Object.fromEntries(JOB_STATES.map((state) => [state, 0])) as Record<JobState, number>;
+  jobs.forEach((job) => {
+    counts[job.state] += 1;
+  });
+  const held = jobs.filter((job) => job.state === "queued" && job.held).length;
+  const remaining = counts.queued + counts.running - held;
+  return {
+    counts,
+    held,
+    current: jobs
+      .filter((job) => job.state === "running")
+      .map((job) => ({
+        id: job.id,
+        title: job.product.title,
+        sku: job.product.sku,
+        attempts: job.attempts,
+        startedAt: job.startedAt,
+      })),
+    etaMs:
+      remaining === 0 ? 0 : completedLastMinute > 0 ? Math.round((remaining * 60_000) / completedLastMinute) : null,
+  };
+};
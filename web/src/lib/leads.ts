@@ -0,0 +1,185 @@
+import { ListingEnvironment, ListingRecord } from "./listings";
+
+export type LeadStatus = "new" | "contacted" | "quoted" | "won" | "lost";
+
+export type LeadBuyer = {
+  name: string;
+  company: string;
+  mobile: string;
+  email: string;
+  city: string;
+  state: string;
+};
+
+/** The listing we uploaded that an enquiry is about, found by its product name. */
+export type LeadListing = {
+  sku: string;
+  productId: string;
+  title: string;
+};
+
+/** A buyer enquiry pulled from IndiaMART's Lead Manager API. `queryId` is IndiaMART's UNIQUE_QUERY_ID. */
+export type Lead = {
+  id: string;
+  profileId: string;
+  environment: ListingEnvironment;
+  queryId: string;
+  queryType: string;
+  receivedAt: number;
+  buyer: LeadBuyer;
+  subject: string;
+  productName: string;
+  category: string;
+  message: string;
+  listing?: LeadListing;
+  /** An earlier enquiry from the same buyer about the same product; the inbox marks this one as a repeat. */
+  duplicateOf?: string;
+  status: LeadStatus;
+  note: string;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type LeadUpdate = {
+  status?: LeadStatus;
+  note?: string;
+};
+
+export type LeadQuery = {
+  status?: LeadStatus;
+  profileId?: string;
+  /** Matches the buyer, product, subject and message. */
+  q?: string;
+};
+
+/** Pull settings for one seller profile. Sandbox pulls from the bundled mock with the sandbox token. */
+export type LeadSource = {
+  profileId: string;
+  enabled: boolean;
+  environment: ListingEnvironment;
+  /** End of the last window pulled successfully; the next pull carries on from there. */
+  pulledUntil?: number;
+  lastPullAt?: number;
+  lastAdded?: number;
+  lastError?: string;
+};
+
+export type LeadSourceInput = {
+  enabled?: boolean;
+  environment?: ListingEnvironment;
+};
+
+/** One entry of the `RESPONSE` array returned by crmListing/v2. */
+export type IndiaMartLeadRecord = {
+  UNIQUE_QUERY_ID: string;
+  QUERY_TYPE?: string;
+  /** "2024-01-15 10:30:12", in IST. */
+  QUERY_TIME: string;
+  SENDER_NAME?: string;
+  SENDER_MOBILE?: string;
+  SENDER_EMAIL?: string;
+  SENDER_COMPANY?: string;
+  SENDER_CITY?: string;
+  SENDER_STATE?: string;
+  SUBJECT?: string;
+  QUERY_PRODUCT_NAME?: string;
+  QUERY_MESSAGE?: string;
+  QUERY_MCAT_NAME?: string;
+};
+
+export const LEAD_STATUSES: LeadStatus[] = ["new", "contacted", "quoted", "won", "lost"];
+
+export const LEAD_STATUS_LABELS: Record<LeadStatus, string> = {
+  new: "New",
+  contacted: "Contacted",
+  quoted: "Quoted",
+  won: "Won",
+  lost: "Lost",
+};
+
+/** IndiaMART asks integrators to call the lead API no more than once every five minutes per key. */
+export const LEAD_PULL_INTERVAL_MS = 5 * 60_000;
+
+/** The longest window the API accepts in one call. */
+export const LEAD_WINDOW_MAX_MS = 7 * 24 * 60 * 60_000;
+
+/** Repeat enquiries from one buyer about one product within this window point back to the first. */
+export const DUPLICATE_WINDOW_MS = 7 * 24 * 60 * 60_000;
+
+const IST_OFFSET_MS = 330 * 60_000;
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const istParts = (time: number) => {
+  const date = new Date(time + IST_OFFSET_MS);
+  return {
+    date: `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`,
+    day: pad(date.getUTCDate()),
+    month: MONTHS[date.getUTCMonth()],
+    year: date.getUTCFullYear(),
+    clock: `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`,
+  };
+};
+
+const fromIst = (year: number, month: number, day: number, hours: number, minutes: number, seconds: number) =>
+  Date.UTC(year, month, day, hours, minutes, seconds) - IST_OFFSET_MS;
+
+/** The API's `start_time` / `end_time` format, in IST with no space before the time: 15-Jan-202410:30:00. */
+export const formatLeadApiTime = (time: number) => {
+  const parts = istParts(time);
+  return `${parts.day}-${parts.month}-${parts.year}${parts.clock}`;
+};
+
+export const parseLeadApiTime = (value: string) => {
+  const match = /^(\d{2})-([A-Za-z]{3})-(\d{4})(\d{2}):(\d{2}):(\d{2})$/.exec(value.trim());
+  const month = match ? MONTHS.findIndex((item) => item.toLowerCase() === match[2].toLowerCase()) : -1;
+  if (!match || month === -1) {
+    return NaN;
+  }
+  return fromIst(Number(match[3]), month, Number(match[1]), Number(match[4]), Number(match[5]), Number(match[6]));
+};
+
+export const formatQueryTime = (time: number) => {
+  const parts = istParts(time);
+  return `${parts.date} ${parts.clock}`;
+};
+
+export const parseQueryTime = (value: string) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/.exec(value.trim());
+  if (!match) {
+    return NaN;
+  }
+  const [year, month, day, hours, minutes, seconds] = match.slice(1).map(Number);
+  return fromIst(year, month - 1, day, hours, minutes, seconds);
+};
+
+const normalizeName = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+/** Mobile numbers arrive as "+91-9876543210" or "9876543210"; the last ten digits identify the buyer. */
+export const contactKeys = (buyer: LeadBuyer) =>
+  [buyer.mobile.replace(/\D/g, "").slice(-10), buyer.email.trim().toLowerCase()].filter(Boolean);
+
+export const sameProduct = (a: string, b: string) => normalizeName(a) !== "" && normalizeName(a) === normalizeName(b);
+
+/**
+ * The listing an enquiry is about: an exact title match, else the longest title contained in the product name (or
+ * the other way round), since IndiaMART sometimes appends the buyer's spec to the name.
+ */
+export const matchListing = (productName: string, listings: ListingRecord[]): LeadListing | undefined => {
+  const name = normalizeName(productName);
+  if (!name) {
+    return undefined;
+  }
+  const candidates = listings
+    .map((listing) => ({ listing, title: normalizeName(listing.title) }))
+    .filter(({ title }) => title && (title === name || name.includes(title) || title.includes(name)))
+    .sort((a, b) => Number(b.title === name) - Number(a.title === name) || b.title.length - a.title.length);
+  const match = candidates[0]?.listing;
+  return match ? { sku: match.sku, productId: match.productId, title: match.title } : undefined;
+};
@@ -0,0 +1,62 @@
+import { DRAFT_FIELDS, DraftField } from "./importMapping";
+import { ProductDraft } from "./indiamart";
+
+export type ProductVersion = {
+  version: number;
+  draft: ProductDraft;
+  savedAt: number;
+};
+
+export type LibraryProduct = {
+  id: string;
+  versions: ProductVersion[];
+  createdAt: number;
+  updatedAt: number;
+};
+
+/** What the library list shows: the latest version only, so search results stay small. */
+export type LibrarySummary = {
+  id: string;
+  latest: ProductVersion;
+  versionCount: number;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type LibraryQuery = {
+  q?: string;
+  category?: string;
+  keyword?: string;
+};
+
+export type DraftChange = {
+  field: DraftField;
+  before: string;
+  after: string;
+};
+
+export const latestVersion = (product: LibraryProduct) => product.versions[product.versions.length - 1];
+
+export const diffDrafts = (before: ProductDraft, after: ProductDraft): DraftChange[] =>
+  DRAFT_FIELDS.filter((field) => (before[field] ?? "") !== (after[field] ?? "")).map((field) => ({
+    field,
+    before: before[field] ?? "",
+    after: after[field] ?? "",
+  }));
+
+const contains = (value: string, needle: string) => value.toLowerCase().includes(needle.toLowerCase());
+
+/** `q` matches title, SKU, category or keywords; `category` and `keyword` narrow on those fields alone. */
+export const matchesQuery = (draft: ProductDraft, query: LibraryQuery) => {
+  const q = query.q?.trim();
+  const category = query.category?.trim();
+  const keyword = query.keyword?.trim();
+  const keywords = draft.keywords.split(",").map((item) => item.trim());
+  if (q && ![draft.title, draft.sku, draft.category, draft.keywords].some((value) => contains(value, q))) {
+    return false;
+  }
+  if (category && !contains(draft.category, category)) {
+    return false;
+  }
+  return !keyword || keywords.some((item) => contains(item, keyword));
+};
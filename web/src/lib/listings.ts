@@ -0,0 +1,16 @@
+export type ListingEnvironment = "live" | "sandbox";
+
+/** Listings are tracked per environment and seller profile so sandbox IDs never leak into live upserts. */
+export type ListingScope = {
+  environment: ListingEnvironment;
+  profileId?: string;
+};
+
+export type ListingRecord = ListingScope & {
+  sku: string;
+  productId: string;
+  title: string;
+  sellerId?: string;
+  createdAt: number;
+  updatedAt: number;
+};
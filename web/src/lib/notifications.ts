@@ -0,0 +1,85 @@
+export type NotificationEvent = "queue.completed" | "job.failed" | "credentials.rejected";
+
+export type SmtpSecurity = "tls" | "starttls" | "none";
+
+export type NotifiedProduct = {
+  jobId: string;
+  sku: string;
+  title: string;
+  productId?: string;
+  error?: string;
+};
+
+/** Body of every webhook; the email is a plain-text rendering of the same data. */
+export type NotificationPayload = {
+  event: NotificationEvent;
+  timestamp: number;
+  summary: string;
+  profileId?: string;
+  mode?: string;
+  succeeded: NotifiedProduct[];
+  failed: NotifiedProduct[];
+  /** The IndiaMART status behind a `credentials.rejected` event. */
+  upstreamStatus?: number;
+};
+
+export type WebhookTarget = {
+  id: string;
+  url: string;
+  hasSecret: boolean;
+};
+
+export type EmailSettings = {
+  host: string;
+  port: number;
+  security: SmtpSecurity;
+  username: string;
+  hasPassword: boolean;
+  from: string;
+  to: string[];
+};
+
+/** What the browser sees: secrets are reduced to `hasSecret` / `hasPassword`. */
+export type NotificationSettings = {
+  events: Record<NotificationEvent, boolean>;
+  webhooks: WebhookTarget[];
+  email: EmailSettings | null;
+  updatedAt: number;
+};
+
+/** Omit a secret or password to keep the stored one, send an empty string to clear it. */
+export type NotificationSettingsInput = {
+  events?: Partial<Record<NotificationEvent, boolean>>;
+  webhooks?: { id?: string; url: string; secret?: string }[];
+  email?: (Omit<EmailSettings, "hasPassword" | "to"> & { to: string[] | string; password?: string }) | null;
+};
+
+export const NOTIFICATION_EVENTS: NotificationEvent[] = ["queue.completed", "job.failed", "credentials.rejected"];
+
+export const NOTIFICATION_EVENT_LABELS: Record<NotificationEvent, string> = {
+  "queue.completed": "Queue finished",
+  "job.failed": "Products failed",
+  "credentials.rejected": "IndiaMART rejected the credentials (401/403)",
+};
+
+const describeProduct = (product: NotifiedProduct) =>
+  `- ${product.title || "Untitled product"}${product.sku ? ` (SKU ${product.sku})` : ""}${
+    product.productId ? ` · IndiaMART ID ${product.productId}` : ""
+  }${product.error ? `: ${product.error}` : ""}`;
+
+export const renderNotificationText = (payload: NotificationPayload) => {
+  const sections = [
+    payload.summary,
+    payload.failed.length
+      ? `Failed (${payload.failed.length}):\n${payload.failed.map(describeProduct).join("\n")}`
+      : "",
+    payload.succeeded.length
+      ? `Succeeded (${payload.succeeded.length}):\n${payload.succeeded.map(describeProduct).join("\n")}`
+      : "",
+    `Event: ${payload.event} · ${new Date(payload.timestamp).toISOString()}${payload.mode ? ` · mode ${payload.mode}` : ""}`,
+  ];
+  return sections.filter(Boolean).join("\n\n");
+};
+
+export const notificationSubject = (payload: NotificationPayload) =>
+  `[IndiaMART agent] ${NOTIFICATION_EVENT_LABELS[payload.event]}: ${payload.summary}`;
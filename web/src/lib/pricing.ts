@@ -0,0 +1,220 @@
+import { ProductDraft } from "./indiamart";
+
+/** Price points to round up to: the next whole rupee, or the next price ending in 9 or 99 (₹x99). */
+export type PriceRounding = "none" | "whole" | "x9" | "x99";
+
+/** Listings whose minimum order quantity reaches `minQty` get `discountPercent` off the marked-up price. */
+export type PriceTier = {
+  minQty: number;
+  discountPercent: number;
+};
+
+/**
+ * Turns a supplier's cost price into the listed price. A rule with no categories applies to every category and one
+ * without a profile to every seller profile.
+ */
+export type PricingRule = {
+  id: string;
+  name: string;
+  categories: string[];
+  profileId?: string;
+  markupPercent: number;
+  /** Added after the percentage markup, in the rule's currency. */
+  markupFixed: number;
+  currency: string;
+  rounding: PriceRounding;
+  floor?: number;
+  ceiling?: number;
+  tiers: PriceTier[];
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type PricingRuleInput = {
+  name?: string;
+  categories?: string[];
+  profileId?: string | null;
+  markupPercent?: number;
+  markupFixed?: number;
+  currency?: string;
+  rounding?: PriceRounding;
+  floor?: number | null;
+  ceiling?: number | null;
+  tiers?: PriceTier[];
+};
+
+/** How many rupees one unit of each currency is worth, maintained by hand. INR itself is always 1. */
+export type ExchangeRates = {
+  rates: Record<string, number>;
+  updatedAt: number;
+};
+
+/** Kept on the queued job so the queue can show where the price came from and a rule change can reprice it. */
+export type PriceCalculation = {
+  ruleId: string;
+  ruleName: string;
+  cost: string;
+  costCurrency: string;
+  price: string;
+  currency: string;
+  tier?: PriceTier;
+  steps: string[];
+};
+
+export class PricingError extends Error {}
+
+export const BASE_CURRENCY = "INR";
+
+export const PRICE_ROUNDINGS: PriceRounding[] = ["none", "whole", "x9", "x99"];
+
+export const ROUNDING_LABELS: Record<PriceRounding, string> = {
+  none: "No rounding",
+  whole: "Whole rupees",
+  x9: "Ending in 9",
+  x99: "Ending in 99 (₹x99)",
+};
+
+const sameCategory = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const toCents = (value: number) => Math.round(value * 100) / 100;
+
+export const formatPrice = (amount: number | string, currency: string) => {
+  const value = Number(amount);
+  try {
+    return new Intl.NumberFormat("en-IN", { style: "currency", currency, maximumFractionDigits: 2 }).format(value);
+  } catch {
+    return `${currency} ${value.toFixed(2)}`;
+  }
+};
+
+/**
+ * The most specific rule for the product: one naming both its category and the seller profile, then category only,
+ * then profile only, then a catch-all. Ties go to the rule created first.
+ */
+export const ruleForProduct = (rules: PricingRule[], category: string, profileId?: string) => {
+  const score = (rule: PricingRule) => {
+    const categoryMatch = rule.categories.some((item) => sameCategory(item, category));
+    if ((rule.categories.length && !categoryMatch) || (rule.profileId && rule.profileId !== profileId)) {
+      return -1;
+    }
+    return (categoryMatch ? 2 : 0) + (rule.profileId ? 1 : 0);
+  };
+  return (
+    rules
+      .map((rule) => ({ rule, score: score(rule) }))
+      .filter((item) => item.score >= 0)
+      .sort((a, b) => b.score - a.score || a.rule.createdAt - b.rule.createdAt)[0]?.rule ?? null
+  );
+};
+
+export const roundPrice = (value: number, rounding: PriceRounding) => {
+  // Rounded to paise first, so float noise such as 1299.0000001 does not jump to the next price point.
+  const cents = toCents(value);
+  switch (rounding) {
+    case "whole":
+      return Math.ceil(cents);
+    case "x9":
+      return Math.ceil((cents + 1) / 10) * 10 - 1;
+    case "x99":
+      return Math.ceil((cents + 1) / 100) * 100 - 1;
+    default:
+      return cents;
+  }
+};
+
+export const convertCurrency = (amount: number, from: string, to: string, rates: ExchangeRates) => {
+  const rate = (currency: string) => (currency === BASE_CURRENCY ? 1 : rates.rates[currency]);
+  const fromRate = rate(from);
+  const toRate = rate(to);
+  if (!fromRate || !toRate) {
+    throw new PricingError(`No exchange rate for ${fromRate ? to : from}; add it to the exchange-rate table.`);
+  }
+  return (amount * fromRate) / toRate;
+};
+
+/** Conversion, markup, MOQ tier, rounding, then floor and ceiling, so the limits are never rounded past. */
+export const calculatePrice = (
+  cost: string,
+  costCurrency: string,
+  minOrderQty: string,
+  rule: PricingRule,
+  rates: ExchangeRates,
+): PriceCalculation => {
+  const amount = Number(cost);
+  if (!cost.trim() || !Number.isFinite(amount)) {
+    throw new PricingError(`Cost price "${cost}" is not a number.`);
+  }
+  const from = costCurrency.trim().toUpperCase() || BASE_CURRENCY;
+  const steps: string[] = [];
+
+  let price = convertCurrency(amount, from, rule.currency, rates);
+  if (from !== rule.currency) {
+    steps.push(`${formatPrice(amount, from)} → ${formatPrice(price, rule.currency)}`);
+  }
+  if (rule.markupPercent) {
+    price *= 1 + rule.markupPercent / 100;
+    steps.push(`${rule.markupPercent > 0 ? "+" : ""}${rule.markupPercent}%`);
+  }
+  if (rule.markupFixed) {
+    price += rule.markupFixed;
+    steps.push(`${rule.markupFixed > 0 ? "+" : "−"}${formatPrice(Math.abs(rule.markupFixed), rule.currency)}`);
+  }
+  const quantity = Number(minOrderQty);
+  const tier = [...rule.tiers]
+    .sort((a, b) => b.minQty - a.minQty)
+    .find((item) => Number.isFinite(quantity) && quantity >= item.minQty);
+  if (tier) {
+    price *= 1 - tier.discountPercent / 100;
+    steps.push(`−${tier.discountPercent}% for MOQ ${tier.minQty}+`);
+  }
+  const rounded = roundPrice(price, rule.rounding);
+  if (rule.rounding !== "none") {
+    steps.push(ROUNDING_LABELS[rule.rounding].toLowerCase());
+  }
+  price = rounded;
+  if (rule.floor !== undefined && price < rule.floor) {
+    price = rule.floor;
+    steps.push(`raised to the ${formatPrice(rule.floor, rule.currency)} floor`);
+  }
+  if (rule.ceiling !== undefined && price > rule.ceiling) {
+    price = rule.ceiling;
+    steps.push(`capped at the ${formatPrice(rule.ceiling, rule.currency)} ceiling`);
+  }
+
+  return {
+    ruleId: rule.id,
+    ruleName: rule.name,
+    cost: cost.trim(),
+    costCurrency: from,
+    price: String(toCents(price)),
+    currency: rule.currency,
+    ...(tier ? { tier } : {}),
+    steps,
+  };
+};
+
+/**
+ * Prices a draft with the rule that fits it. `previous` is the calculation stored with a queued job, so repricing
+ * starts again from the original cost instead of compounding the markup. Drafts without a price or a matching rule
+ * keep (or go back to) their cost price.
+ */
+export const priceDraft = (
+  draft: ProductDraft,
+  rules: PricingRule[],
+  rates: ExchangeRates,
+  profileId?: string,
+  previous?: PriceCalculation,
+): { draft: ProductDraft; pricing?: PriceCalculation } => {
+  const rule = ruleForProduct(rules, draft.category, profileId);
+  if (!rule || !(previous?.cost ?? draft.price).trim()) {
+    return previous ? { draft: { ...draft, price: previous.cost, currency: previous.costCurrency } } : { draft };
+  }
+  const pricing = calculatePrice(
+    previous?.cost ?? draft.price,
+    previous?.costCurrency ?? draft.currency,
+    draft.minOrderQty,
+    rule,
+    rates,
+  );
+  return { draft: { ...draft, price: pricing.price, currency: pricing.currency }, pricing };
+};
@@ -0,0 +1,27 @@
+import { AgentMode } from "./indiamart";
+
+/** What the browser is allowed to see of a seller profile: never the auth key itself. */
+export type SellerProfile = {
+  id: string;
+  name: string;
+  sellerId: string;
+  baseUrl: string;
+  defaultMode: AgentMode;
+  hasKey: boolean;
+  keyHint?: string;
+  /** Whether a Lead Manager CRM key is stored, so buyer enquiries can be pulled for this seller. */
+  hasLeadKey: boolean;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type SellerProfileInput = {
+  name?: string;
+  sellerId?: string;
+  baseUrl?: string;
+  defaultMode?: AgentMode;
+  /** Omit to keep the stored key, send an empty string to clear it. */
+  apiKey?: string;
+  /** The seller's IndiaMART Lead Manager CRM key; omit to keep, empty string to clear. */
+  leadKey?: string;
+};
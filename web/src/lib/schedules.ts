@@ -0,0 +1,133 @@
+import { AgentMode } from "./indiamart";
+
+/** Repeats on the given weekdays (0 = Sunday) at a wall-clock time in `timeZone`. */
+export type ScheduleRecurrence = {
+  days: number[];
+  time: string;
+  timeZone: string;
+};
+
+/**
+ * Starts the agent with a seller profile at a set time. One-off schedules have `runAt`; recurring ones have
+ * `recurrence`. `nextRunAt` is null once a one-off schedule has run.
+ */
+export type PublishSchedule = {
+  id: string;
+  profileId?: string;
+  mode: AgentMode;
+  runAt?: number;
+  recurrence?: ScheduleRecurrence;
+  nextRunAt: number | null;
+  lastRunAt?: number;
+  lastOutcome?: string;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type PublishScheduleInput = {
+  profileId?: string;
+  mode?: AgentMode;
+  runAt?: number;
+  recurrence?: Partial<ScheduleRecurrence>;
+};
+
+export const DEFAULT_TIME_ZONE = "Asia/Kolkata";
+
+export const WEEKDAYS = [1, 2, 3, 4, 5];
+
+export const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const DAY_MS = 86_400_000;
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const parseTime = (time: string) => {
+  const match = /^([01]?\d|2[0-3]):([0-5]\d)$/.exec(time.trim());
+  return match ? { hour: Number(match[1]), minute: Number(match[2]) } : null;
+};
+
+/** Calendar date and wall-clock time of an instant in a time zone. */
+const zonedParts = (timeZone: string, instant: number) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(instant);
+  const value = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value);
+  return {
+    year: value("year"),
+    month: value("month"),
+    day: value("day"),
+    hour: value("hour"),
+    minute: value("minute"),
+    second: value("second"),
+  };
+};
+
+const offsetAt = (timeZone: string, instant: number) => {
+  const parts = zonedParts(timeZone, instant);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(instant / 1000) * 1000;
+};
+
+/** The instant a wall-clock time occurs in a time zone; the second pass settles DST transitions. */
+const zonedTimeToInstant = (
+  timeZone: string,
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+) => {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const guess = wallClock - offsetAt(timeZone, wallClock);
+  return wallClock - offsetAt(timeZone, guess);
+};
+
+/** First occurrence strictly after `after`, or null when the recurrence can never match. */
+export const nextOccurrence = (recurrence: ScheduleRecurrence, after: number) => {
+  const time = parseTime(recurrence.time);
+  if (!time || recurrence.days.length === 0) {
+    return null;
+  }
+  for (let offset = 0; offset <= 7; offset += 1) {
+    const { year, month, day } = zonedParts(recurrence.timeZone, after + offset * DAY_MS);
+    const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+    if (!recurrence.days.includes(weekday)) {
+      continue;
+    }
+    const candidate = zonedTimeToInstant(recurrence.timeZone, year, month, day, time.hour, time.minute);
+    if (candidate > after) {
+      return candidate;
+    }
+  }
+  return null;
+};
+
+const describeDays = (days: number[]) => {
+  const sorted = [...days].sort();
+  if (sorted.join() === WEEKDAYS.join()) {
+    return "Weekdays";
+  }
+  if (sorted.length === 7) {
+    return "Every day";
+  }
+  return sorted.map((day) => DAY_LABELS[day]).join(", ");
+};
+
+export const describeSchedule = (schedule: PublishSchedule) =>
+  schedule.recurrence
+    ? `${describeDays(schedule.recurrence.days)} at ${schedule.recurrence.time} (${schedule.recurrence.timeZone})`
+    : `Once at ${new Date(schedule.runAt ?? 0).toLocaleString()}`;
@@ -0,0 +1,71 @@
+import { randomUUID } from "crypto";
+import { AuditEntry, AuditEntryInput, AuditQuery, AuditSource, matchesAuditQuery, redactSecrets } from "../audit";
+import { notifyAuditEntry } from "./events";
+import { appendTextFile, readTextFile } from "./storage";
+
+type StoreState = {
+  data: AuditEntry[] | null;
+  loading: Promise<AuditEntry[]> | null;
+};
+
+// One JSON entry per line: recording an event appends a line instead of rewriting the whole history.
+const LOG_FILE = "audit-log.ndjson";
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+
+const globalStore = globalThis as typeof globalThis & { __indiamartAuditLog?: StoreState };
+const state: StoreState = globalStore.__indiamartAuditLog ?? { data: null, loading: null };
+globalStore.__indiamartAuditLog = state;
+
+const parseLines = (text: string) =>
+  text.split("\n").flatMap((line) => {
+    if (!line.trim()) {
+      return [];
+    }
+    try {
+      return [JSON.parse(line) as AuditEntry];
+    } catch {
+      // A line cut short by a crash mid-append; the rest of the log is still good.
+      return [];
+    }
+  });
+
+const load = async () => {
+  if (state.data) {
+    return state.data;
+  }
+  if (!state.loading) {
+    state.loading = readTextFile(LOG_FILE).then((text) => {
+      state.data = parseLines(text);
+      return state.data;
+    });
+  }
+  return state.loading;
+};
+
+/** Redacts `secrets` and credential-looking fields from the bodies before anything reaches disk. */
+export const recordAudit = async (input: AuditEntryInput, source: AuditSource = "agent", secrets: string[] = []) => {
+  const data = await load();
+  const entry: AuditEntry = {
+    id: randomUUID(),
+    timestamp: Date.now(),
+    source,
+    ...(redactSecrets(input, secrets) as AuditEntryInput),
+  };
+  data.push(entry);
+  await appendTextFile(LOG_FILE, `${JSON.stringify(entry)}\n`);
+  notifyAuditEntry(entry);
+  return entry;
+};
+
+/** Newest first. Exports pass `paged: false` to get every match. */
+export const queryAudit = async (query: AuditQuery, paged = true) => {
+  const matches = (await load()).filter((entry) => matchesAuditQuery(entry, query)).reverse();
+  if (!paged) {
+    return { entries: matches, total: matches.length };
+  }
+  const offset = Math.max(0, query.offset ?? 0);
+  const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, query.limit ?? DEFAULT_PAGE_SIZE));
+  return { entries: matches.slice(offset, offset + limit), total: matches.length };
+};
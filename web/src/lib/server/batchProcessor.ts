@@ -0,0 +1,162 @@
+import { BatchItemStatus, BatchStatus, BatchSummary, summarizeItems } from "../batches";
+import { AGENT_MODES, AgentSettings, ProductDraft, buildOperationPayload, normalizeProduct } from "../indiamart";
+import { UploadJob } from "../jobs";
+import { PriceCalculation, PricingError } from "../pricing";
+import { ValidationError, validateDraft } from "../validation";
+import { StoredBatch, getBatch, listBatches, newBatchId, saveBatch } from "./batchStore";
+import { resolveOperation } from "./catalogSync";
+import { enqueueJobs, listJobs } from "./jobStore";
+import { priceProduct } from "./pricingStore";
+import { ProfileVaultError, getProfile, resolveAgentSettings } from "./profileVault";
+import { ensureWorker } from "./queueWorker";
+
+export class BatchError extends Error {}
+
+/** Validates the cost price as imported, then prices it and validates the result. Removals need neither. */
+const prepareProduct = async (
+  product: ProductDraft,
+  settings: AgentSettings,
+  operation?: "delete",
+): Promise<{ product: ProductDraft; pricing?: PriceCalculation; errors: ValidationError[] }> => {
+  const errors = operation === "delete" ? [] : validateDraft(product);
+  if (operation === "delete" || errors.length) {
+    return { product, errors };
+  }
+  try {
+    const priced = await priceProduct(product, settings.profileId);
+    return { product: priced.draft, pricing: priced.pricing, errors: validateDraft(priced.draft) };
+  } catch (error) {
+    if (error instanceof PricingError) {
+      return { product, errors: [{ field: "currency", code: "invalid_currency", message: error.message }] };
+    }
+    throw error;
+  }
+};
+
+/**
+ * Validates and queues every product under one batch ID. Invalid products are rejected individually rather than
+ * failing the request; the rest are uploaded by the server-side worker with the batch's own profile and mode. The
+ * dashboard agent is not started, so items queued from the dashboard wait until someone starts it.
+ */
+export const submitBatch = async (products: ProductDraft[], settings: AgentSettings, operation?: "delete") => {
+  const profile = settings.profileId ? await getProfile(settings.profileId) : null;
+  if (settings.profileId && !profile) {
+    throw new BatchError("Seller profile not found.");
+  }
+  if (settings.mode && !AGENT_MODES.includes(settings.mode)) {
+    throw new BatchError(`Unknown agent mode "${settings.mode}".`);
+  }
+  const batchSettings: AgentSettings = {
+    profileId: profile?.id,
+    mode: settings.mode ?? profile?.defaultMode ?? "simulate",
+  };
+
+  const id = newBatchId();
+  const checked = await Promise.all(
+    products.map(async (product) => ({
+      ...(await prepareProduct(product, batchSettings, operation)),
+      operation: await resolveOperation(product, batchSettings, operation),
+    })),
+  );
+  const accepted = checked.filter((item) => item.errors.length === 0);
+  const jobs = await enqueueJobs(
+    accepted.map(({ product, pricing, operation: resolved }) => ({
+      product,
+      operation: resolved,
+      batchId: id,
+      settings: batchSettings,
+      pricing,
+    })),
+  );
+  const jobIds = new Map(accepted.map((item, index) => [item, jobs[index].id]));
+
+  await saveBatch({
+    id,
+    createdAt: Date.now(),
+    settings: batchSettings,
+    items: checked.map((item) => ({
+      jobId: jobIds.get(item),
+      sku: item.product.sku,
+      title: item.product.title,
+      ...(item.errors.length ? { errors: item.errors } : {}),
+    })),
+  });
+
+  if (jobs.length) {
+    await ensureWorker();
+  }
+  return id;
+};
+
+/** Only the seller ID is used for the payloads shown; the resolved auth key never leaves this module. */
+const resolveSellerId = async (settings: AgentSettings) => {
+  try {
+    return (await resolveAgentSettings(settings)).sellerId;
+  } catch (error) {
+    if (error instanceof ProfileVaultError) {
+      return undefined;
+    }
+    throw error;
+  }
+};
+
+const toItemStatus = (
+  item: StoredBatch["items"][number],
+  index: number,
+  job: UploadJob | undefined,
+  sellerId?: string,
+): BatchItemStatus => {
+  const base = { index, sku: item.sku, title: item.title, attempts: 0 };
+  if (item.errors) {
+    return {
+      ...base,
+      state: "rejected",
+      error: item.errors.map((error) => error.message).join(" "),
+      errors: item.errors,
+    };
+  }
+  if (!job) {
+    return { ...base, jobId: item.jobId, state: "removed", error: "The job was cleared from the queue." };
+  }
+  return {
+    ...base,
+    jobId: job.id,
+    state: job.state,
+    operation: job.operation,
+    attempts: job.attempts,
+    productId: job.productId,
+    payload: buildOperationPayload(normalizeProduct(job.product), { sellerId }, job.operation, job.productId),
+    pricing: job.pricing,
+    result: job.result,
+    error: job.error,
+    failureKind: job.failureKind,
+  };
+};
+
+const batchItems = (batch: StoredBatch, jobs: Map<string, UploadJob>, sellerId?: string) =>
+  batch.items.map((item, index) => toItemStatus(item, index, item.jobId ? jobs.get(item.jobId) : undefined, sellerId));
+
+const toSummary = (batch: StoredBatch, items: BatchItemStatus[]): BatchSummary => ({
+  id: batch.id,
+  createdAt: batch.createdAt,
+  profileId: batch.settings.profileId,
+  mode: batch.settings.mode ?? "simulate",
+  total: items.length,
+  ...summarizeItems(items),
+});
+
+const jobsById = async () => new Map((await listJobs()).map((job) => [job.id, job]));
+
+export const getBatchStatus = async (id: string): Promise<BatchStatus | null> => {
+  const batch = await getBatch(id);
+  if (!batch) {
+    return null;
+  }
+  const items = batchItems(batch, await jobsById(), await resolveSellerId(batch.settings));
+  return { ...toSummary(batch, items), items };
+};
+
+export const listBatchSummaries = async () => {
+  const jobs = await jobsById();
+  return (await listBatches()).map((batch) => toSummary(batch, batchItems(batch, jobs)));
+};
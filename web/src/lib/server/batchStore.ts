@@ -0,0 +1,65 @@
+import { randomUUID } from "crypto";
+import { AgentSettings } from "../indiamart";
+import { ValidationError } from "../validation";
+import { readJsonFile, writeJsonFile } from "./storage";
+
+/** Item order is kept so results line up with the request: each index points at a job or a rejection. */
+export type StoredBatch = {
+  id: string;
+  createdAt: number;
+  settings: AgentSettings;
+  items: { jobId?: string; sku: string; title: string; errors?: ValidationError[] }[];
+  /** Set once every job of the batch has finished and the completion was reported. */
+  completedAt?: number;
+};
+
+type StoreState = {
+  data: StoredBatch[] | null;
+  loading: Promise<StoredBatch[]> | null;
+};
+
+const STORE_FILE = "batches.json";
+
+const globalStore = globalThis as typeof globalThis & { __indiamartBatchStore?: StoreState };
+const state: StoreState = globalStore.__indiamartBatchStore ?? { data: null, loading: null };
+globalStore.__indiamartBatchStore = state;
+
+const load = async () => {
+  if (state.data) {
+    return state.data;
+  }
+  if (!state.loading) {
+    state.loading = readJsonFile<StoredBatch[]>(STORE_FILE, []).then((data) => {
+      state.data = data;
+      return data;
+    });
+  }
+  return state.loading;
+};
+
+const persist = (data: StoredBatch[]) => writeJsonFile(STORE_FILE, data);
+
+export const newBatchId = () => randomUUID();
+
+export const saveBatch = async (batch: StoredBatch) => {
+  const data = await load();
+  data.push(batch);
+  await persist(data);
+  return batch;
+};
+
+export const getBatch = async (id: string) => (await load()).find((batch) => batch.id === id) ?? null;
+
+export const listBatches = async () => [...(await load())].sort((a, b) => b.createdAt - a.createdAt);
+
+/** Returns `false` when the batch is unknown or was already marked, so its completion is reported once. */
+export const markBatchCompleted = async (id: string) => {
+  const data = await load();
+  const batch = data.find((item) => item.id === id);
+  if (!batch || batch.completedAt) {
+    return false;
+  }
+  batch.completedAt = Date.now();
+  await persist(data);
+  return true;
+};
@@ -0,0 +1,152 @@
+import { AgentSettings, ListingOperation, ProductPayload } from "../indiamart";
+import { ListingScope } from "../listings";
+import { recordAudit } from "./auditLog";
+import { findListing, removeListing, saveListing } from "./listingStore";
+import { ProfileVaultError, resolveAgentSettings } from "./profileVault";
+import { UploadOutcome, uploadProduct } from "./uploader";
+
+export type SyncResult = {
+  operation: ListingOperation;
+  productId?: string;
+  outcome: UploadOutcome;
+};
+
+/** Ties the audit entry to the queue job that made the call, if any. */
+export type SyncContext = {
+  jobId?: string;
+  attempt?: number;
+};
+
+const SUCCESS_VERBS: Record<ListingOperation, string> = { create: "Uploaded", update: "Updated", delete: "Removed" };
+
+const PRODUCT_ID_KEYS = ["PRODUCT_ID", "product_id", "productId", "DISPLAY_ID", "display_id", "id"];
+
+/** IndiaMART responses are not consistent about where the new listing ID lives, so look one level deep too. */
+export const extractProductId = (response: unknown): string | undefined => {
+  if (!response || typeof response !== "object") {
+    return undefined;
+  }
+  const record = response as Record<string, unknown>;
+  for (const key of PRODUCT_ID_KEYS) {
+    const value = record[key];
+    if (typeof value === "string" || typeof value === "number") {
+      return String(value);
+    }
+  }
+  for (const nested of ["data", "response", "result"]) {
+    const found = extractProductId(record[nested]);
+    if (found) {
+      return found;
+    }
+  }
+  return undefined;
+};
+
+export const listingScope = (settings: AgentSettings | undefined): ListingScope => ({
+  environment: settings?.mode === "sandbox" ? "sandbox" : "live",
+  profileId: settings?.profileId,
+});
+
+/** Upserts by SKU: a product whose SKU already has a recorded listing becomes an update. */
+export const resolveOperation = async (
+  product: { sku?: string },
+  settings: AgentSettings | undefined,
+  requested?: ListingOperation,
+) => {
+  if (requested === "delete") {
+    return "delete" as const;
+  }
+  return (await findListing(listingScope(settings), product.sku)) ? ("update" as const) : ("create" as const);
+};
+
+export const syncProduct = async (
+  product: ProductPayload,
+  settings: AgentSettings | undefined,
+  requested?: ListingOperation,
+  context: SyncContext = {},
+): Promise<SyncResult> => {
+  const startedAt = performance.now();
+  // Resolve once, so a profile's default mode picks the listing registry, the operation and the audit mode alike.
+  let resolvedSettings: AgentSettings | undefined;
+  let vaultError: ProfileVaultError | undefined;
+  try {
+    resolvedSettings = await resolveAgentSettings(settings);
+  } catch (error) {
+    if (!(error instanceof ProfileVaultError)) {
+      throw error;
+    }
+    vaultError = error;
+  }
+  const effective = resolvedSettings ?? settings;
+  const scope = listingScope(effective);
+  const operation = await resolveOperation(product, effective, requested);
+  const listing = await findListing(scope, product.sku);
+  const apiKey = resolvedSettings?.apiKey;
+
+  const finish = async (result: SyncResult) => {
+    const { outcome } = result;
+    const title = product.title || "Untitled product";
+    const simulated = outcome.body.status === "simulated";
+    try {
+      await recordAudit(
+        {
+          level: outcome.httpStatus < 400 ? "success" : "error",
+          headline:
+            outcome.httpStatus >= 400
+              ? `Upload failed: ${title}`
+              : `${simulated ? `Simulated ${result.operation}` : SUCCESS_VERBS[result.operation]}: ${title}`,
+          details:
+            [outcome.body.error, context.attempt ? `Attempt ${context.attempt}.` : ""].filter(Boolean).join(" ") ||
+            undefined,
+          jobId: context.jobId,
+          productId: result.productId,
+          sku: product.sku,
+          title: product.title,
+          profileId: effective?.profileId,
+          mode: effective?.mode ?? "simulate",
+          operation: result.operation,
+          httpStatus: outcome.httpStatus,
+          upstreamStatus: typeof outcome.body.status === "number" ? outcome.body.status : undefined,
+          durationMs: Math.round(performance.now() - startedAt),
+          request: outcome.request,
+          response: outcome.body.response ?? (outcome.body.errors ? { errors: outcome.body.errors } : undefined),
+        },
+        "agent",
+        apiKey ? [apiKey] : [],
+      );
+    } catch (error) {
+      // Losing an audit line must not turn a finished upload into a failure that gets retried.
+      console.error("Unable to write the audit log", error);
+    }
+    return result;
+  };
+
+  if (!resolvedSettings) {
+    return finish({ operation, outcome: { httpStatus: 400, body: { error: vaultError?.message } } });
+  }
+
+  const outcome = await uploadProduct(product, resolvedSettings, { operation, productId: listing?.productId });
+
+  // Only real uploads (live or sandbox) touch the registry; simulations must not make later runs think a listing exists.
+  if (outcome.httpStatus >= 400 || outcome.body.status !== "success" || !product.sku) {
+    return finish({ operation, productId: listing?.productId, outcome });
+  }
+
+  if (operation === "delete") {
+    await removeListing(scope, product.sku);
+    return finish({ operation, productId: listing?.productId, outcome });
+  }
+
+  // An update keeps the listing it targeted; only a create learns a new ID from the response.
+  const productId = operation === "update" && listing ? listing.productId : extractProductId(outcome.body.response);
+  if (productId) {
+    await saveListing({
+      ...scope,
+      sku: product.sku,
+      productId,
+      title: product.title,
+      sellerId: resolvedSettings.sellerId?.trim(),
+    });
+  }
+  return finish({ operation, productId, outcome });
+};
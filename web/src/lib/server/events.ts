@@ -0,0 +1,34 @@
+import { AuditEntry } from "../audit";
+
+type Listeners = {
+  queue: Set<() => void>;
+  audit: Set<(entry: AuditEntry) => void>;
+};
+
+// Shared on globalThis like the stores, so the worker and every streaming route see the same listeners.
+const globalEvents = globalThis as typeof globalThis & { __indiamartEvents?: Listeners };
+const listeners: Listeners = globalEvents.__indiamartEvents ?? { queue: new Set(), audit: new Set() };
+globalEvents.__indiamartEvents = listeners;
+
+/** Fires on every change to jobs, agent state or the rate limiter; listeners re-read what they need. */
+export const onQueueChange = (listener: () => void) => {
+  listeners.queue.add(listener);
+  return () => {
+    listeners.queue.delete(listener);
+  };
+};
+
+export const notifyQueueChange = () => {
+  listeners.queue.forEach((listener) => listener());
+};
+
+export const onAuditEntry = (listener: (entry: AuditEntry) => void) => {
+  listeners.audit.add(listener);
+  return () => {
+    listeners.audit.delete(listener);
+  };
+};
+
+export const notifyAuditEntry = (entry: AuditEntry) => {
+  listeners.audit.forEach((listener) => listener(entry));
+};
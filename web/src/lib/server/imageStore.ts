@@ -0,0 +1,218 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import sharp from "sharp";
+import {
+  IMAGE_REQUIREMENTS,
+  IMAGE_SIZES,
+  ImageCheck,
+  ImageSize,
+  StoredImage,
+  describeImageProblems,
+  formatBytes,
+} from "../images";
+import { DATA_DIR, readJsonFile, writeJsonFile } from "./storage";
+
+type StoreState = {
+  data: StoredImage[] | null;
+  loading: Promise<StoredImage[]> | null;
+};
+
+export class ImageStoreError extends Error {}
+
+const STORE_FILE = "images.json";
+const IMAGE_DIR = path.join(DATA_DIR, "images");
+const CHECK_TIMEOUT_MS = 15_000;
+
+const globalStore = globalThis as typeof globalThis & { __indiamartImageStore?: StoreState };
+const state: StoreState = globalStore.__indiamartImageStore ?? { data: null, loading: null };
+globalStore.__indiamartImageStore = state;
+
+const load = async () => {
+  if (state.data) {
+    return state.data;
+  }
+  if (!state.loading) {
+    state.loading = readJsonFile<StoredImage[]>(STORE_FILE, []).then((data) => {
+      state.data = data;
+      return data;
+    });
+  }
+  return state.loading;
+};
+
+const persist = (data: StoredImage[]) => writeJsonFile(STORE_FILE, data);
+
+const CONTENT_TYPES: Record<string, string> = {
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  gif: "image/gif",
+};
+
+/** Reads format and dimensions from the bytes themselves rather than trusting a file name or header. */
+const inspect = async (data: Buffer) => {
+  try {
+    const { format, width, height, orientation } = await sharp(data).metadata();
+    // EXIF orientations 5-8 are rotated a quarter turn, so the image is displayed with width and height swapped.
+    const sideways = (orientation ?? 1) >= 5;
+    return {
+      contentType: CONTENT_TYPES[format ?? ""] ?? `image/${format}`,
+      width: sideways ? height : width,
+      height: sideways ? width : height,
+    };
+  } catch {
+    return null;
+  }
+};
+
+const fileFor = (id: string, size: ImageSize) =>
+  path.join(IMAGE_DIR, id, size === "original" ? "original" : `${size}.jpg`);
+
+/**
+ * Stores an upload with JPEG copies at every `IMAGE_SIZES` width. Copies never upscale, so a small original yields
+ * copies at its own size. Uploads that fail the image requirements are rejected rather than stored.
+ */
+export const saveImage = async (data: Buffer, fileName: string) => {
+  const facts = await inspect(data);
+  if (!facts) {
+    throw new ImageStoreError(`${fileName} is not a readable image.`);
+  }
+  const problems = describeImageProblems({ ...facts, bytes: data.length });
+  if (problems.length) {
+    throw new ImageStoreError(`${fileName}: ${problems.join(" ")}`);
+  }
+
+  const image: StoredImage = {
+    id: randomUUID(),
+    fileName,
+    contentType: facts.contentType,
+    bytes: data.length,
+    width: facts.width,
+    height: facts.height,
+    createdAt: Date.now(),
+  };
+  await fs.mkdir(path.join(IMAGE_DIR, image.id), { recursive: true });
+  await fs.writeFile(fileFor(image.id, "original"), data);
+  for (const [size, edge] of Object.entries(IMAGE_SIZES)) {
+    const resized = await sharp(data)
+      .rotate()
+      .resize({ width: edge, height: edge, fit: "inside", withoutEnlargement: true })
+      .flatten({ background: "#ffffff" })
+      .jpeg({ quality: 82, mozjpeg: true })
+      .toBuffer();
+    await fs.writeFile(fileFor(image.id, size as ImageSize), resized);
+  }
+
+  const stored = await load();
+  stored.push(image);
+  await persist(stored);
+  return image;
+};
+
+export const listImages = async () => [...(await load())].sort((a, b) => b.createdAt - a.createdAt);
+
+export const readImage = async (id: string, size: ImageSize) => {
+  const image = (await load()).find((item) => item.id === id);
+  if (!image || (size !== "original" && !(size in IMAGE_SIZES))) {
+    return null;
+  }
+  try {
+    const data = await fs.readFile(fileFor(id, size));
+    return { data, contentType: size === "original" ? image.contentType : "image/jpeg" };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+};
+
+export const deleteImage = async (id: string) => {
+  const data = await load();
+  const index = data.findIndex((item) => item.id === id);
+  if (index === -1) {
+    return false;
+  }
+  data.splice(index, 1);
+  await persist(data);
+  await fs.rm(path.join(IMAGE_DIR, id), { recursive: true, force: true });
+  return true;
+};
+
+/** Reads a response body up to `maxBytes`, or resolves to `null` and stops downloading once it grows past that. */
+const readLimited = async (response: Response, maxBytes: number) => {
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return Buffer.concat(chunks, total);
+    }
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+};
+
+/**
+ * Fetches a URL the way IndiaMART would and checks that it is an image within the requirements. A
+ * `Content-Length` over the limit is reported without downloading the body, and a body that turns out larger than
+ * declared is not read past the limit.
+ */
+export const checkImageUrl = async (url: string): Promise<ImageCheck> => {
+  const fail = (problem: string, facts: Partial<ImageCheck> = {}): ImageCheck => ({
+    url,
+    ok: false,
+    problems: [problem],
+    ...facts,
+  });
+
+  let response: Response;
+  try {
+    response = await fetch(url, { redirect: "follow", signal: AbortSignal.timeout(CHECK_TIMEOUT_MS) });
+  } catch (error) {
+    return fail(`Could not fetch the image: ${error instanceof Error ? error.message : "network error"}`);
+  }
+  if (!response.ok) {
+    return fail(`The URL returned HTTP ${response.status}.`);
+  }
+
+  const declaredType = response.headers.get("content-type")?.split(";")[0].trim().toLowerCase();
+  if (declaredType && !declaredType.startsWith("image/")) {
+    await response.body?.cancel();
+    return fail(`The URL serves ${declaredType}, not an image.`, { contentType: declaredType });
+  }
+  const declaredBytes = Number(response.headers.get("content-length")) || undefined;
+  if (declaredBytes && declaredBytes > IMAGE_REQUIREMENTS.maxBytes) {
+    await response.body?.cancel();
+    const problems = describeImageProblems({ bytes: declaredBytes });
+    return { url, ok: false, contentType: declaredType, bytes: declaredBytes, problems };
+  }
+
+  let data: Buffer | null;
+  try {
+    data = await readLimited(response, IMAGE_REQUIREMENTS.maxBytes);
+  } catch (error) {
+    return fail(`Could not fetch the image: ${error instanceof Error ? error.message : "network error"}`);
+  }
+  if (!data) {
+    // The size header was missing or wrong; the download stopped as soon as it passed the limit.
+    const problems = [`The image is larger than the ${formatBytes(IMAGE_REQUIREMENTS.maxBytes)} limit.`];
+    return { url, ok: false, contentType: declaredType, problems };
+  }
+  const facts = await inspect(data);
+  if (!facts) {
+    return fail("The URL does not contain a readable image.", { contentType: declaredType, bytes: data.length });
+  }
+  const checked = { ...facts, bytes: data.length };
+  const problems = describeImageProblems(checked);
+  return { url, ok: problems.length === 0, ...checked, problems };
+};
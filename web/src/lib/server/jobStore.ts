@@ -0,0 +1,351 @@
+import { randomUUID } from "crypto";
+import { AgentSettings, ListingOperation, ProductDraft } from "../indiamart";
+import {
+  AgentStatus,
+  DEFAULT_RETRY_POLICY,
+  DEFAULT_THROUGHPUT_POLICY,
+  FailureKind,
+  JobState,
+  RetryPolicy,
+  ThroughputPolicy,
+  UploadJob,
+  isPendingJob,
+  normalizeRetryPolicy,
+  normalizeThroughputPolicy,
+  sortQueue,
+} from "../jobs";
+import { PriceCalculation } from "../pricing";
+import { notifyQueueChange } from "./events";
+import { readJsonFile, writeJsonFile } from "./storage";
+
+type AgentRecord = {
+  running: boolean;
+  /** When the current or last run began; jobs finished since then make up its summary. */
+  startedAt?: number;
+  settings: AgentSettings;
+  retryPolicy: RetryPolicy;
+  throughput: ThroughputPolicy;
+  updatedAt: number;
+};
+
+type StoreFile = {
+  jobs: UploadJob[];
+  agent: AgentRecord;
+};
+
+type StoreState = {
+  data: StoreFile | null;
+  loading: Promise<StoreFile> | null;
+};
+
+const STORE_FILE = "jobs.json";
+
+// Route handlers are bundled separately, so the cache lives on globalThis to be shared between them.
+const globalStore = globalThis as typeof globalThis & { __indiamartJobStore?: StoreState };
+const state: StoreState = globalStore.__indiamartJobStore ?? { data: null, loading: null };
+globalStore.__indiamartJobStore = state;
+
+const emptyStore = (): StoreFile => ({
+  jobs: [],
+  agent: {
+    running: false,
+    settings: { mode: "simulate" },
+    retryPolicy: DEFAULT_RETRY_POLICY,
+    throughput: DEFAULT_THROUGHPUT_POLICY,
+    updatedAt: Date.now(),
+  },
+});
+
+const load = async () => {
+  if (state.data) {
+    return state.data;
+  }
+  if (!state.loading) {
+    state.loading = readJsonFile<StoreFile>(STORE_FILE, emptyStore()).then((data) => {
+      // A job that was mid-upload when the process stopped is handed back to the queue.
+      data.jobs.forEach((job) => {
+        job.operation = job.operation ?? "create";
+        if (job.state === "running") {
+          job.state = "queued";
+          job.updatedAt = Date.now();
+        }
+      });
+      data.agent.retryPolicy = normalizeRetryPolicy(data.agent.retryPolicy);
+      data.agent.throughput = normalizeThroughputPolicy(data.agent.throughput);
+      // Auth keys now live in the encrypted profile vault; drop any left over from before it existed.
+      data.agent.settings = { profileId: data.agent.settings.profileId, mode: data.agent.settings.mode };
+      state.data = data;
+      return data;
+    });
+  }
+  return state.loading;
+};
+
+const persist = (data: StoreFile) => {
+  notifyQueueChange();
+  return writeJsonFile(STORE_FILE, data);
+};
+
+export const listJobs = async () => {
+  const data = await load();
+  return data.jobs.map((job) => ({ ...job }));
+};
+
+export const enqueueJobs = async (
+  items: {
+    product: ProductDraft;
+    operation: ListingOperation;
+    batchId?: string;
+    settings?: AgentSettings;
+    pricing?: PriceCalculation;
+  }[],
+) => {
+  const data = await load();
+  const now = Date.now();
+  const jobs: UploadJob[] = items.map(({ product, operation, batchId, settings, pricing }, index) => ({
+    id: randomUUID(),
+    createdAt: now + index,
+    updatedAt: now,
+    state: "queued",
+    operation,
+    product,
+    ...(batchId ? { batchId } : {}),
+    ...(settings ? { settings: { profileId: settings.profileId, mode: settings.mode } } : {}),
+    ...(pricing ? { pricing } : {}),
+    attempts: 0,
+  }));
+  data.jobs.push(...jobs);
+  await persist(data);
+  return jobs;
+};
+
+/** Claims the next job due for upload, limited to the jobs `scope` accepts when given. */
+export const claimNextJob = async (scope?: (job: UploadJob) => boolean) => {
+  const data = await load();
+  const now = Date.now();
+  const job = sortQueue(data.jobs).find(
+    (item) => item.state === "queued" && !item.held && (item.nextAttemptAt ?? 0) <= now && (!scope || scope(item)),
+  );
+  if (!job) {
+    return null;
+  }
+  job.state = "running";
+  job.attempts += 1;
+  job.startedAt = now;
+  job.updatedAt = now;
+  job.nextAttemptAt = undefined;
+  await persist(data);
+  return { ...job };
+};
+
+/**
+ * Earliest time a queued job waiting on a retry becomes eligible again, or `null` when nothing is waiting. Held jobs
+ * do not count, so a queue of only held jobs lets the agent finish.
+ */
+export const nextScheduledAttempt = async (scope?: (job: UploadJob) => boolean) => {
+  const data = await load();
+  const scheduled = data.jobs
+    .filter((job) => job.state === "queued" && !job.held && (!scope || scope(job)))
+    .map((job) => job.nextAttemptAt ?? 0);
+  return scheduled.length ? Math.min(...scheduled) : null;
+};
+
+export const finishJob = async (
+  id: string,
+  outcome: {
+    state: Extract<JobState, "succeeded" | "failed">;
+    result?: unknown;
+    error?: string;
+    failureKind?: FailureKind;
+    operation?: ListingOperation;
+    productId?: string;
+  },
+) => {
+  const data = await load();
+  const job = data.jobs.find((item) => item.id === id);
+  if (!job) {
+    return null;
+  }
+  const now = Date.now();
+  job.state = outcome.state;
+  job.result = outcome.result;
+  job.error = outcome.error;
+  job.failureKind = outcome.failureKind;
+  job.operation = outcome.operation ?? job.operation;
+  job.productId = outcome.productId ?? job.productId;
+  job.nextAttemptAt = undefined;
+  job.finishedAt = now;
+  job.updatedAt = now;
+  await persist(data);
+  return { ...job };
+};
+
+/** Puts a running job back in the queue. `refundAttempt` gives back the attempt it was claimed with. */
+export const scheduleRetry = async (
+  id: string,
+  retry: { nextAttemptAt: number; result?: unknown; error: string; failureKind: FailureKind; refundAttempt?: boolean },
+) => {
+  const data = await load();
+  const job = data.jobs.find((item) => item.id === id);
+  if (!job) {
+    return null;
+  }
+  job.state = "queued";
+  if (retry.refundAttempt) {
+    job.attempts = Math.max(0, job.attempts - 1);
+  }
+  job.result = retry.result;
+  job.error = retry.error;
+  job.failureKind = retry.failureKind;
+  job.nextAttemptAt = retry.nextAttemptAt;
+  job.updatedAt = Date.now();
+  await persist(data);
+  return { ...job };
+};
+
+export const requeueJob = async (id: string, product?: ProductDraft, operation?: ListingOperation) => {
+  const data = await load();
+  const job = data.jobs.find((item) => item.id === id);
+  if (!job) {
+    return "missing" as const;
+  }
+  if (job.state === "running") {
+    return "running" as const;
+  }
+  job.state = "queued";
+  job.attempts = 0;
+  // An edited product carries the price the user saw and kept, so it no longer comes from a rule.
+  job.pricing = product ? undefined : job.pricing;
+  job.product = product ?? job.product;
+  job.operation = operation ?? job.operation;
+  job.result = undefined;
+  job.error = undefined;
+  job.failureKind = undefined;
+  job.nextAttemptAt = undefined;
+  job.finishedAt = undefined;
+  job.updatedAt = Date.now();
+  await persist(data);
+  return "queued" as const;
+};
+
+/**
+ * Saves an edited product on a job that is still waiting, keeping its attempts and any retry it is waiting for.
+ * Only queued jobs can be edited this way; failed jobs go back through `requeueJob`.
+ */
+export const updateQueuedJob = async (id: string, product: ProductDraft, operation?: ListingOperation) => {
+  const data = await load();
+  const job = data.jobs.find((item) => item.id === id);
+  if (!job) {
+    return "missing" as const;
+  }
+  if (job.state !== "queued") {
+    return job.state;
+  }
+  // As with a re-queue, the edited product carries the price the user saw and kept.
+  job.pricing = undefined;
+  job.product = product;
+  job.operation = operation ?? job.operation;
+  job.updatedAt = Date.now();
+  await persist(data);
+  return "updated" as const;
+};
+
+/**
+ * Rewrites the product (and its price calculation), priority or hold of every job still waiting in the queue; running
+ * and finished jobs are left alone.
+ */
+export const updateQueuedJobs = async (
+  update: (
+    job: UploadJob,
+    index: number,
+  ) => Partial<Pick<UploadJob, "product" | "pricing" | "priority" | "held">> | null,
+) => {
+  const data = await load();
+  const now = Date.now();
+  let updated = 0;
+  data.jobs
+    .filter((job) => job.state === "queued")
+    .forEach((job, index) => {
+      const patch = update(job, index);
+      if (patch) {
+        Object.assign(job, patch, { updatedAt: now });
+        updated += 1;
+      }
+    });
+  if (updated) {
+    await persist(data);
+  }
+  return updated;
+};
+
+export const updateQueuedProducts = (update: (job: UploadJob, index: number) => ProductDraft | null) =>
+  updateQueuedJobs((job, index) => {
+    const product = update(job, index);
+    return product ? { product, pricing: job.pricing } : null;
+  });
+
+/**
+ * Moves the listed pending jobs into the given order. They keep the slots they held between the other jobs, so
+ * finished jobs and pending jobs left out of `ids` stay where they were.
+ */
+export const reorderQueue = async (ids: string[]) => {
+  const data = await load();
+  const order = new Map(ids.map((id, index) => [id, index]));
+  const slots = data.jobs.flatMap((job, index) => (order.has(job.id) && isPendingJob(job) ? [index] : []));
+  const moved = slots.map((index) => data.jobs[index]).sort((a, b) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0));
+  slots.forEach((slot, index) => {
+    data.jobs[slot] = moved[index];
+  });
+  if (moved.length) {
+    await persist(data);
+  }
+  return moved.length;
+};
+
+export const removeJob = async (id: string) => {
+  const data = await load();
+  const job = data.jobs.find((item) => item.id === id);
+  if (!job) {
+    return "missing" as const;
+  }
+  if (job.state === "running") {
+    return "running" as const;
+  }
+  data.jobs = data.jobs.filter((item) => item.id !== id);
+  await persist(data);
+  return "removed" as const;
+};
+
+export const clearJobs = async (states: JobState[]) => {
+  const data = await load();
+  const removable = new Set<JobState>(states.filter((value) => value !== "running"));
+  const before = data.jobs.length;
+  data.jobs = data.jobs.filter((job) => !removable.has(job.state));
+  await persist(data);
+  return before - data.jobs.length;
+};
+
+export const getAgentRecord = async () => {
+  const data = await load();
+  return { ...data.agent };
+};
+
+export const updateAgentRecord = async (patch: Partial<Omit<AgentRecord, "updatedAt">>) => {
+  const data = await load();
+  data.agent = {
+    ...data.agent,
+    ...patch,
+    updatedAt: Date.now(),
+  };
+  await persist(data);
+  return { ...data.agent };
+};
+
+export const toAgentStatus = (agent: AgentRecord): AgentStatus => ({
+  running: agent.running,
+  mode: agent.settings.mode ?? "simulate",
+  profileId: agent.settings.profileId,
+  retryPolicy: agent.retryPolicy,
+  throughput: agent.throughput,
+  updatedAt: agent.updatedAt,
+});
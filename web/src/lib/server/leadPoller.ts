@@ -0,0 +1,148 @@
+import { SANDBOX_TOKEN } from "../indiamart";
+import {
+  IndiaMartLeadRecord,
+  LEAD_PULL_INTERVAL_MS,
+  LEAD_WINDOW_MAX_MS,
+  LeadSource,
+  formatLeadApiTime,
+} from "../leads";
+import { ListingEnvironment } from "../listings";
+import { recordAudit } from "./auditLog";
+import { addLeads, getLeadSource, listLeadSources, recordLeadPull } from "./leadStore";
+import { listListings } from "./listingStore";
+import { getProfile, resolveLeadKey } from "./profileVault";
+
+const LIVE_LEADS_URL = "https://mapi.indiamart.com/wservce/crm/crmListing/v2/";
+const REQUEST_TIMEOUT_MS = 30_000;
+const TICK_MS = 60_000;
+// The first pull for a profile looks back a day; later ones overlap the last window a little, since IndiaMART can
+// publish an enquiry a few minutes after its QUERY_TIME. Already-stored query IDs are skipped.
+const FIRST_WINDOW_MS = 24 * 60 * 60_000;
+const OVERLAP_MS = 10 * 60_000;
+
+type PollerState = {
+  timer: ReturnType<typeof setTimeout> | null;
+  /** Profiles with a pull in flight, so a tick and "Pull now" never hit the API for the same key at once. */
+  pulling: Set<string>;
+};
+
+const globalPoller = globalThis as typeof globalThis & { __indiamartLeadPoller?: PollerState };
+const poller: PollerState = globalPoller.__indiamartLeadPoller ?? { timer: null, pulling: new Set() };
+globalPoller.__indiamartLeadPoller = poller;
+
+const leadsEndpoint = (environment: ListingEnvironment) =>
+  environment === "sandbox"
+    ? process.env.SANDBOX_INDIAMART_LEADS_URL ||
+      `http://127.0.0.1:${process.env.PORT || 3000}/api/mock-indiamart/wservce/crm/crmListing/v2`
+    : process.env.INDIAMART_LEADS_URL || LIVE_LEADS_URL;
+
+const fetchEnquiries = async (source: LeadSource, key: string, start: number, end: number) => {
+  const url = new URL(leadsEndpoint(source.environment));
+  url.searchParams.set("glusr_crm_key", key);
+  url.searchParams.set("start_time", formatLeadApiTime(start));
+  url.searchParams.set("end_time", formatLeadApiTime(end));
+  const response = await fetch(url, { cache: "no-store", signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  const body = (await response.json().catch(() => null)) as {
+    CODE?: number;
+    MESSAGE?: string;
+    RESPONSE?: IndiaMartLeadRecord[];
+  } | null;
+  // The API answers 200 with its own CODE in the body; 204 means the window had no enquiries.
+  const code = Number(body?.CODE ?? response.status);
+  if (!response.ok || (code !== 200 && code !== 204)) {
+    throw new Error(body?.MESSAGE || `IndiaMART lead API answered ${code}.`);
+  }
+  return Array.isArray(body?.RESPONSE) ? body.RESPONSE : [];
+};
+
+/**
+ * Pulls the enquiries received since the last successful pull for one seller profile and stores the new ones. The API
+ * takes at most seven days per call and once every five minutes, so a source that fell further behind (the server was
+ * down, or pulling was switched off for a while) catches up one window per pull instead of skipping the gap.
+ */
+export const pullLeads = async (profileId: string) => {
+  const profile = await getProfile(profileId);
+  if (!profile) {
+    return { added: 0, error: "Seller profile not found." };
+  }
+  if (poller.pulling.has(profileId)) {
+    return { added: 0, error: "A pull for this profile is already running." };
+  }
+  let source: LeadSource | undefined;
+  try {
+    poller.pulling.add(profileId);
+    source = await getLeadSource(profileId);
+    const now = Date.now();
+    const start = (source.pulledUntil ?? now - FIRST_WINDOW_MS) - OVERLAP_MS;
+    const end = Math.min(now, start + LEAD_WINDOW_MAX_MS);
+    const key =
+      source.environment === "sandbox"
+        ? process.env.SANDBOX_INDIAMART_TOKEN || SANDBOX_TOKEN
+        : await resolveLeadKey(profileId);
+    if (!key) {
+      throw new Error("No Lead Manager CRM key is stored for this profile.");
+    }
+    const { environment } = source;
+    const records = await fetchEnquiries(source, key, start, end);
+    const listings = (await listListings()).filter(
+      (listing) => listing.environment === environment && listing.profileId === profileId,
+    );
+    const added = await addLeads(profileId, environment, records, listings);
+    await recordLeadPull(profileId, { pulledUntil: end, added: added.length });
+    if (added.length) {
+      await recordAudit({
+        level: "info",
+        headline: "Buyer enquiries received",
+        details: `${added.length} new enquir${added.length === 1 ? "y" : "ies"} for ${profile.name}${
+          end < now ? ` up to ${new Date(end).toISOString()}; the rest follow over the next pulls` : ""
+        }.`,
+        profileId,
+        mode: environment === "sandbox" ? "sandbox" : "live",
+      });
+    }
+    return { added: added.length };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to reach the IndiaMART lead API.";
+    await recordLeadPull(profileId, { error: message });
+    await recordAudit({
+      level: "error",
+      headline: "Lead pull failed",
+      details: `${profile.name}: ${message}`,
+      profileId,
+      mode: source?.environment === "sandbox" ? "sandbox" : "live",
+    });
+    return { added: 0, error: message };
+  } finally {
+    poller.pulling.delete(profileId);
+  }
+};
+
+export const pullDueLeads = async () => {
+  const now = Date.now();
+  const due = (await listLeadSources()).filter(
+    (source) => source.enabled && (source.lastPullAt ?? 0) + LEAD_PULL_INTERVAL_MS <= now,
+  );
+  for (const source of due) {
+    await pullLeads(source.profileId);
+  }
+};
+
+const tick = async () => {
+  try {
+    await pullDueLeads();
+  } catch (error) {
+    console.error("IndiaMART lead poller failed", error);
+  } finally {
+    poller.timer = setTimeout(() => void tick(), TICK_MS);
+  }
+};
+
+/**
+ * Starts the background pull for every profile with lead pulling switched on; safe to call more than once. The
+ * first check waits a tick, so a sandbox pull at startup does not race the server it is about to call.
+ */
+export const ensureLeadPoller = async () => {
+  if (!poller.timer) {
+    poller.timer = setTimeout(() => void tick(), TICK_MS);
+  }
+};
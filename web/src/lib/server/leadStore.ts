@@ -0,0 +1,231 @@
+import { randomUUID } from "crypto";
+import {
+  DUPLICATE_WINDOW_MS,
+  IndiaMartLeadRecord,
+  LEAD_STATUSES,
+  Lead,
+  LeadQuery,
+  LeadSource,
+  LeadSourceInput,
+  LeadStatus,
+  LeadUpdate,
+  contactKeys,
+  matchListing,
+  parseQueryTime,
+  sameProduct,
+} from "../leads";
+import { ListingEnvironment, ListingRecord } from "../listings";
+import { readJsonFile, writeJsonFile } from "./storage";
+
+type StoreFile = {
+  leads: Lead[];
+  sources: LeadSource[];
+};
+
+type StoreState = {
+  data: StoreFile | null;
+  loading: Promise<StoreFile> | null;
+};
+
+export class LeadStoreError extends Error {}
+
+const STORE_FILE = "leads.json";
+const NOTE_MAX_LENGTH = 2000;
+
+const globalStore = globalThis as typeof globalThis & { __indiamartLeadStore?: StoreState };
+const state: StoreState = globalStore.__indiamartLeadStore ?? { data: null, loading: null };
+globalStore.__indiamartLeadStore = state;
+
+const load = async () => {
+  if (state.data) {
+    return state.data;
+  }
+  if (!state.loading) {
+    state.loading = readJsonFile<StoreFile>(STORE_FILE, { leads: [], sources: [] }).then((data) => {
+      state.data = data;
+      return data;
+    });
+  }
+  return state.loading;
+};
+
+const persist = (data: StoreFile) => writeJsonFile(STORE_FILE, data);
+
+const defaultSource = (profileId: string): LeadSource => ({ profileId, enabled: false, environment: "live" });
+
+const matchesQuery = (lead: Lead, query: LeadQuery) => {
+  if (query.profileId && lead.profileId !== query.profileId) {
+    return false;
+  }
+  const q = query.q?.trim().toLowerCase();
+  return (
+    !q ||
+    [...Object.values(lead.buyer), lead.productName, lead.subject, lead.message, lead.listing?.sku ?? ""].some(
+      (value) => value.toLowerCase().includes(q),
+    )
+  );
+};
+
+/** Newest first, with a count per status over the same profile and search so the inbox tabs stay in step. */
+export const listLeads = async (query: LeadQuery = {}) => {
+  const matching = (await load()).leads.filter((lead) => matchesQuery(lead, query));
+  const counts = Object.fromEntries(LEAD_STATUSES.map((status) => [status, 0])) as Record<LeadStatus, number>;
+  matching.forEach((lead) => {
+    counts[lead.status] += 1;
+  });
+  return {
+    leads: matching
+      .filter((lead) => !query.status || lead.status === query.status)
+      .sort((a, b) => b.receivedAt - a.receivedAt)
+      .map((lead) => ({ ...lead })),
+    counts,
+  };
+};
+
+export const updateLead = async (id: string, update: LeadUpdate) => {
+  const data = await load();
+  const lead = data.leads.find((item) => item.id === id);
+  if (!lead) {
+    return null;
+  }
+  if (update.status !== undefined && !LEAD_STATUSES.includes(update.status)) {
+    throw new LeadStoreError(`Unknown lead status "${update.status}". Use ${LEAD_STATUSES.join(", ")}.`);
+  }
+  if (update.note !== undefined && update.note.length > NOTE_MAX_LENGTH) {
+    throw new LeadStoreError(`Notes are limited to ${NOTE_MAX_LENGTH} characters.`);
+  }
+  lead.status = update.status ?? lead.status;
+  lead.note = update.note ?? lead.note;
+  lead.updatedAt = Date.now();
+  await persist(data);
+  return { ...lead };
+};
+
+const toLead = (
+  record: IndiaMartLeadRecord,
+  profileId: string,
+  environment: ListingEnvironment,
+  listings: ListingRecord[],
+): Lead => {
+  const text = (value: unknown) => String(value ?? "").trim();
+  const receivedAt = parseQueryTime(text(record.QUERY_TIME));
+  const now = Date.now();
+  const productName = text(record.QUERY_PRODUCT_NAME);
+  const listing = matchListing(productName, listings);
+  return {
+    id: randomUUID(),
+    profileId,
+    environment,
+    queryId: text(record.UNIQUE_QUERY_ID),
+    queryType: text(record.QUERY_TYPE),
+    receivedAt: Number.isNaN(receivedAt) ? now : receivedAt,
+    buyer: {
+      name: text(record.SENDER_NAME),
+      company: text(record.SENDER_COMPANY),
+      mobile: text(record.SENDER_MOBILE),
+      email: text(record.SENDER_EMAIL),
+      city: text(record.SENDER_CITY),
+      state: text(record.SENDER_STATE),
+    },
+    subject: text(record.SUBJECT),
+    productName,
+    category: text(record.QUERY_MCAT_NAME),
+    message: text(record.QUERY_MESSAGE),
+    ...(listing ? { listing } : {}),
+    status: "new",
+    note: "",
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+/**
+ * The first enquiry from the same buyer about the same product (the same linked listing, or the same product name
+ * when unlinked) close enough in time to be the same need.
+ */
+const findOriginal = (lead: Lead, leads: Lead[]) => {
+  const contacts = contactKeys(lead.buyer);
+  return leads
+    .filter(
+      (item) =>
+        !item.duplicateOf &&
+        item.profileId === lead.profileId &&
+        item.environment === lead.environment &&
+        Math.abs(item.receivedAt - lead.receivedAt) <= DUPLICATE_WINDOW_MS &&
+        (lead.listing ? item.listing?.sku === lead.listing.sku : sameProduct(item.productName, lead.productName)) &&
+        contactKeys(item.buyer).some((key) => contacts.includes(key)),
+    )
+    .sort((a, b) => a.receivedAt - b.receivedAt)[0];
+};
+
+/**
+ * Stores the enquiries not seen before. Pull windows overlap, so the same UNIQUE_QUERY_ID arriving again is
+ * skipped; `listings` are the profile's uploads in the same environment, for linking each lead to its product.
+ */
+export const addLeads = async (
+  profileId: string,
+  environment: ListingEnvironment,
+  records: IndiaMartLeadRecord[],
+  listings: ListingRecord[],
+) => {
+  const data = await load();
+  const added: Lead[] = [];
+  const receivedAt = (record: IndiaMartLeadRecord) => parseQueryTime(String(record.QUERY_TIME ?? ""));
+  const sorted = [...records].sort((a, b) => (receivedAt(a) || 0) - (receivedAt(b) || 0));
+  for (const record of sorted) {
+    const queryId = String(record.UNIQUE_QUERY_ID ?? "").trim();
+    const seen = data.leads.some(
+      (lead) => lead.profileId === profileId && lead.environment === environment && lead.queryId === queryId,
+    );
+    if (!queryId || seen) {
+      continue;
+    }
+    const lead = toLead(record, profileId, environment, listings);
+    const original = findOriginal(lead, data.leads);
+    if (original) {
+      lead.duplicateOf = original.id;
+    }
+    data.leads.push(lead);
+    added.push(lead);
+  }
+  if (added.length) {
+    await persist(data);
+  }
+  return added;
+};
+
+export const listLeadSources = async () => (await load()).sources.map((source) => ({ ...source }));
+
+export const getLeadSource = async (profileId: string) => {
+  const source = (await load()).sources.find((item) => item.profileId === profileId);
+  return source ? { ...source } : defaultSource(profileId);
+};
+
+const saveSource = async (profileId: string, patch: Partial<LeadSource>) => {
+  const data = await load();
+  const current = data.sources.find((item) => item.profileId === profileId);
+  const next = { ...(current ?? defaultSource(profileId)), ...patch, profileId };
+  data.sources = [...data.sources.filter((item) => item !== current), next];
+  await persist(data);
+  return { ...next };
+};
+
+export const updateLeadSource = async (profileId: string, input: LeadSourceInput) => {
+  if (input.environment !== undefined && input.environment !== "live" && input.environment !== "sandbox") {
+    throw new LeadStoreError(`Unknown lead source "${input.environment}". Use live or sandbox.`);
+  }
+  const current = await getLeadSource(profileId);
+  return saveSource(profileId, {
+    enabled: input.enabled ?? current.enabled,
+    environment: input.environment ?? current.environment,
+    // Switching between the mock and IndiaMART starts the new source from a fresh window.
+    ...(input.environment && input.environment !== current.environment ? { pulledUntil: undefined } : {}),
+  });
+};
+
+export const recordLeadPull = (profileId: string, outcome: { pulledUntil?: number; added?: number; error?: string }) =>
+  saveSource(profileId, {
+    lastPullAt: Date.now(),
+    lastError: outcome.error,
+    ...(outcome.error ? {} : { pulledUntil: outcome.pulledUntil, lastAdded: outcome.added }),
+  });
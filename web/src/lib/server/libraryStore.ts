@@ -0,0 +1,108 @@
+import { randomUUID } from "crypto";
+import { ProductDraft } from "../indiamart";
+import { DRAFT_FIELDS } from "../importMapping";
+import { LibraryProduct, LibraryQuery, LibrarySummary, diffDrafts, latestVersion, matchesQuery } from "../library";
+import { readJsonFile, writeJsonFile } from "./storage";
+
+type StoreState = {
+  data: LibraryProduct[] | null;
+  loading: Promise<LibraryProduct[]> | null;
+};
+
+const STORE_FILE = "library.json";
+
+const globalStore = globalThis as typeof globalThis & { __indiamartLibraryStore?: StoreState };
+const state: StoreState = globalStore.__indiamartLibraryStore ?? { data: null, loading: null };
+globalStore.__indiamartLibraryStore = state;
+
+const load = async () => {
+  if (state.data) {
+    return state.data;
+  }
+  if (!state.loading) {
+    state.loading = readJsonFile<LibraryProduct[]>(STORE_FILE, []).then((data) => {
+      state.data = data;
+      return data;
+    });
+  }
+  return state.loading;
+};
+
+const persist = (data: LibraryProduct[]) => writeJsonFile(STORE_FILE, data);
+
+/** Keeps only known draft fields, as strings, so stored versions always diff cleanly. */
+const cleanDraft = (draft: Partial<ProductDraft>) =>
+  Object.fromEntries(
+    DRAFT_FIELDS.map((field) => [field, typeof draft[field] === "string" ? draft[field] : ""]),
+  ) as ProductDraft;
+
+const toSummary = (product: LibraryProduct): LibrarySummary => ({
+  id: product.id,
+  latest: latestVersion(product),
+  versionCount: product.versions.length,
+  createdAt: product.createdAt,
+  updatedAt: product.updatedAt,
+});
+
+export const listLibrary = async (query: LibraryQuery = {}) =>
+  (await load())
+    .filter((product) => matchesQuery(latestVersion(product).draft, query))
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .map(toSummary);
+
+export const getLibraryProduct = async (id: string) => (await load()).find((product) => product.id === id) ?? null;
+
+/**
+ * Saves a draft as a new version. Without an `id` the draft joins the product with the same SKU, if any, otherwise
+ * it starts a new product. Saving a draft identical to the latest version adds nothing.
+ */
+export const saveToLibrary = async (input: Partial<ProductDraft>, id?: string) => {
+  const data = await load();
+  const draft = cleanDraft(input);
+  const sku = draft.sku.trim().toLowerCase();
+  const product = id
+    ? data.find((item) => item.id === id)
+    : sku
+      ? data.find((item) => latestVersion(item).draft.sku.trim().toLowerCase() === sku)
+      : undefined;
+  if (id && !product) {
+    return null;
+  }
+
+  const now = Date.now();
+  if (!product) {
+    const created: LibraryProduct = {
+      id: randomUUID(),
+      versions: [{ version: 1, draft, savedAt: now }],
+      createdAt: now,
+      updatedAt: now,
+    };
+    data.push(created);
+    await persist(data);
+    return created;
+  }
+
+  const latest = latestVersion(product);
+  if (diffDrafts(latest.draft, draft).length === 0) {
+    return product;
+  }
+  const next: LibraryProduct = {
+    ...product,
+    versions: [...product.versions, { version: latest.version + 1, draft, savedAt: now }],
+    updatedAt: now,
+  };
+  data.splice(data.indexOf(product), 1, next);
+  await persist(data);
+  return next;
+};
+
+export const deleteLibraryProduct = async (id: string) => {
+  const data = await load();
+  const index = data.findIndex((item) => item.id === id);
+  if (index === -1) {
+    return false;
+  }
+  data.splice(index, 1);
+  await persist(data);
+  return true;
+};
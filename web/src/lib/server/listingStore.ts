@@ -0,0 +1,74 @@
+import { ListingRecord, ListingScope } from "../listings";
+import { readJsonFile, writeJsonFile } from "./storage";
+
+type StoreState = {
+  data: Record<string, ListingRecord> | null;
+  loading: Promise<Record<string, ListingRecord>> | null;
+};
+
+const STORE_FILE = "listings.json";
+
+const globalStore = globalThis as typeof globalThis & { __indiamartListingStore?: StoreState };
+const state: StoreState = globalStore.__indiamartListingStore ?? { data: null, loading: null };
+globalStore.__indiamartListingStore = state;
+
+const load = async () => {
+  if (state.data) {
+    return state.data;
+  }
+  if (!state.loading) {
+    state.loading = readJsonFile<Record<string, ListingRecord>>(STORE_FILE, {}).then((stored) => {
+      // Records written before listings were scoped only ever came from live uploads.
+      const data = Object.fromEntries(
+        Object.values(stored).map((listing) => {
+          const scoped = { ...listing, environment: listing.environment ?? "live" };
+          return [toKey(scoped, scoped.sku), scoped];
+        }),
+      );
+      state.data = data;
+      return data;
+    });
+  }
+  return state.loading;
+};
+
+/** SKUs are matched case-insensitively so "ABC-1" in one sheet and "abc-1" in the next hit the same listing. */
+const toKey = (scope: ListingScope, sku: string) =>
+  `${scope.environment}:${scope.profileId ?? "-"}:${sku.trim().toLowerCase()}`;
+
+export const listListings = async () => {
+  const data = await load();
+  return Object.values(data).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const findListing = async (scope: ListingScope, sku: string | undefined) => {
+  if (!sku?.trim()) {
+    return null;
+  }
+  const data = await load();
+  return data[toKey(scope, sku)] ?? null;
+};
+
+export const saveListing = async (listing: Omit<ListingRecord, "createdAt" | "updatedAt">) => {
+  const data = await load();
+  const key = toKey(listing, listing.sku);
+  const now = Date.now();
+  data[key] = {
+    ...listing,
+    createdAt: data[key]?.createdAt ?? now,
+    updatedAt: now,
+  };
+  await writeJsonFile(STORE_FILE, data);
+  return data[key];
+};
+
+export const removeListing = async (scope: ListingScope, sku: string) => {
+  const data = await load();
+  const key = toKey(scope, sku);
+  if (!data[key]) {
+    return false;
+  }
+  delete data[key];
+  await writeJsonFile(STORE_FILE, data);
+  return true;
+};
@@ -0,0 +1,328 @@
+import { randomUUID } from "crypto";
+import { ListingOperation, SANDBOX_TOKEN } from "../indiamart";
+import { readJsonFile, writeJsonFile } from "./storage";
+
+export type MockProduct = {
+  productId: string;
+  sellerId: string;
+  itemCode: string;
+  fields: Record<string, string>;
+  createdAt: number;
+  updatedAt: number;
+};
+
+/** A scripted failure answers the next `remaining` matching requests with `status` instead of running them. */
+export type MockFailure = {
+  id: string;
+  status: number;
+  remaining: number;
+  operation?: ListingOperation;
+  message?: string;
+  retryAfterSeconds?: number;
+  delayMs?: number;
+};
+
+export type MockFailureInput = Partial<Omit<MockFailure, "id">> & { status: number };
+
+export type MockRateLimit = {
+  limit: number;
+  windowMs: number;
+};
+
+export type MockRequestEntry = {
+  at: number;
+  operation: ListingOperation;
+  status: number;
+  productId?: string;
+  message: string;
+};
+
+export type MockResponse = {
+  status: number;
+  body: Record<string, unknown>;
+  headers?: Record<string, string>;
+};
+
+export class MockCatalogError extends Error {}
+
+type StoredCatalog = {
+  products: MockProduct[];
+  nextId: number;
+  failures: MockFailure[];
+  rateLimit: MockRateLimit;
+};
+
+type CatalogState = {
+  data: StoredCatalog | null;
+  loading: Promise<StoredCatalog> | null;
+  hits: Map<string, number[]>;
+  requests: MockRequestEntry[];
+};
+
+const STORE_FILE = "mock-catalog.json";
+const REQUEST_LOG_LIMIT = 100;
+const DEFAULT_RATE_LIMIT: MockRateLimit = { limit: 60, windowMs: 60_000 };
+
+const STATUS_MESSAGES: Record<number, string> = {
+  400: "Bad request.",
+  401: "Auth token is missing.",
+  403: "Auth token is invalid or expired.",
+  404: "Product not found.",
+  409: "A product with this ITEM_CODE already exists.",
+  429: "Too many requests. Please retry later.",
+  500: "Internal server error.",
+  502: "Bad gateway.",
+  503: "Service temporarily unavailable.",
+};
+
+const globalStore = globalThis as typeof globalThis & { __indiamartMockCatalog?: CatalogState };
+const state: CatalogState = globalStore.__indiamartMockCatalog ?? {
+  data: null,
+  loading: null,
+  hits: new Map(),
+  requests: [],
+};
+globalStore.__indiamartMockCatalog = state;
+
+const emptyCatalog = (): StoredCatalog => ({
+  products: [],
+  nextId: 1,
+  failures: [],
+  rateLimit: DEFAULT_RATE_LIMIT,
+});
+
+const load = async () => {
+  if (state.data) {
+    return state.data;
+  }
+  if (!state.loading) {
+    state.loading = readJsonFile<StoredCatalog>(STORE_FILE, emptyCatalog()).then((data) => {
+      state.data = { ...emptyCatalog(), ...data };
+      return state.data;
+    });
+  }
+  return state.loading;
+};
+
+const persist = (data: StoredCatalog) => writeJsonFile(STORE_FILE, data);
+
+/** The mock is a dev tool; production builds only expose it when explicitly asked to. */
+export const isMockCatalogEnabled = () =>
+  process.env.NODE_ENV !== "production" || process.env.MOCK_INDIAMART_ENABLED === "true";
+
+/** Tokens the mock accepts, as auth tokens for the catalog and as CRM keys for the lead API. */
+export const acceptedTokens = () =>
+  (process.env.MOCK_INDIAMART_TOKENS || SANDBOX_TOKEN)
+    .split(",")
+    .map((token) => token.trim())
+    .filter(Boolean);
+
+/** Mirrors the envelope the seller API uses for both success and failure. */
+const reply = (status: number, message = STATUS_MESSAGES[status] ?? "Request failed.", extra = {}): MockResponse => ({
+  status,
+  body: {
+    CODE: status,
+    STATUS: status < 400 ? "SUCCESS" : "FAILURE",
+    MESSAGE: message,
+    ...extra,
+  },
+});
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Sliding window per token; returns the seconds to wait when the window is full. */
+const consumeRateLimit = (token: string, rateLimit: MockRateLimit) => {
+  const now = Date.now();
+  const recent = (state.hits.get(token) ?? []).filter((at) => now - at < rateLimit.windowMs);
+  if (recent.length >= rateLimit.limit) {
+    state.hits.set(token, recent);
+    return Math.max(1, Math.ceil((recent[0] + rateLimit.windowMs - now) / 1000));
+  }
+  recent.push(now);
+  state.hits.set(token, recent);
+  return 0;
+};
+
+const takeScriptedFailure = async (data: StoredCatalog, operation: ListingOperation) => {
+  const failure = data.failures.find((item) => !item.operation || item.operation === operation);
+  if (!failure) {
+    return null;
+  }
+  failure.remaining -= 1;
+  if (failure.remaining <= 0) {
+    data.failures.splice(data.failures.indexOf(failure), 1);
+  }
+  await persist(data);
+  return failure;
+};
+
+const readField = (body: Record<string, unknown>, key: string) => {
+  const value = body[key];
+  return typeof value === "string" || typeof value === "number" ? String(value).trim() : "";
+};
+
+const applyOperation = async (
+  data: StoredCatalog,
+  operation: ListingOperation,
+  body: Record<string, unknown>,
+): Promise<MockResponse> => {
+  const sellerId = readField(body, "SELLER_ID");
+  if (!sellerId) {
+    return reply(400, "SELLER_ID is required.");
+  }
+
+  if (operation === "create") {
+    const itemCode = readField(body, "ITEM_CODE");
+    if (!readField(body, "PRODUCT_NAME")) {
+      return reply(400, "PRODUCT_NAME is required.");
+    }
+    if (itemCode && data.products.some((item) => item.sellerId === sellerId && item.itemCode === itemCode)) {
+      return reply(409);
+    }
+    const now = Date.now();
+    const product: MockProduct = {
+      productId: `MOCK${String(data.nextId).padStart(6, "0")}`,
+      sellerId,
+      itemCode,
+      fields: Object.fromEntries(Object.entries(body).map(([key, value]) => [key, String(value ?? "")])),
+      createdAt: now,
+      updatedAt: now,
+    };
+    data.nextId += 1;
+    data.products.push(product);
+    await persist(data);
+    return reply(200, "Product added successfully.", { PRODUCT_ID: product.productId });
+  }
+
+  const productId = readField(body, "PRODUCT_ID");
+  const product = data.products.find((item) => item.productId === productId && item.sellerId === sellerId);
+  if (!product) {
+    return reply(404, productId ? `Product ${productId} not found.` : "PRODUCT_ID is required.");
+  }
+
+  if (operation === "delete") {
+    data.products.splice(data.products.indexOf(product), 1);
+    await persist(data);
+    return reply(200, "Product deleted successfully.", { PRODUCT_ID: productId });
+  }
+
+  product.fields = {
+    ...product.fields,
+    ...Object.fromEntries(Object.entries(body).map(([key, value]) => [key, String(value ?? "")])),
+  };
+  product.itemCode = readField(body, "ITEM_CODE") || product.itemCode;
+  product.updatedAt = Date.now();
+  await persist(data);
+  return reply(200, "Product updated successfully.", { PRODUCT_ID: productId });
+};
+
+const record = (operation: ListingOperation, response: MockResponse, productId?: string) => {
+  state.requests.unshift({
+    at: Date.now(),
+    operation,
+    status: response.status,
+    productId,
+    message: String(response.body.MESSAGE ?? ""),
+  });
+  state.requests.length = Math.min(state.requests.length, REQUEST_LOG_LIMIT);
+  return response;
+};
+
+/**
+ * Handles one catalog call the way the seller API does: auth first, then the per-token rate limit, then any
+ * scripted failure, and only then the actual change to the stored catalog.
+ */
+export const handleMockRequest = async (
+  operation: ListingOperation,
+  token: string | null,
+  body: unknown,
+): Promise<MockResponse> => {
+  const data = await load();
+
+  if (!token) {
+    return record(operation, reply(401));
+  }
+  if (!acceptedTokens().includes(token)) {
+    return record(operation, reply(403));
+  }
+
+  const retryAfter = consumeRateLimit(token, data.rateLimit);
+  if (retryAfter) {
+    return record(operation, { ...reply(429), headers: { "Retry-After": String(retryAfter) } });
+  }
+
+  const failure = await takeScriptedFailure(data, operation);
+  if (failure) {
+    if (failure.delayMs) {
+      await wait(failure.delayMs);
+    }
+    const response = reply(failure.status, failure.message);
+    return record(
+      operation,
+      failure.retryAfterSeconds
+        ? { ...response, headers: { "Retry-After": String(failure.retryAfterSeconds) } }
+        : response,
+    );
+  }
+
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return record(operation, reply(400, "Request body must be a JSON object."));
+  }
+
+  const response = await applyOperation(data, operation, body as Record<string, unknown>);
+  return record(
+    operation,
+    response,
+    typeof response.body.PRODUCT_ID === "string" ? response.body.PRODUCT_ID : undefined,
+  );
+};
+
+export const getMockState = async () => {
+  const data = await load();
+  return {
+    products: data.products,
+    failures: data.failures,
+    rateLimit: data.rateLimit,
+    requests: state.requests,
+  };
+};
+
+export const scriptFailures = async (inputs: MockFailureInput[]) => {
+  const data = await load();
+  for (const input of inputs) {
+    if (!Number.isInteger(input.status) || input.status < 400 || input.status > 599) {
+      throw new MockCatalogError("Scripted failures need an HTTP status between 400 and 599.");
+    }
+    data.failures.push({
+      id: randomUUID(),
+      status: input.status,
+      remaining: Math.max(1, Math.floor(input.remaining ?? 1)),
+      operation: input.operation,
+      message: input.message,
+      retryAfterSeconds: input.retryAfterSeconds,
+      delayMs: input.delayMs,
+    });
+  }
+  await persist(data);
+  return data.failures;
+};
+
+export const setRateLimit = async (rateLimit: Partial<MockRateLimit>) => {
+  const data = await load();
+  data.rateLimit = {
+    limit: Math.max(1, Math.floor(rateLimit.limit ?? data.rateLimit.limit)),
+    windowMs: Math.max(1000, Math.floor(rateLimit.windowMs ?? data.rateLimit.windowMs)),
+  };
+  state.hits.clear();
+  await persist(data);
+  return data.rateLimit;
+};
+
+/** Drops every stored product, scripted failure and rate-limit window. */
+export const resetMockCatalog = async () => {
+  state.data = emptyCatalog();
+  state.loading = Promise.resolve(state.data);
+  state.hits.clear();
+  state.requests.length = 0;
+  await persist(state.data);
+};
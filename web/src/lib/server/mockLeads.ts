@@ -0,0 +1,161 @@
+import { IndiaMartLeadRecord, LEAD_WINDOW_MAX_MS, formatQueryTime, parseLeadApiTime } from "../leads";
+import { MockCatalogError, MockResponse, acceptedTokens, getMockState } from "./mockCatalog";
+import { readJsonFile, writeJsonFile } from "./storage";
+
+/** An enquiry waiting in the mock Lead Manager; QUERY_TIME is derived from `receivedAt` when it is pulled. */
+export type MockEnquiry = Omit<IndiaMartLeadRecord, "QUERY_TIME"> & { receivedAt: number };
+
+export type MockEnquiryInput = Partial<Omit<MockEnquiry, "UNIQUE_QUERY_ID">>;
+
+type StoredLeads = {
+  enquiries: MockEnquiry[];
+  nextId: number;
+};
+
+type LeadsState = {
+  data: StoredLeads | null;
+  loading: Promise<StoredLeads> | null;
+};
+
+const STORE_FILE = "mock-leads.json";
+const GENERATE_LIMIT = 100;
+
+const BUYERS = [
+  { SENDER_NAME: "Rohit Sharma", SENDER_COMPANY: "Sharma Traders", SENDER_CITY: "Jaipur", SENDER_STATE: "Rajasthan" },
+  { SENDER_NAME: "Priya Nair", SENDER_COMPANY: "Coastal Exports", SENDER_CITY: "Kochi", SENDER_STATE: "Kerala" },
+  { SENDER_NAME: "Amit Patel", SENDER_COMPANY: "Patel Hardware", SENDER_CITY: "Surat", SENDER_STATE: "Gujarat" },
+  { SENDER_NAME: "Sunita Rao", SENDER_COMPANY: "", SENDER_CITY: "Hyderabad", SENDER_STATE: "Telangana" },
+  { SENDER_NAME: "Vikram Singh", SENDER_COMPANY: "VS Retail", SENDER_CITY: "Lucknow", SENDER_STATE: "Uttar Pradesh" },
+];
+
+const FALLBACK_PRODUCTS = ["Stainless Steel Water Bottle", "Cotton Tote Bag", "LED Panel Light"];
+
+const MESSAGES = [
+  "Please share your best price for 100 pieces.",
+  "Need this urgently. What is the delivery time to my city?",
+  "Kindly send the catalogue and GST-inclusive rates.",
+  "Interested in bulk purchase. Is customisation possible?",
+];
+
+const globalStore = globalThis as typeof globalThis & { __indiamartMockLeads?: LeadsState };
+const state: LeadsState = globalStore.__indiamartMockLeads ?? { data: null, loading: null };
+globalStore.__indiamartMockLeads = state;
+
+const load = async () => {
+  if (state.data) {
+    return state.data;
+  }
+  if (!state.loading) {
+    state.loading = readJsonFile<StoredLeads>(STORE_FILE, { enquiries: [], nextId: 1 }).then((data) => {
+      state.data = data;
+      return data;
+    });
+  }
+  return state.loading;
+};
+
+const persist = (data: StoredLeads) => writeJsonFile(STORE_FILE, data);
+
+const pick = <T>(items: T[]) => items[Math.floor(Math.random() * items.length)];
+
+/** Each buyer keeps one phone number and address, so generated repeats look like the same person enquiring again. */
+const contactFor = (name: string) => {
+  const seed = [...name].reduce((sum, char) => (sum * 31 + char.charCodeAt(0)) % 100_000_000, 7);
+  return {
+    SENDER_MOBILE: `+91-9${String(seed).padStart(9, "0").slice(-9)}`,
+    SENDER_EMAIL: `${name.toLowerCase().replace(/[^a-z]+/g, ".")}@example.com`,
+  };
+};
+
+const reply = (code: number, message: string, records: IndiaMartLeadRecord[] = []): MockResponse => ({
+  // Like IndiaMART, errors still come back as HTTP 200 with the real outcome in CODE.
+  status: 200,
+  body: {
+    CODE: code,
+    STATUS: code === 200 ? "SUCCESS" : "FAILURE",
+    MESSAGE: message,
+    TOTAL_RECORDS: records.length,
+    RESPONSE: records,
+  },
+});
+
+/**
+ * Adds enquiries to the mock inbox: the ones given, then `count` random enquiries about products in the mock catalog
+ * (of `sellerId` when given), so pulled leads can be linked to sandbox uploads.
+ */
+export const addMockEnquiries = async (input: {
+  count?: number;
+  sellerId?: string;
+  enquiries?: MockEnquiryInput[];
+}) => {
+  const data = await load();
+  const count = Math.floor(input.count ?? 0);
+  if (count < 0 || count > GENERATE_LIMIT) {
+    throw new MockCatalogError(`Generate between 0 and ${GENERATE_LIMIT} enquiries at a time.`);
+  }
+  const products = (await getMockState()).products
+    .filter((product) => !input.sellerId || product.sellerId === input.sellerId)
+    .map((product) => ({ name: product.fields.PRODUCT_NAME ?? "", category: product.fields.CATEGORY ?? "" }))
+    .filter((product) => product.name);
+  const random = Array.from({ length: count }, (): MockEnquiryInput => {
+    const product = products.length ? pick(products) : { name: pick(FALLBACK_PRODUCTS), category: "" };
+    return { ...pick(BUYERS), QUERY_PRODUCT_NAME: product.name, QUERY_MCAT_NAME: product.category };
+  });
+
+  const now = Date.now();
+  const created = [...(input.enquiries ?? []), ...random].map((item): MockEnquiry => {
+    const name = item.SENDER_NAME ?? pick(BUYERS).SENDER_NAME;
+    const productName = item.QUERY_PRODUCT_NAME ?? pick(FALLBACK_PRODUCTS);
+    const enquiry: MockEnquiry = {
+      QUERY_TYPE: "W",
+      SENDER_COMPANY: "",
+      SENDER_CITY: "",
+      SENDER_STATE: "",
+      SUBJECT: `Requirement for ${productName}`,
+      QUERY_MESSAGE: pick(MESSAGES),
+      QUERY_MCAT_NAME: "",
+      ...contactFor(name),
+      ...item,
+      SENDER_NAME: name,
+      QUERY_PRODUCT_NAME: productName,
+      UNIQUE_QUERY_ID: String(2_000_000_000 + data.nextId),
+      receivedAt: item.receivedAt ?? now,
+    };
+    data.nextId += 1;
+    return enquiry;
+  });
+  data.enquiries.push(...created);
+  await persist(data);
+  return created;
+};
+
+export const listMockEnquiries = async () => (await load()).enquiries;
+
+export const resetMockLeads = async () => {
+  state.data = { enquiries: [], nextId: 1 };
+  state.loading = Promise.resolve(state.data);
+  await persist(state.data);
+};
+
+/** Answers a crmListing/v2 pull the way IndiaMART does, including its key and time-window checks. */
+export const handleMockLeadPull = async (key: string | null, startTime: string | null, endTime: string | null) => {
+  if (!key) {
+    return reply(401, "glusr_crm_key is required.");
+  }
+  if (!acceptedTokens().includes(key)) {
+    return reply(401, "Invalid CRM key.");
+  }
+  const start = parseLeadApiTime(startTime ?? "");
+  const end = parseLeadApiTime(endTime ?? "");
+  if (Number.isNaN(start) || Number.isNaN(end) || start > end) {
+    return reply(400, "start_time and end_time must be DD-Mon-YYYYHH:MM:SS, with start_time first.");
+  }
+  if (end - start > LEAD_WINDOW_MAX_MS) {
+    return reply(400, "The difference between start_time and end_time cannot be more than 7 days.");
+  }
+  // The API's times have whole-second precision, so the window's last second is included in full.
+  const records = (await load()).enquiries
+    .filter((enquiry) => enquiry.receivedAt >= start && enquiry.receivedAt < end + 1000)
+    .map(({ receivedAt, ...enquiry }) => ({ ...enquiry, QUERY_TIME: formatQueryTime(receivedAt) }));
+  return records.length ? reply(200, "", records) : reply(204, "There are no leads in the given time duration.");
+};
@@ -0,0 +1,202 @@
+import { randomUUID } from "crypto";
+import {
+  EmailSettings,
+  NOTIFICATION_EVENTS,
+  NotificationEvent,
+  NotificationSettings,
+  NotificationSettingsInput,
+  SmtpSecurity,
+} from "../notifications";
+import { decrypt, encrypt } from "./profileVault";
+import { readJsonFile, writeJsonFile } from "./storage";
+
+type StoredWebhook = { id: string; url: string; encryptedSecret?: string };
+
+type StoredEmail = Omit<EmailSettings, "hasPassword"> & { encryptedPassword?: string };
+
+type StoredSettings = {
+  events: Record<NotificationEvent, boolean>;
+  webhooks: StoredWebhook[];
+  email: StoredEmail | null;
+  updatedAt: number;
+};
+
+type StoreState = {
+  data: StoredSettings | null;
+  loading: Promise<StoredSettings> | null;
+};
+
+/** Decrypted delivery targets; only the notifier sees these. */
+export type NotificationTargets = {
+  events: Record<NotificationEvent, boolean>;
+  webhooks: { id: string; url: string; secret?: string }[];
+  email: (Omit<EmailSettings, "hasPassword"> & { password?: string }) | null;
+};
+
+export class NotificationStoreError extends Error {}
+
+const STORE_FILE = "notifications.json";
+
+const SMTP_SECURITY: SmtpSecurity[] = ["tls", "starttls", "none"];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+$/;
+
+const globalStore = globalThis as typeof globalThis & { __indiamartNotificationStore?: StoreState };
+const state: StoreState = globalStore.__indiamartNotificationStore ?? { data: null, loading: null };
+globalStore.__indiamartNotificationStore = state;
+
+const defaultSettings = (): StoredSettings => ({
+  events: Object.fromEntries(NOTIFICATION_EVENTS.map((event) => [event, true])) as Record<NotificationEvent, boolean>,
+  webhooks: [],
+  email: null,
+  updatedAt: Date.now(),
+});
+
+const load = async () => {
+  if (state.data) {
+    return state.data;
+  }
+  if (!state.loading) {
+    state.loading = readJsonFile<StoredSettings>(STORE_FILE, defaultSettings()).then((data) => {
+      state.data = data;
+      return data;
+    });
+  }
+  return state.loading;
+};
+
+const persist = (data: StoredSettings) => writeJsonFile(STORE_FILE, data);
+
+const toPublic = (data: StoredSettings): NotificationSettings => ({
+  events: { ...data.events },
+  webhooks: data.webhooks.map((webhook) => ({
+    id: webhook.id,
+    url: webhook.url,
+    hasSecret: Boolean(webhook.encryptedSecret),
+  })),
+  email: data.email
+    ? {
+        host: data.email.host,
+        port: data.email.port,
+        security: data.email.security,
+        username: data.email.username,
+        hasPassword: Boolean(data.email.encryptedPassword),
+        from: data.email.from,
+        to: [...data.email.to],
+      }
+    : null,
+  updatedAt: data.updatedAt,
+});
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+/** Blank means "no secret"; undefined keeps what was stored. */
+const sealOptional = async (value: string | undefined, stored: string | undefined) => {
+  if (value === undefined) {
+    return stored;
+  }
+  return value.trim() ? encrypt(value.trim()) : undefined;
+};
+
+const buildWebhooks = async (input: NonNullable<NotificationSettingsInput["webhooks"]>, stored: StoredWebhook[]) =>
+  Promise.all(
+    input.map(async (webhook) => {
+      const url = webhook.url?.trim() ?? "";
+      if (!isHttpUrl(url)) {
+        throw new NotificationStoreError(`Webhook URL must be http(s): "${url}".`);
+      }
+      const previous = stored.find((item) => item.id === webhook.id);
+      return {
+        id: previous?.id ?? randomUUID(),
+        url,
+        encryptedSecret: await sealOptional(webhook.secret, previous?.encryptedSecret),
+      };
+    }),
+  );
+
+const buildEmail = async (
+  input: NonNullable<NotificationSettingsInput["email"]>,
+  stored: StoredEmail | null,
+): Promise<StoredEmail> => {
+  const to = (Array.isArray(input.to) ? input.to : String(input.to ?? "").split(","))
+    .map((address) => address.trim())
+    .filter(Boolean);
+  const port = Number(input.port);
+  const host = input.host?.trim() ?? "";
+  const from = input.from?.trim() ?? "";
+  if (!host) {
+    throw new NotificationStoreError("SMTP host is required.");
+  }
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new NotificationStoreError("SMTP port must be between 1 and 65535.");
+  }
+  if (!SMTP_SECURITY.includes(input.security)) {
+    throw new NotificationStoreError(`Unknown SMTP security "${input.security}".`);
+  }
+  if (!EMAIL_PATTERN.test(from)) {
+    throw new NotificationStoreError("Sender address is not a valid email address.");
+  }
+  if (to.length === 0 || to.some((address) => !EMAIL_PATTERN.test(address))) {
+    throw new NotificationStoreError("Give at least one valid recipient address.");
+  }
+  return {
+    host,
+    port,
+    security: input.security,
+    username: input.username?.trim() ?? "",
+    encryptedPassword: await sealOptional(input.password, stored?.encryptedPassword),
+    from,
+    to,
+  };
+};
+
+export const getNotificationSettings = async () => toPublic(await load());
+
+export const updateNotificationSettings = async (input: NotificationSettingsInput) => {
+  const data = await load();
+  const events = { ...data.events };
+  NOTIFICATION_EVENTS.forEach((event) => {
+    const value = input.events?.[event];
+    if (typeof value === "boolean") {
+      events[event] = value;
+    }
+  });
+  const webhooks = input.webhooks ? await buildWebhooks(input.webhooks, data.webhooks) : data.webhooks;
+  const email =
+    input.email === undefined ? data.email : input.email === null ? null : await buildEmail(input.email, data.email);
+
+  Object.assign(data, { events, webhooks, email, updatedAt: Date.now() });
+  await persist(data);
+  return toPublic(data);
+};
+
+export const resolveNotificationTargets = async (): Promise<NotificationTargets> => {
+  const data = await load();
+  return {
+    events: { ...data.events },
+    webhooks: await Promise.all(
+      data.webhooks.map(async (webhook) => ({
+        id: webhook.id,
+        url: webhook.url,
+        secret: webhook.encryptedSecret ? await decrypt(webhook.encryptedSecret) : undefined,
+      })),
+    ),
+    email: data.email
+      ? {
+          host: data.email.host,
+          port: data.email.port,
+          security: data.email.security,
+          username: data.email.username,
+          password: data.email.encryptedPassword ? await decrypt(data.email.encryptedPassword) : undefined,
+          from: data.email.from,
+          to: [...data.email.to],
+        }
+      : null,
+  };
+};
@@ -0,0 +1,225 @@
+import { createHmac, randomUUID } from "crypto";
+import { RetryPolicy, UploadJob, retryDelay } from "../jobs";
+import {
+  NotificationEvent,
+  NotificationPayload,
+  NotifiedProduct,
+  notificationSubject,
+  renderNotificationText,
+} from "../notifications";
+import { recordAudit } from "./auditLog";
+import { NotificationTargets, resolveNotificationTargets } from "./notificationStore";
+import { sendMail } from "./smtp";
+
+type RunContext = { profileId?: string; mode?: string };
+
+type NotifierState = {
+  /** Failures collected into one digest instead of a message per product. */
+  failures: NotifiedProduct[];
+  failureContext: RunContext;
+  digestTimer: ReturnType<typeof setTimeout> | null;
+  /** Last credential alert per seller profile, so a batch of 401s raises one alert. */
+  credentialAlerts: Map<string, number>;
+};
+
+const DELIVERY_POLICY: RetryPolicy = { maxAttempts: 5, baseDelayMs: 2000, maxDelayMs: 60_000 };
+const WEBHOOK_TIMEOUT_MS = 10_000;
+const FAILURE_DIGEST_MS = 30_000;
+const CREDENTIAL_ALERT_INTERVAL_MS = 15 * 60_000;
+
+const globalNotifier = globalThis as typeof globalThis & { __indiamartNotifier?: NotifierState };
+const notifier: NotifierState = globalNotifier.__indiamartNotifier ?? {
+  failures: [],
+  failureContext: {},
+  digestTimer: null,
+  credentialAlerts: new Map(),
+};
+globalNotifier.__indiamartNotifier = notifier;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+/** Receivers recompute this over `<X-Agent-Timestamp>.<raw body>` and compare, rejecting stale timestamps. */
+export const signWebhook = (secret: string, timestamp: string, body: string) =>
+  createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+
+const deliverWebhook = async (webhook: NotificationTargets["webhooks"][number], payload: NotificationPayload) => {
+  const body = JSON.stringify(payload);
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const response = await fetch(webhook.url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "User-Agent": "indiamart-agent",
+      "X-Agent-Event": payload.event,
+      "X-Agent-Delivery": randomUUID(),
+      "X-Agent-Timestamp": timestamp,
+      ...(webhook.secret ? { "X-Agent-Signature": `sha256=${signWebhook(webhook.secret, timestamp, body)}` } : {}),
+    },
+    body,
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Webhook answered HTTP ${response.status}.`);
+  }
+};
+
+const deliverEmail = async (email: NonNullable<NotificationTargets["email"]>, payload: NotificationPayload) => {
+  await sendMail(
+    {
+      host: email.host,
+      port: email.port,
+      security: email.security,
+      username: email.username,
+      password: email.password,
+    },
+    { from: email.from, to: email.to, subject: notificationSubject(payload), text: renderNotificationText(payload) },
+  );
+};
+
+type Delivery = { channel: string; deliver: () => Promise<void> };
+
+const deliveriesFor = (targets: NotificationTargets, payload: NotificationPayload): Delivery[] => {
+  const { email } = targets;
+  return [
+    ...targets.webhooks.map((webhook) => ({
+      channel: `webhook ${webhook.url}`,
+      deliver: () => deliverWebhook(webhook, payload),
+    })),
+    ...(email ? [{ channel: `email to ${email.to.join(", ")}`, deliver: () => deliverEmail(email, payload) }] : []),
+  ];
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : "Unknown error.");
+
+/** Retries with backoff and records the final outcome in the audit log. */
+const deliverWithRetry = async ({ channel, deliver }: Delivery, payload: NotificationPayload) => {
+  for (let attempt = 1; attempt <= DELIVERY_POLICY.maxAttempts; attempt += 1) {
+    try {
+      await deliver();
+      await recordAudit({ level: "info", headline: `Notification sent: ${payload.event}`, details: `Via ${channel}.` });
+      return;
+    } catch (error) {
+      if (attempt === DELIVERY_POLICY.maxAttempts) {
+        await recordAudit({
+          level: "error",
+          headline: `Notification failed: ${payload.event}`,
+          details: `Via ${channel}, after ${plural(attempt, "attempt")}: ${errorMessage(error)}`,
+        });
+        return;
+      }
+      await sleep(retryDelay(DELIVERY_POLICY, attempt));
+    }
+  }
+};
+
+const dispatch = (payload: NotificationPayload) => {
+  void resolveNotificationTargets()
+    .then((targets) => {
+      if (!targets.events[payload.event]) {
+        return;
+      }
+      return Promise.all(deliveriesFor(targets, payload).map((delivery) => deliverWithRetry(delivery, payload)));
+    })
+    .catch((error) => {
+      console.error("Unable to send notifications", error);
+    });
+};
+
+const toNotified = (job: UploadJob): NotifiedProduct => ({
+  jobId: job.id,
+  sku: job.product.sku,
+  title: job.product.title,
+  productId: job.productId,
+  error: job.state === "failed" ? job.error : undefined,
+});
+
+const buildPayload = (
+  event: NotificationEvent,
+  summary: string,
+  context: RunContext,
+  products: { succeeded?: NotifiedProduct[]; failed?: NotifiedProduct[] },
+): NotificationPayload => ({
+  event,
+  timestamp: Date.now(),
+  summary,
+  profileId: context.profileId,
+  mode: context.mode,
+  succeeded: products.succeeded ?? [],
+  failed: products.failed ?? [],
+});
+
+const flushFailures = () => {
+  if (notifier.digestTimer) {
+    clearTimeout(notifier.digestTimer);
+    notifier.digestTimer = null;
+  }
+  const failed = notifier.failures;
+  notifier.failures = [];
+  if (failed.length) {
+    dispatch(
+      buildPayload("job.failed", `${plural(failed.length, "product")} failed`, notifier.failureContext, { failed }),
+    );
+  }
+};
+
+export const notifyJobFailed = (job: UploadJob, context: RunContext) => {
+  notifier.failures.push(toNotified(job));
+  notifier.failureContext = context;
+  notifier.digestTimer = notifier.digestTimer ?? setTimeout(flushFailures, FAILURE_DIGEST_MS);
+};
+
+/** `finished` are the jobs that ended during this run. Pending failures go out first so none are lost. */
+export const notifyQueueCompleted = (finished: UploadJob[], context: RunContext) => {
+  flushFailures();
+  const succeeded = finished.filter((job) => job.state === "succeeded").map(toNotified);
+  const failed = finished.filter((job) => job.state === "failed").map(toNotified);
+  dispatch(
+    buildPayload(
+      "queue.completed",
+      `${plural(succeeded.length, "product")} succeeded, ${failed.length} failed`,
+      context,
+      { succeeded, failed },
+    ),
+  );
+};
+
+export const notifyCredentialsRejected = (
+  job: UploadJob,
+  upstreamStatus: number,
+  error: string,
+  context: RunContext,
+) => {
+  const key = context.profileId ?? "";
+  const last = notifier.credentialAlerts.get(key) ?? 0;
+  if (Date.now() - last < CREDENTIAL_ALERT_INTERVAL_MS) {
+    return;
+  }
+  notifier.credentialAlerts.set(key, Date.now());
+  dispatch({
+    ...buildPayload(
+      "credentials.rejected",
+      `IndiaMART answered ${upstreamStatus}; check the seller profile's API key`,
+      context,
+      { failed: [{ ...toNotified(job), error }] },
+    ),
+    upstreamStatus,
+  });
+};
+
+/** One attempt per channel, awaited, so the settings panel can show what went wrong. */
+export const sendTestNotification = async () => {
+  const targets = await resolveNotificationTargets();
+  const payload = buildPayload("queue.completed", "Test notification from the IndiaMART agent", {}, {});
+  return Promise.all(
+    deliveriesFor(targets, payload).map(async ({ channel, deliver }) => {
+      try {
+        await deliver();
+        return { channel, ok: true };
+      } catch (error) {
+        return { channel, ok: false, error: errorMessage(error) };
+      }
+    }),
+  );
+};
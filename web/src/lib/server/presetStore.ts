@@ -0,0 +1,103 @@
+import { randomUUID } from "crypto";
+import { DRAFT_FIELD_LABELS, ImportPreset, ImportPresetInput } from "../importMapping";
+import { readJsonFile, writeJsonFile } from "./storage";
+
+type StoreState = {
+  data: ImportPreset[] | null;
+  loading: Promise<ImportPreset[]> | null;
+};
+
+export class PresetStoreError extends Error {}
+
+const STORE_FILE = "import-presets.json";
+
+const globalStore = globalThis as typeof globalThis & { __indiamartPresetStore?: StoreState };
+const state: StoreState = globalStore.__indiamartPresetStore ?? { data: null, loading: null };
+globalStore.__indiamartPresetStore = state;
+
+const load = async () => {
+  if (state.data) {
+    return state.data;
+  }
+  if (!state.loading) {
+    state.loading = readJsonFile<ImportPreset[]>(STORE_FILE, []).then((data) => {
+      state.data = data;
+      return data;
+    });
+  }
+  return state.loading;
+};
+
+const persist = (data: ImportPreset[]) => writeJsonFile(STORE_FILE, data);
+
+const isKnownTarget = (value: unknown) =>
+  value === "ignore" || (typeof value === "string" && value in DRAFT_FIELD_LABELS);
+
+const applyInput = (preset: ImportPreset, input: ImportPresetInput) => {
+  if (input.supplier !== undefined) {
+    preset.supplier = input.supplier.trim();
+  }
+  if (input.mapping !== undefined) {
+    if (Object.values(input.mapping).some((target) => !isKnownTarget(target))) {
+      throw new PresetStoreError('Mapping targets must be product fields or "ignore".');
+    }
+    preset.mapping = { ...input.mapping };
+  }
+  if (input.defaults !== undefined) {
+    preset.defaults = Object.fromEntries(
+      Object.entries(input.defaults).filter(
+        ([field, value]) => field in DRAFT_FIELD_LABELS && typeof value === "string" && value.trim(),
+      ),
+    );
+  }
+  if (!preset.supplier) {
+    throw new PresetStoreError("Supplier name is required.");
+  }
+};
+
+export const listPresets = async () => [...(await load())].sort((a, b) => a.supplier.localeCompare(b.supplier));
+
+/** Saving under a supplier name that already has a preset replaces it, so each supplier keeps one mapping. */
+export const savePreset = async (input: ImportPresetInput) => {
+  const data = await load();
+  const supplier = input.supplier?.trim().toLowerCase();
+  const existing = data.find((item) => item.supplier.toLowerCase() === supplier);
+  const now = Date.now();
+  const preset: ImportPreset = existing
+    ? { ...existing }
+    : { id: randomUUID(), supplier: "", mapping: {}, defaults: {}, createdAt: now, updatedAt: now };
+  applyInput(preset, input);
+  preset.updatedAt = now;
+  if (existing) {
+    data.splice(data.indexOf(existing), 1, preset);
+  } else {
+    data.push(preset);
+  }
+  await persist(data);
+  return preset;
+};
+
+export const updatePreset = async (id: string, input: ImportPresetInput) => {
+  const data = await load();
+  const preset = data.find((item) => item.id === id);
+  if (!preset) {
+    return null;
+  }
+  const next = { ...preset };
+  applyInput(next, input);
+  next.updatedAt = Date.now();
+  data.splice(data.indexOf(preset), 1, next);
+  await persist(data);
+  return next;
+};
+
+export const deletePreset = async (id: string) => {
+  const data = await load();
+  const index = data.findIndex((item) => item.id === id);
+  if (index === -1) {
+    return false;
+  }
+  data.splice(index, 1);
+  await persist(data);
+  return true;
+};
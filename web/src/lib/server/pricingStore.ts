@@ -0,0 +1,215 @@
+import { randomUUID } from "crypto";
+import { ProductDraft } from "../indiamart";
+import {
+  BASE_CURRENCY,
+  ExchangeRates,
+  PRICE_ROUNDINGS,
+  PriceCalculation,
+  PriceTier,
+  PricingRule,
+  PricingRuleInput,
+  priceDraft,
+} from "../pricing";
+import { readJsonFile, writeJsonFile } from "./storage";
+
+type StoreFile = {
+  rules: PricingRule[];
+  exchangeRates: ExchangeRates;
+};
+
+type StoreState = {
+  data: StoreFile | null;
+  loading: Promise<StoreFile> | null;
+};
+
+export class PricingStoreError extends Error {}
+
+const STORE_FILE = "pricing.json";
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+const globalStore = globalThis as typeof globalThis & { __indiamartPricingStore?: StoreState };
+const state: StoreState = globalStore.__indiamartPricingStore ?? { data: null, loading: null };
+globalStore.__indiamartPricingStore = state;
+
+const load = async () => {
+  if (state.data) {
+    return state.data;
+  }
+  if (!state.loading) {
+    state.loading = readJsonFile<StoreFile>(STORE_FILE, {
+      rules: [],
+      exchangeRates: { rates: {}, updatedAt: Date.now() },
+    }).then((data) => {
+      state.data = data;
+      return data;
+    });
+  }
+  return state.loading;
+};
+
+const persist = (data: StoreFile) => writeJsonFile(STORE_FILE, data);
+
+const readAmount = (value: unknown, label: string) => {
+  const amount = Number(value);
+  if (!Number.isFinite(amount)) {
+    throw new PricingStoreError(`${label} must be a number.`);
+  }
+  return amount;
+};
+
+/** `null` or a blank value removes the limit. */
+const readLimit = (value: unknown, label: string) =>
+  value === null || value === "" ? undefined : readAmount(value, label);
+
+const readCurrency = (value: unknown) => {
+  const currency = String(value ?? "")
+    .trim()
+    .toUpperCase();
+  if (!CURRENCY_PATTERN.test(currency)) {
+    throw new PricingStoreError(`"${value}" is not a three-letter currency code.`);
+  }
+  return currency;
+};
+
+const readTiers = (tiers: unknown): PriceTier[] => {
+  if (!Array.isArray(tiers)) {
+    throw new PricingStoreError("Tiers must be a list.");
+  }
+  return tiers
+    .map((tier) => ({
+      minQty: readAmount(tier?.minQty, "Tier quantity"),
+      discountPercent: readAmount(tier?.discountPercent, "Tier discount"),
+    }))
+    .sort((a, b) => a.minQty - b.minQty);
+};
+
+const applyInput = (rule: PricingRule, input: PricingRuleInput) => {
+  if (input.name !== undefined) {
+    rule.name = String(input.name).trim();
+  }
+  if (input.categories !== undefined) {
+    if (!Array.isArray(input.categories)) {
+      throw new PricingStoreError("Categories must be a list.");
+    }
+    rule.categories = input.categories.map((category) => String(category).trim()).filter(Boolean);
+  }
+  if (input.profileId !== undefined) {
+    rule.profileId = input.profileId || undefined;
+  }
+  if (input.markupPercent !== undefined) {
+    rule.markupPercent = readAmount(input.markupPercent, "Markup percentage");
+  }
+  if (input.markupFixed !== undefined) {
+    rule.markupFixed = readAmount(input.markupFixed, "Fixed markup");
+  }
+  if (input.currency !== undefined) {
+    rule.currency = readCurrency(input.currency);
+  }
+  if (input.rounding !== undefined) {
+    if (!PRICE_ROUNDINGS.includes(input.rounding)) {
+      throw new PricingStoreError(`Unknown rounding "${input.rounding}".`);
+    }
+    rule.rounding = input.rounding;
+  }
+  if (input.floor !== undefined) {
+    rule.floor = readLimit(input.floor, "Floor price");
+  }
+  if (input.ceiling !== undefined) {
+    rule.ceiling = readLimit(input.ceiling, "Ceiling price");
+  }
+  if (input.tiers !== undefined) {
+    rule.tiers = readTiers(input.tiers);
+  }
+  if (!rule.name) {
+    throw new PricingStoreError("Rule name is required.");
+  }
+  if (rule.floor !== undefined && rule.ceiling !== undefined && rule.floor > rule.ceiling) {
+    throw new PricingStoreError("The floor price is above the ceiling.");
+  }
+  if (rule.tiers.some((tier) => tier.minQty <= 0 || tier.discountPercent < 0 || tier.discountPercent >= 100)) {
+    throw new PricingStoreError("Tiers need a quantity above zero and a discount from 0 to 99%.");
+  }
+};
+
+export const getPricing = async () => {
+  const data = await load();
+  return {
+    rules: [...data.rules].sort((a, b) => a.name.localeCompare(b.name)),
+    exchangeRates: { ...data.exchangeRates, rates: { ...data.exchangeRates.rates } },
+  };
+};
+
+export const createPricingRule = async (input: PricingRuleInput) => {
+  const data = await load();
+  const now = Date.now();
+  const rule: PricingRule = {
+    id: randomUUID(),
+    name: "",
+    categories: [],
+    markupPercent: 0,
+    markupFixed: 0,
+    currency: BASE_CURRENCY,
+    rounding: "none",
+    tiers: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  applyInput(rule, input);
+  data.rules.push(rule);
+  await persist(data);
+  return rule;
+};
+
+export const updatePricingRule = async (id: string, input: PricingRuleInput) => {
+  const data = await load();
+  const rule = data.rules.find((item) => item.id === id);
+  if (!rule) {
+    return null;
+  }
+  const next = { ...rule, categories: [...rule.categories], tiers: [...rule.tiers] };
+  applyInput(next, input);
+  next.updatedAt = Date.now();
+  data.rules.splice(data.rules.indexOf(rule), 1, next);
+  await persist(data);
+  return next;
+};
+
+export const deletePricingRule = async (id: string) => {
+  const data = await load();
+  const index = data.rules.findIndex((item) => item.id === id);
+  if (index === -1) {
+    return false;
+  }
+  data.rules.splice(index, 1);
+  await persist(data);
+  return true;
+};
+
+/** Replaces the whole table; rates are rupees per unit of the currency. */
+export const updateExchangeRates = async (rates: Record<string, unknown>) => {
+  if (!rates || typeof rates !== "object" || Array.isArray(rates)) {
+    throw new PricingStoreError('Exchange rates must be an object such as { "USD": 83.2 }.');
+  }
+  const data = await load();
+  const next: Record<string, number> = {};
+  Object.entries(rates).forEach(([currency, value]) => {
+    const code = readCurrency(currency);
+    const rate = readAmount(value, `The ${code} rate`);
+    if (rate <= 0) {
+      throw new PricingStoreError(`The ${code} rate must be greater than zero.`);
+    }
+    if (code !== BASE_CURRENCY) {
+      next[code] = rate;
+    }
+  });
+  data.exchangeRates = { rates: next, updatedAt: Date.now() };
+  await persist(data);
+  return { ...data.exchangeRates };
+};
+
+/** Prices a product for the queue; throws `PricingError` when its currency has no exchange rate. */
+export const priceProduct = async (product: ProductDraft, profileId?: string, previous?: PriceCalculation) => {
+  const data = await load();
+  return priceDraft(product, data.rules, data.exchangeRates, profileId, previous);
+};
@@ -0,0 +1,207 @@
+import { createCipheriv, createDecipheriv, randomBytes, randomUUID, scryptSync } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { AgentSettings, DEFAULT_ENDPOINT } from "../indiamart";
+import { SellerProfile, SellerProfileInput } from "../profiles";
+import { DATA_DIR, readJsonFile, writeJsonFile } from "./storage";
+
+type StoredProfile = Omit<SellerProfile, "hasKey" | "hasLeadKey"> & {
+  encryptedKey?: string;
+  encryptedLeadKey?: string;
+};
+
+type StoreState = {
+  data: StoredProfile[] | null;
+  loading: Promise<StoredProfile[]> | null;
+  masterKey: Promise<Buffer> | null;
+};
+
+export class ProfileVaultError extends Error {}
+
+const STORE_FILE = "profiles.json";
+const KEY_FILE = "vault.key";
+const ALGORITHM = "aes-256-gcm";
+
+const globalStore = globalThis as typeof globalThis & { __indiamartProfileVault?: StoreState };
+const state: StoreState = globalStore.__indiamartProfileVault ?? { data: null, loading: null, masterKey: null };
+globalStore.__indiamartProfileVault = state;
+
+/**
+ * `AGENT_VAULT_KEY` wins when set, so the key can live outside the data directory. Otherwise a random key is
+ * generated once and kept next to the store with owner-only permissions.
+ */
+const loadMasterKey = async () => {
+  const fromEnv = process.env.AGENT_VAULT_KEY;
+  if (fromEnv) {
+    return scryptSync(fromEnv, "indiamart-agent-vault", 32);
+  }
+  const keyPath = path.join(DATA_DIR, KEY_FILE);
+  try {
+    return Buffer.from((await fs.readFile(keyPath, "utf8")).trim(), "base64");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw error;
+    }
+    const generated = randomBytes(32);
+    await fs.mkdir(DATA_DIR, { recursive: true });
+    await fs.writeFile(keyPath, generated.toString("base64"), { encoding: "utf8", mode: 0o600 });
+    return generated;
+  }
+};
+
+const getMasterKey = () => {
+  if (!state.masterKey) {
+    state.masterKey = loadMasterKey();
+  }
+  return state.masterKey;
+};
+
+/** AES-256-GCM with the vault key; also seals the other secrets the agent stores, such as notification credentials. */
+export const encrypt = async (plain: string) => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, await getMasterKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(plain, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString("base64")).join(".");
+};
+
+export const decrypt = async (sealed: string) => {
+  const [iv, tag, encrypted] = sealed.split(".").map((part) => Buffer.from(part, "base64"));
+  const decipher = createDecipheriv(ALGORITHM, await getMasterKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
+};
+
+const load = async () => {
+  if (state.data) {
+    return state.data;
+  }
+  if (!state.loading) {
+    state.loading = readJsonFile<StoredProfile[]>(STORE_FILE, []).then((data) => {
+      state.data = data;
+      return data;
+    });
+  }
+  return state.loading;
+};
+
+const persist = (data: StoredProfile[]) => writeJsonFile(STORE_FILE, data);
+
+const toPublic = (profile: StoredProfile): SellerProfile => ({
+  id: profile.id,
+  name: profile.name,
+  sellerId: profile.sellerId,
+  baseUrl: profile.baseUrl,
+  defaultMode: profile.defaultMode,
+  hasKey: Boolean(profile.encryptedKey),
+  keyHint: profile.keyHint,
+  hasLeadKey: Boolean(profile.encryptedLeadKey),
+  createdAt: profile.createdAt,
+  updatedAt: profile.updatedAt,
+});
+
+const applyInput = async (profile: StoredProfile, input: SellerProfileInput) => {
+  if (input.name !== undefined) {
+    profile.name = input.name.trim();
+  }
+  if (input.sellerId !== undefined) {
+    profile.sellerId = input.sellerId.trim();
+  }
+  if (input.baseUrl !== undefined) {
+    profile.baseUrl = input.baseUrl.trim() || DEFAULT_ENDPOINT;
+  }
+  if (input.defaultMode === "simulate" || input.defaultMode === "live" || input.defaultMode === "sandbox") {
+    profile.defaultMode = input.defaultMode;
+  }
+  if (input.apiKey !== undefined) {
+    const apiKey = input.apiKey.trim();
+    profile.encryptedKey = apiKey ? await encrypt(apiKey) : undefined;
+    profile.keyHint = apiKey ? apiKey.slice(-4) : undefined;
+  }
+  if (input.leadKey !== undefined) {
+    const leadKey = input.leadKey.trim();
+    profile.encryptedLeadKey = leadKey ? await encrypt(leadKey) : undefined;
+  }
+  if (!profile.name) {
+    throw new ProfileVaultError("Profile name is required.");
+  }
+};
+
+export const listProfiles = async () => (await load()).map(toPublic);
+
+export const getProfile = async (id: string) => {
+  const profile = (await load()).find((item) => item.id === id);
+  return profile ? toPublic(profile) : null;
+};
+
+export const createProfile = async (input: SellerProfileInput) => {
+  const data = await load();
+  const now = Date.now();
+  const profile: StoredProfile = {
+    id: randomUUID(),
+    name: "",
+    sellerId: "",
+    baseUrl: DEFAULT_ENDPOINT,
+    defaultMode: "simulate",
+    createdAt: now,
+    updatedAt: now,
+  };
+  await applyInput(profile, input);
+  data.push(profile);
+  await persist(data);
+  return toPublic(profile);
+};
+
+export const updateProfile = async (id: string, input: SellerProfileInput) => {
+  const data = await load();
+  const profile = data.find((item) => item.id === id);
+  if (!profile) {
+    return null;
+  }
+  const next = { ...profile };
+  await applyInput(next, input);
+  next.updatedAt = Date.now();
+  data.splice(data.indexOf(profile), 1, next);
+  await persist(data);
+  return toPublic(next);
+};
+
+export const deleteProfile = async (id: string) => {
+  const data = await load();
+  const index = data.findIndex((item) => item.id === id);
+  if (index === -1) {
+    return false;
+  }
+  data.splice(index, 1);
+  await persist(data);
+  return true;
+};
+
+/**
+ * Expands `settings.profileId` into the seller ID, endpoint and decrypted auth key. The result stays on the
+ * server; callers must never echo it back to a client.
+ */
+export const resolveAgentSettings = async (settings: AgentSettings | undefined): Promise<AgentSettings> => {
+  if (!settings?.profileId) {
+    return settings ?? {};
+  }
+  const profile = (await load()).find((item) => item.id === settings.profileId);
+  if (!profile) {
+    throw new ProfileVaultError("Seller profile not found.");
+  }
+  return {
+    profileId: profile.id,
+    apiKey: profile.encryptedKey ? await decrypt(profile.encryptedKey) : undefined,
+    sellerId: profile.sellerId,
+    baseUrl: profile.baseUrl,
+    mode: settings.mode ?? profile.defaultMode,
+  };
+};
+
+/** The decrypted Lead Manager CRM key, or `null` when the profile has none. Server-side only, like the auth key. */
+export const resolveLeadKey = async (profileId: string) => {
+  const profile = (await load()).find((item) => item.id === profileId);
+  if (!profile) {
+    throw new ProfileVaultError("Seller profile not found.");
+  }
+  return profile.encryptedLeadKey ? decrypt(profile.encryptedLeadKey) : null;
+};
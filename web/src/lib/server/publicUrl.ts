@@ -0,0 +1,6 @@
+/**
+ * Absolute URL for a path served by this app. IndiaMART fetches images itself, so `PUBLIC_BASE_URL` should point at
+ * an address it can reach; without it the URL of the incoming request is used, which only works for local testing.
+ */
+export const publicUrl = (pathname: string, request: Request) =>
+  new URL(pathname, process.env.PUBLIC_BASE_URL?.trim() || request.url).toString();
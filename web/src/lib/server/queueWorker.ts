@@ -0,0 +1,309 @@
+import { AgentSettings, normalizeProduct } from "../indiamart";
+import {
+  QueueSnapshot,
+  RetryPolicy,
+  ThroughputPolicy,
+  UploadJob,
+  isPendingJob,
+  normalizeRetryPolicy,
+  normalizeThroughputPolicy,
+  retryDelay,
+  summarizeProgress,
+} from "../jobs";
+import {
+  claimNextJob,
+  finishJob,
+  getAgentRecord,
+  listJobs,
+  nextScheduledAttempt,
+  scheduleRetry,
+  toAgentStatus,
+  updateAgentRecord,
+} from "./jobStore";
+import { recordAudit } from "./auditLog";
+import { getBatch, markBatchCompleted } from "./batchStore";
+import { syncProduct } from "./catalogSync";
+import { notifyCredentialsRejected, notifyJobFailed, notifyQueueCompleted } from "./notifier";
+import { acquireToken, blockUntil, getQuota, releaseToken } from "./rateLimiter";
+import { UploadOutcome, classifyFailure } from "./uploader";
+
+// Upper bound on a single idle wait so a pause or a new job is noticed while lanes sit out a backoff or rate limit.
+const IDLE_WAIT_CEILING_MS = 1000;
+// How long to hold uploads back after a 429 that came without a `Retry-After` header.
+const RATE_LIMITED_WAIT_MS = 60_000;
+const THROUGHPUT_WINDOW_MS = 60_000;
+
+/**
+ * `agent` lanes run the whole queue while the dashboard agent is started. `batch` lanes upload only jobs submitted
+ * through the batch API, each with its own profile and mode, while the agent is stopped.
+ */
+type LaneScope = "agent" | "batch";
+
+type WorkerState = {
+  /** Running lanes as `scope:index`; a lane whose index reaches the configured concurrency exits. */
+  lanes: Set<string>;
+  busy: number;
+  /** Finish times of recent uploads, for the per-minute throughput figure. */
+  finishedAt: number[];
+};
+
+const globalWorker = globalThis as typeof globalThis & { __indiamartQueueWorkerPool?: WorkerState };
+const worker: WorkerState = globalWorker.__indiamartQueueWorkerPool ?? { lanes: new Set(), busy: 0, finishedAt: [] };
+globalWorker.__indiamartQueueWorkerPool = worker;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const isRateLimited = (outcome: UploadOutcome) => outcome.body.status === 429 || outcome.retryAfterMs !== undefined;
+
+const isBatchJob = (job: UploadJob) => Boolean(job.batchId);
+
+const isCredentialError = (outcome: UploadOutcome) => outcome.body.status === 401 || outcome.body.status === 403;
+
+type AgentRecord = Awaited<ReturnType<typeof getAgentRecord>>;
+
+const runContext = (job: UploadJob, agent: AgentRecord) => {
+  const settings = job.settings ?? agent.settings;
+  return { profileId: settings.profileId, mode: settings.mode };
+};
+
+const settleFailure = async (
+  job: UploadJob,
+  agent: AgentRecord,
+  failure: { outcome?: UploadOutcome; message: string },
+) => {
+  const policy = agent.retryPolicy;
+  const { kind, retryable } = failure.outcome
+    ? classifyFailure(failure.outcome)
+    : { kind: "network" as const, retryable: true };
+
+  if (retryable && job.attempts < policy.maxAttempts) {
+    await scheduleRetry(job.id, {
+      nextAttemptAt: Date.now() + Math.max(retryDelay(policy, job.attempts), failure.outcome?.retryAfterMs ?? 0),
+      result: failure.outcome?.body,
+      error: failure.message,
+      failureKind: kind,
+    });
+    return;
+  }
+
+  const failed = await finishJob(job.id, {
+    state: "failed",
+    result: failure.outcome?.body,
+    error: failure.message,
+    failureKind: kind,
+  });
+  if (failed) {
+    notifyJobFailed(failed, runContext(job, agent));
+  }
+};
+
+const processJob = async (job: UploadJob, agent: AgentRecord) => {
+  try {
+    const { outcome, operation, productId } = await syncProduct(
+      normalizeProduct(job.product),
+      job.settings ?? agent.settings,
+      job.operation === "delete" ? "delete" : undefined,
+      { jobId: job.id, attempt: job.attempts },
+    );
+    if (outcome.httpStatus < 400) {
+      await finishJob(job.id, { state: "succeeded", result: outcome.body, operation, productId });
+      return;
+    }
+    if (isRateLimited(outcome)) {
+      // Every lane shares the quota, so the whole pool waits rather than only this job.
+      const waitMs = outcome.retryAfterMs ?? RATE_LIMITED_WAIT_MS;
+      await blockUntil(Date.now() + waitMs);
+      await recordAudit({
+        level: "error",
+        headline: "IndiaMART asked the agent to slow down",
+        details: `Uploads paused for ${Math.ceil(waitMs / 1000)} s.`,
+        jobId: job.id,
+        httpStatus: outcome.httpStatus,
+        upstreamStatus: typeof outcome.body.status === "number" ? outcome.body.status : undefined,
+      });
+      // Being throttled says nothing about the product, so it does not use up one of the job's attempts.
+      await scheduleRetry(job.id, {
+        nextAttemptAt: Date.now() + waitMs,
+        result: outcome.body,
+        error: outcome.body.error ?? "IndiaMART asked the agent to slow down.",
+        failureKind: classifyFailure(outcome).kind,
+        refundAttempt: true,
+      });
+      return;
+    }
+    const message = outcome.body.error ?? "Unable to upload product.";
+    if (isCredentialError(outcome)) {
+      notifyCredentialsRejected(job, Number(outcome.body.status), message, runContext(job, agent));
+    }
+    await settleFailure(job, agent, { outcome, message });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unexpected error while uploading product.";
+    await settleFailure(job, agent, { message });
+  }
+};
+
+const recordQueueComplete = async (agent: AgentRecord) => {
+  const jobs = await listJobs();
+  const failed = jobs.filter((job) => job.state === "failed").length;
+  await recordAudit({
+    level: failed ? "error" : "success",
+    headline: "Queue complete",
+    details: failed
+      ? `${failed} product${failed === 1 ? "" : "s"} waiting in the Failed list.`
+      : "All products processed successfully.",
+    profileId: agent.settings.profileId,
+    mode: agent.settings.mode,
+  });
+  notifyQueueCompleted(
+    jobs.filter((job) => (job.finishedAt ?? 0) >= (agent.startedAt ?? 0)),
+    { profileId: agent.settings.profileId, mode: agent.settings.mode },
+  );
+};
+
+/**
+ * Batch jobs usually run while the agent is stopped, so no run ends for them: each batch reports on its own once none
+ * of its jobs are left to upload, whichever lanes uploaded them.
+ */
+const recordBatchComplete = async (batchId: string) => {
+  const batch = await getBatch(batchId);
+  if (!batch || batch.completedAt) {
+    return;
+  }
+  const jobs = (await listJobs()).filter((job) => job.batchId === batchId);
+  if (jobs.some(isPendingJob) || !(await markBatchCompleted(batchId))) {
+    return;
+  }
+  const failed = jobs.filter((job) => job.state === "failed").length;
+  await recordAudit({
+    level: failed ? "error" : "success",
+    headline: "Batch complete",
+    details: `${jobs.length - failed} of ${jobs.length} product${jobs.length === 1 ? "" : "s"} succeeded in batch ${batchId}.`,
+    profileId: batch.settings.profileId,
+    mode: batch.settings.mode,
+  });
+  notifyQueueCompleted(jobs, { profileId: batch.settings.profileId, mode: batch.settings.mode });
+};
+
+const runLane = async (lane: number, scope: LaneScope) => {
+  const jobScope = scope === "batch" ? isBatchJob : undefined;
+  while (true) {
+    const agent = await getAgentRecord();
+    // Batch lanes hand over to the agent's lanes once it starts, since those upload batch jobs too.
+    if (agent.running !== (scope === "agent") || lane >= agent.throughput.concurrency) {
+      return;
+    }
+
+    const nextAttempt = await nextScheduledAttempt(jobScope);
+    if (nextAttempt === null) {
+      // Another lane may still be uploading and could schedule a retry, so only the last idle lane stops the agent.
+      if (worker.busy === 0) {
+        if (scope === "agent") {
+          await updateAgentRecord({ running: false });
+          await recordQueueComplete(agent);
+        }
+        return;
+      }
+      await sleep(IDLE_WAIT_CEILING_MS);
+      continue;
+    }
+    if (nextAttempt > Date.now()) {
+      await sleep(Math.min(IDLE_WAIT_CEILING_MS, nextAttempt - Date.now()));
+      continue;
+    }
+
+    const wait = await acquireToken(agent.throughput);
+    if (wait > 0) {
+      await sleep(Math.min(IDLE_WAIT_CEILING_MS, wait));
+      continue;
+    }
+
+    const job = await claimNextJob(jobScope);
+    if (!job) {
+      // Another lane claimed it first.
+      await releaseToken(agent.throughput);
+      continue;
+    }
+
+    worker.busy += 1;
+    try {
+      await processJob(job, agent);
+    } finally {
+      worker.busy -= 1;
+      worker.finishedAt.push(Date.now());
+    }
+    if (job.batchId) {
+      await recordBatchComplete(job.batchId);
+    }
+  }
+};
+
+/**
+ * Starts lanes up to the configured concurrency when the stored agent state says the agent should be running, or
+ * batch lanes when it is stopped and batch jobs are waiting. Safe to call from every request: lanes that are already
+ * running are not started twice.
+ */
+export const ensureWorker = async () => {
+  const agent = await getAgentRecord();
+  const scope: LaneScope = agent.running ? "agent" : "batch";
+  if (scope === "batch" && (await nextScheduledAttempt(isBatchJob)) === null) {
+    return;
+  }
+  for (let lane = 0; lane < agent.throughput.concurrency; lane += 1) {
+    const key = `${scope}:${lane}`;
+    if (worker.lanes.has(key)) {
+      continue;
+    }
+    worker.lanes.add(key);
+    void runLane(lane, scope)
+      .catch((error) => {
+        console.error("IndiaMART queue worker stopped unexpectedly", error);
+      })
+      .finally(() => {
+        worker.lanes.delete(key);
+      });
+  }
+};
+
+/** Only the profile reference and mode are persisted; the worker resolves credentials from the vault per upload. */
+export const startAgent = async (
+  settings: AgentSettings,
+  retryPolicy?: Partial<RetryPolicy>,
+  throughput?: Partial<ThroughputPolicy>,
+) => {
+  await updateAgentRecord({
+    running: true,
+    startedAt: Date.now(),
+    settings: { profileId: settings.profileId, mode: settings.mode },
+    retryPolicy: normalizeRetryPolicy(retryPolicy),
+    throughput: normalizeThroughputPolicy(throughput),
+  });
+  await recordAudit({
+    level: "info",
+    headline: "Agent started",
+    profileId: settings.profileId,
+    mode: settings.mode,
+  });
+  await ensureWorker();
+};
+
+export const pauseAgent = async () => {
+  await updateAgentRecord({ running: false });
+  await recordAudit({ level: "info", headline: "Agent paused" });
+  await ensureWorker();
+};
+
+export const getQueueSnapshot = async (): Promise<QueueSnapshot> => {
+  const [jobs, agent] = await Promise.all([listJobs(), getAgentRecord()]);
+  const since = Date.now() - THROUGHPUT_WINDOW_MS;
+  worker.finishedAt = worker.finishedAt.filter((time) => time > since);
+  return {
+    jobs,
+    agent: toAgentStatus(agent),
+    rate: {
+      activeUploads: worker.busy,
+      completedLastMinute: worker.finishedAt.length,
+      ...(await getQuota(agent.throughput)),
+    },
+    progress: summarizeProgress(jobs, worker.finishedAt.length),
+  };
+};
@@ -0,0 +1,123 @@
+import { RateQuota, RateWindow, ThroughputPolicy } from "../jobs";
+import { notifyQueueChange } from "./events";
+import { readJsonFile, writeJsonFile } from "./storage";
+
+type Bucket = {
+  tokens: number;
+  updatedAt: number;
+};
+
+type LimiterFile = {
+  buckets: Partial<Record<RateWindow, Bucket>>;
+  blockedUntil: number;
+};
+
+type StoreState = {
+  data: LimiterFile | null;
+  loading: Promise<LimiterFile> | null;
+};
+
+// Persisted so a restart does not hand out a fresh daily quota.
+const STORE_FILE = "rate-limit.json";
+
+const WINDOW_MS: Record<RateWindow, number> = {
+  second: 1000,
+  minute: 60_000,
+  day: 86_400_000,
+};
+
+const LIMIT_FIELDS: Record<RateWindow, keyof ThroughputPolicy> = {
+  second: "perSecond",
+  minute: "perMinute",
+  day: "perDay",
+};
+
+const globalStore = globalThis as typeof globalThis & { __indiamartRateLimiter?: StoreState };
+const state: StoreState = globalStore.__indiamartRateLimiter ?? { data: null, loading: null };
+globalStore.__indiamartRateLimiter = state;
+
+const load = async () => {
+  if (state.data) {
+    return state.data;
+  }
+  if (!state.loading) {
+    state.loading = readJsonFile<LimiterFile>(STORE_FILE, { buckets: {}, blockedUntil: 0 }).then((data) => {
+      state.data = data;
+      return data;
+    });
+  }
+  return state.loading;
+};
+
+const persist = (data: LimiterFile) => writeJsonFile(STORE_FILE, data);
+
+const limitedWindows = (policy: ThroughputPolicy) =>
+  (Object.keys(WINDOW_MS) as RateWindow[]).filter((window) => policy[LIMIT_FIELDS[window]] > 0);
+
+/**
+ * Token buckets refill continuously: a limit of 60 per minute adds a token every second, up to 60. A bucket seen
+ * for the first time starts full, and lowering a limit caps the tokens already in it.
+ */
+const currentTokens = (bucket: Bucket | undefined, window: RateWindow, limit: number, now: number) =>
+  bucket ? Math.min(limit, bucket.tokens + ((now - bucket.updatedAt) * limit) / WINDOW_MS[window]) : limit;
+
+/**
+ * Takes one token from every limited window, or none at all. Returns 0 when the upload may start, otherwise how
+ * long to wait before asking again.
+ */
+export const acquireToken = async (policy: ThroughputPolicy) => {
+  const data = await load();
+  const now = Date.now();
+  if (data.blockedUntil > now) {
+    return data.blockedUntil - now;
+  }
+  const buckets = limitedWindows(policy).map((window) => {
+    const limit = policy[LIMIT_FIELDS[window]];
+    return { window, limit, tokens: currentTokens(data.buckets[window], window, limit, now) };
+  });
+  const wait = Math.max(
+    0,
+    ...buckets.map(({ window, limit, tokens }) => Math.ceil(((1 - tokens) * WINDOW_MS[window]) / limit)),
+  );
+  if (wait > 0) {
+    return wait;
+  }
+  buckets.forEach(({ window, tokens }) => {
+    data.buckets[window] = { tokens: tokens - 1, updatedAt: now };
+  });
+  await persist(data);
+  return 0;
+};
+
+/** Returns a token taken for an upload that did not happen, e.g. when the queue turned out to be empty. */
+export const releaseToken = async (policy: ThroughputPolicy) => {
+  const data = await load();
+  limitedWindows(policy).forEach((window) => {
+    const bucket = data.buckets[window];
+    if (bucket) {
+      bucket.tokens = Math.min(policy[LIMIT_FIELDS[window]], bucket.tokens + 1);
+    }
+  });
+  await persist(data);
+};
+
+/** Holds every upload back until `until`, for IndiaMART 429 responses and `Retry-After` headers. */
+export const blockUntil = async (until: number) => {
+  const data = await load();
+  if (until > data.blockedUntil) {
+    data.blockedUntil = until;
+    await persist(data);
+    notifyQueueChange();
+  }
+};
+
+export const getQuota = async (policy: ThroughputPolicy) => {
+  const data = await load();
+  const now = Date.now();
+  const quota: Partial<Record<RateWindow, RateQuota>> = {};
+  limitedWindows(policy).forEach((window) => {
+    const limit = policy[LIMIT_FIELDS[window]];
+    quota[window] = { limit, remaining: Math.floor(currentTokens(data.buckets[window], window, limit, now)) };
+  });
+  return { quota, blockedUntil: data.blockedUntil > now ? data.blockedUntil : undefined };
+};
@@ -0,0 +1,133 @@
+import { randomUUID } from "crypto";
+import { AGENT_MODES } from "../indiamart";
+import {
+  DEFAULT_TIME_ZONE,
+  PublishSchedule,
+  PublishScheduleInput,
+  isValidTimeZone,
+  nextOccurrence,
+  parseTime,
+} from "../schedules";
+import { getProfile } from "./profileVault";
+import { readJsonFile, writeJsonFile } from "./storage";
+
+type StoreState = {
+  data: PublishSchedule[] | null;
+  loading: Promise<PublishSchedule[]> | null;
+};
+
+export class ScheduleStoreError extends Error {}
+
+const STORE_FILE = "schedules.json";
+
+const globalStore = globalThis as typeof globalThis & { __indiamartScheduleStore?: StoreState };
+const state: StoreState = globalStore.__indiamartScheduleStore ?? { data: null, loading: null };
+globalStore.__indiamartScheduleStore = state;
+
+const load = async () => {
+  if (state.data) {
+    return state.data;
+  }
+  if (!state.loading) {
+    state.loading = readJsonFile<PublishSchedule[]>(STORE_FILE, []).then((data) => {
+      state.data = data;
+      return data;
+    });
+  }
+  return state.loading;
+};
+
+const persist = (data: PublishSchedule[]) => writeJsonFile(STORE_FILE, data);
+
+const buildSchedule = async (input: PublishScheduleInput, now: number): Promise<PublishSchedule> => {
+  const profileId = input.profileId?.trim() || undefined;
+  const profile = profileId ? await getProfile(profileId) : null;
+  if (profileId && !profile) {
+    throw new ScheduleStoreError("Seller profile not found.");
+  }
+  const mode = input.mode ?? profile?.defaultMode ?? "simulate";
+  if (!AGENT_MODES.includes(mode)) {
+    throw new ScheduleStoreError(`Unknown agent mode "${mode}".`);
+  }
+  const base = { id: randomUUID(), profileId, mode, createdAt: now, updatedAt: now };
+
+  if (input.recurrence) {
+    const days = Array.isArray(input.recurrence.days)
+      ? [...new Set(input.recurrence.days.map(Number).filter((day) => Number.isInteger(day) && day >= 0 && day <= 6))]
+      : [];
+    const time = String(input.recurrence.time ?? "").trim();
+    const timeZone = String(input.recurrence.timeZone ?? "").trim() || DEFAULT_TIME_ZONE;
+    if (days.length === 0) {
+      throw new ScheduleStoreError("Pick at least one day of the week.");
+    }
+    if (!parseTime(time)) {
+      throw new ScheduleStoreError("Time must be HH:MM in 24-hour format.");
+    }
+    if (!isValidTimeZone(timeZone)) {
+      throw new ScheduleStoreError(`Unknown time zone "${timeZone}".`);
+    }
+    const recurrence = { days, time, timeZone };
+    return { ...base, recurrence, nextRunAt: nextOccurrence(recurrence, now) };
+  }
+
+  if (typeof input.runAt !== "number" || !Number.isFinite(input.runAt)) {
+    throw new ScheduleStoreError("Give a date and time to run at, or a recurring schedule.");
+  }
+  if (input.runAt <= now) {
+    throw new ScheduleStoreError("The run time must be in the future.");
+  }
+  return { ...base, runAt: input.runAt, nextRunAt: input.runAt };
+};
+
+export const listSchedules = async () =>
+  [...(await load())].sort(
+    (a, b) => (a.nextRunAt ?? Infinity) - (b.nextRunAt ?? Infinity) || b.createdAt - a.createdAt,
+  );
+
+export const createSchedule = async (input: PublishScheduleInput) => {
+  const data = await load();
+  const schedule = await buildSchedule(input, Date.now());
+  data.push(schedule);
+  await persist(data);
+  return schedule;
+};
+
+export const deleteSchedule = async (id: string) => {
+  const data = await load();
+  const index = data.findIndex((item) => item.id === id);
+  if (index === -1) {
+    return false;
+  }
+  data.splice(index, 1);
+  await persist(data);
+  return true;
+};
+
+export const dueSchedules = async (now: number) =>
+  (await load()).filter((item) => item.nextRunAt !== null && item.nextRunAt <= now).map((item) => ({ ...item }));
+
+export const nextDueAt = async () => {
+  const times = (await load()).flatMap((item) => (item.nextRunAt === null ? [] : [item.nextRunAt]));
+  return times.length ? Math.min(...times) : null;
+};
+
+/**
+ * Records what a run did. `completed: false` keeps the schedule due (e.g. while another batch is uploading);
+ * otherwise a recurring schedule moves to its next occurrence and a one-off schedule is finished.
+ */
+export const recordRun = async (id: string, outcome: string, completed = true) => {
+  const data = await load();
+  const schedule = data.find((item) => item.id === id);
+  if (!schedule) {
+    return null;
+  }
+  const now = Date.now();
+  schedule.lastOutcome = outcome;
+  schedule.updatedAt = now;
+  if (completed) {
+    schedule.lastRunAt = now;
+    schedule.nextRunAt = schedule.recurrence ? nextOccurrence(schedule.recurrence, now) : null;
+  }
+  await persist(data);
+  return { ...schedule };
+};
@@ -0,0 +1,112 @@
+import { PublishSchedule, describeSchedule } from "../schedules";
+import { recordAudit } from "./auditLog";
+import { getAgentRecord, listJobs } from "./jobStore";
+import { getProfile } from "./profileVault";
+import { startAgent } from "./queueWorker";
+import { dueSchedules, nextDueAt, recordRun } from "./scheduleStore";
+
+// Longest gap between checks, so schedules created in another process or edited on disk are still picked up.
+const TICK_CEILING_MS = 30_000;
+
+const WAITING_OUTCOME = "Waiting for the running batch to finish.";
+
+type SchedulerState = {
+  timer: ReturnType<typeof setTimeout> | null;
+  /** Set while due schedules run; the run re-arms the timer itself when it finishes. */
+  ticking: boolean;
+  /** While a due schedule waits on a running batch, the next check is put off until this time. */
+  waitUntil: number;
+};
+
+const globalScheduler = globalThis as typeof globalThis & { __indiamartScheduler?: SchedulerState };
+const scheduler: SchedulerState = globalScheduler.__indiamartScheduler ?? { timer: null, ticking: false, waitUntil: 0 };
+globalScheduler.__indiamartScheduler = scheduler;
+
+const skipRun = async (schedule: PublishSchedule, reason: string) => {
+  await recordRun(schedule.id, `Skipped: ${reason}`);
+  await recordAudit({
+    level: "error",
+    headline: "Scheduled run skipped",
+    details: `${describeSchedule(schedule)}: ${reason}`,
+    profileId: schedule.profileId,
+    mode: schedule.mode,
+  });
+};
+
+const runSchedule = async (schedule: PublishSchedule) => {
+  const agent = await getAgentRecord();
+  if (agent.running) {
+    // Starting now would switch the running batch to another profile; try again once it has finished.
+    if (schedule.lastOutcome !== WAITING_OUTCOME) {
+      await recordRun(schedule.id, WAITING_OUTCOME, false);
+    }
+    return false;
+  }
+  if (schedule.profileId && !(await getProfile(schedule.profileId))) {
+    await skipRun(schedule, "the seller profile no longer exists.");
+    return true;
+  }
+  const queued = (await listJobs()).filter((job) => job.state === "queued" && !job.held).length;
+  if (queued === 0) {
+    await skipRun(schedule, "the queue was empty or every item was on hold.");
+    return true;
+  }
+  const outcome = `Started publishing ${queued} queued item${queued === 1 ? "" : "s"}.`;
+  await recordAudit({
+    level: "info",
+    headline: "Scheduled run",
+    details: `${describeSchedule(schedule)}: ${outcome}`,
+    profileId: schedule.profileId,
+    mode: schedule.mode,
+  });
+  await startAgent({ profileId: schedule.profileId, mode: schedule.mode }, agent.retryPolicy, agent.throughput);
+  await recordRun(schedule.id, outcome);
+  return true;
+};
+
+/** Runs every due schedule; resolves to false when one of them is still waiting on a running batch. */
+export const runDueSchedules = async () => {
+  let settled = true;
+  for (const schedule of await dueSchedules(Date.now())) {
+    settled = (await runSchedule(schedule)) && settled;
+  }
+  return settled;
+};
+
+const tick = async () => {
+  scheduler.timer = null;
+  scheduler.ticking = true;
+  try {
+    scheduler.waitUntil = (await runDueSchedules()) ? 0 : Date.now() + TICK_CEILING_MS;
+    scheduler.ticking = false;
+    await armTimer();
+  } catch (error) {
+    console.error("IndiaMART publish scheduler failed", error);
+    // Whatever failed, an unreadable schedules file included, is tried again rather than stopping the scheduler.
+    scheduler.ticking = false;
+    if (scheduler.timer) {
+      clearTimeout(scheduler.timer);
+    }
+    scheduler.timer = setTimeout(() => void tick(), TICK_CEILING_MS);
+  }
+};
+
+const armTimer = async () => {
+  const due = await nextDueAt();
+  if (scheduler.ticking) {
+    return;
+  }
+  if (scheduler.timer) {
+    clearTimeout(scheduler.timer);
+  }
+  const now = Date.now();
+  const delay =
+    due === null ? TICK_CEILING_MS : Math.min(TICK_CEILING_MS, Math.max(0, due - now, scheduler.waitUntil - now));
+  scheduler.timer = setTimeout(() => void tick(), delay);
+};
+
+/**
+ * Keeps a timer armed for the next due schedule, so runs happen with no dashboard open. Call again after
+ * schedules change to re-arm it for an earlier run.
+ */
+export const ensureScheduler = () => armTimer();
@@ -0,0 +1,35 @@
+import { readJsonFile, writeJsonFile } from "./storage";
+
+/**
+ * The server keeps every store cached in memory and rewrites whole files, so another process writing the same data
+ * directory loses updates. The server records itself here for the command-line uploader to find and go through.
+ */
+export type ServerInfo = {
+  pid: number;
+  url: string;
+  startedAt: number;
+};
+
+const INFO_FILE = "server.json";
+
+export const recordServerStart = () =>
+  writeJsonFile(INFO_FILE, {
+    pid: process.pid,
+    url: `http://127.0.0.1:${process.env.PORT || 3000}`,
+    startedAt: Date.now(),
+  } satisfies ServerInfo);
+
+/** The server that owns the data directory, or `null` when the recorded process is no longer alive. */
+export const findRunningServer = async () => {
+  const info = await readJsonFile<ServerInfo | null>(INFO_FILE, null);
+  if (!info || info.pid === process.pid) {
+    return null;
+  }
+  try {
+    process.kill(info.pid, 0);
+    return info;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user.
+    return (error as NodeJS.ErrnoException).code === "EPERM" ? info : null;
+  }
+};
@@ -0,0 +1,179 @@
+import { randomUUID } from "crypto";
+import net from "net";
+import os from "os";
+import tls from "tls";
+import { SmtpSecurity } from "../notifications";
+
+export type SmtpConfig = {
+  host: string;
+  port: number;
+  security: SmtpSecurity;
+  username?: string;
+  password?: string;
+};
+
+export type MailMessage = {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+};
+
+export class SmtpError extends Error {}
+
+type Reply = { code: number; text: string };
+
+const TIMEOUT_MS = 20_000;
+
+/** Collects CRLF lines into replies; a reply ends at the first line whose fourth character is not `-`. */
+const createReplyReader = (socket: net.Socket) => {
+  let buffer = "";
+  let lines: string[] = [];
+  const replies: Reply[] = [];
+  let pending: { resolve: (reply: Reply) => void; reject: (error: Error) => void } | null = null;
+  let failure: Error | null = null;
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString("utf8");
+    let index = buffer.indexOf("\r\n");
+    while (index !== -1) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+      lines.push(line);
+      if (line.charAt(3) !== "-") {
+        const reply = { code: Number(line.slice(0, 3)), text: lines.map((item) => item.slice(4)).join("\n") };
+        lines = [];
+        if (pending) {
+          pending.resolve(reply);
+          pending = null;
+        } else {
+          replies.push(reply);
+        }
+      }
+      index = buffer.indexOf("\r\n");
+    }
+  };
+  const onFailure = (error?: Error) => {
+    failure = error instanceof Error ? error : new SmtpError("The SMTP server closed the connection.");
+    pending?.reject(failure);
+    pending = null;
+  };
+  const onClose = () => onFailure();
+
+  socket.on("data", onData);
+  socket.on("error", onFailure);
+  socket.on("close", onClose);
+
+  return {
+    read: () =>
+      new Promise<Reply>((resolve, reject) => {
+        const queued = replies.shift();
+        if (queued) {
+          resolve(queued);
+        } else if (failure) {
+          reject(failure);
+        } else {
+          pending = { resolve, reject };
+        }
+      }),
+    dispose: () => {
+      socket.off("data", onData);
+      socket.off("error", onFailure);
+      socket.off("close", onClose);
+    },
+  };
+};
+
+const connect = (config: SmtpConfig) =>
+  new Promise<net.Socket>((resolve, reject) => {
+    const socket =
+      config.security === "tls"
+        ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () => resolve(socket))
+        : net.connect({ host: config.host, port: config.port }, () => resolve(socket));
+    socket.once("error", reject);
+  });
+
+const upgradeToTls = (socket: net.Socket, host: string) =>
+  new Promise<net.Socket>((resolve, reject) => {
+    const secure = tls.connect({ socket, servername: host }, () => resolve(secure));
+    secure.once("error", reject);
+  });
+
+const headerValue = (value: string) => {
+  const clean = value.replace(/[\r\n]+/g, " ");
+  // RFC 2047 encoded-word, so ₹ and non-Latin product names survive in the subject.
+  return /^[\x20-\x7e]*$/.test(clean) ? clean : `=?UTF-8?B?${Buffer.from(clean, "utf8").toString("base64")}?=`;
+};
+
+/** Base64 body lines never start with a dot, so no dot-stuffing is needed before the terminating `.`. */
+const formatMessage = (message: MailMessage) => {
+  const domain = message.from.split("@")[1] ?? "localhost";
+  const body = Buffer.from(message.text.replace(/\r?\n/g, "\r\n"), "utf8")
+    .toString("base64")
+    .replace(/.{1,76}/g, "$&\r\n");
+  return [
+    `From: ${headerValue(message.from)}`,
+    `To: ${message.to.map(headerValue).join(", ")}`,
+    `Subject: ${headerValue(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    body,
+  ].join("\r\n");
+};
+
+/**
+ * A minimal SMTP client: EHLO, optional STARTTLS, AUTH PLAIN when a username is set, then one message. Enough for
+ * a mail relay or a local catcher such as MailHog or smtp4dev.
+ */
+export const sendMail = async (config: SmtpConfig, message: MailMessage) => {
+  let socket = await connect(config);
+  socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new SmtpError("The SMTP server timed out.")));
+  let reader = createReplyReader(socket);
+  const hostname = os.hostname() || "localhost";
+
+  const command = async (line: string | null, expected: number[]) => {
+    if (line !== null) {
+      socket.write(`${line}\r\n`);
+    }
+    const reply = await reader.read();
+    if (!expected.includes(reply.code)) {
+      throw new SmtpError(`SMTP server answered ${reply.code}: ${reply.text}`);
+    }
+    return reply;
+  };
+
+  try {
+    await command(null, [220]);
+    const greeting = await command(`EHLO ${hostname}`, [250]);
+    if (config.security === "starttls") {
+      if (!/^STARTTLS$/im.test(greeting.text)) {
+        throw new SmtpError("The SMTP server does not offer STARTTLS.");
+      }
+      await command("STARTTLS", [220]);
+      reader.dispose();
+      socket.setTimeout(0);
+      socket = await upgradeToTls(socket, config.host);
+      socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new SmtpError("The SMTP server timed out.")));
+      reader = createReplyReader(socket);
+      await command(`EHLO ${hostname}`, [250]);
+    }
+    if (config.username) {
+      const credentials = Buffer.from(`\0${config.username}\0${config.password ?? ""}`, "utf8").toString("base64");
+      await command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+    await command(`MAIL FROM:<${message.from}>`, [250]);
+    for (const recipient of message.to) {
+      await command(`RCPT TO:<${recipient}>`, [250, 251]);
+    }
+    await command("DATA", [354]);
+    await command(`${formatMessage(message)}.`, [250]);
+    await command("QUIT", [221]).catch(() => undefined);
+  } finally {
+    reader.dispose();
+    socket.destroy();
+  }
+};
@@ -0,0 +1,62 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+export const DATA_DIR = process.env.AGENT_DATA_DIR || path.join(process.cwd(), ".agent-data");
+
+const writeChains = new Map<string, Promise<void>>();
+
+export const readJsonFile = async <T>(name: string, fallback: T): Promise<T> => {
+  try {
+    const text = await fs.readFile(path.join(DATA_DIR, name), "utf8");
+    return JSON.parse(text) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return fallback;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Writes are serialised per file and go through a temp file + rename so a crash mid-write never leaves a
+ * truncated store behind.
+ */
+export const writeJsonFile = (name: string, data: unknown) => {
+  const target = path.join(DATA_DIR, name);
+  const previous = writeChains.get(name) ?? Promise.resolve();
+  const next = previous
+    .catch(() => undefined)
+    .then(async () => {
+      await fs.mkdir(DATA_DIR, { recursive: true });
+      const temporary = `${target}.${process.pid}.tmp`;
+      await fs.writeFile(temporary, JSON.stringify(data, null, 2), "utf8");
+      await fs.rename(temporary, target);
+    });
+  writeChains.set(name, next);
+  return next;
+};
+
+export const readTextFile = async (name: string) => {
+  try {
+    return await fs.readFile(path.join(DATA_DIR, name), "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return "";
+    }
+    throw error;
+  }
+};
+
+/** For append-only logs; shares the per-file write chain with `writeJsonFile`. */
+export const appendTextFile = (name: string, text: string) => {
+  const target = path.join(DATA_DIR, name);
+  const previous = writeChains.get(name) ?? Promise.resolve();
+  const next = previous
+    .catch(() => undefined)
+    .then(async () => {
+      await fs.mkdir(DATA_DIR, { recursive: true });
+      await fs.appendFile(target, text, "utf8");
+    });
+  writeChains.set(name, next);
+  return next;
+};
@@ -0,0 +1,113 @@
+import { randomUUID } from "crypto";
+import { DescriptionTemplate, DescriptionTemplateInput } from "../templates";
+import { readJsonFile, writeJsonFile } from "./storage";
+
+type StoreState = {
+  data: DescriptionTemplate[] | null;
+  loading: Promise<DescriptionTemplate[]> | null;
+};
+
+export class TemplateStoreError extends Error {}
+
+const STORE_FILE = "description-templates.json";
+
+const globalStore = globalThis as typeof globalThis & { __indiamartTemplateStore?: StoreState };
+const state: StoreState = globalStore.__indiamartTemplateStore ?? { data: null, loading: null };
+globalStore.__indiamartTemplateStore = state;
+
+const load = async () => {
+  if (state.data) {
+    return state.data;
+  }
+  if (!state.loading) {
+    state.loading = readJsonFile<DescriptionTemplate[]>(STORE_FILE, []).then((data) => {
+      state.data = data;
+      return data;
+    });
+  }
+  return state.loading;
+};
+
+const persist = (data: DescriptionTemplate[]) => writeJsonFile(STORE_FILE, data);
+
+const applyInput = (template: DescriptionTemplate, input: DescriptionTemplateInput) => {
+  if (input.name !== undefined) {
+    template.name = String(input.name).trim();
+  }
+  if (input.categories !== undefined) {
+    if (!Array.isArray(input.categories)) {
+      throw new TemplateStoreError("Categories must be a list.");
+    }
+    template.categories = input.categories.map((category) => String(category).trim()).filter(Boolean);
+  }
+  if (input.selection !== undefined) {
+    if (input.selection !== "rotate" && input.selection !== "random") {
+      throw new TemplateStoreError('Variant selection must be "rotate" or "random".');
+    }
+    template.selection = input.selection;
+  }
+  if (input.variants !== undefined) {
+    if (!Array.isArray(input.variants)) {
+      throw new TemplateStoreError("Variants must be a list.");
+    }
+    template.variants = input.variants
+      .map((variant) => ({ short: String(variant?.short ?? "").trim(), long: String(variant?.long ?? "").trim() }))
+      .filter((variant) => variant.short || variant.long);
+  }
+  if (!template.name) {
+    throw new TemplateStoreError("Template name is required.");
+  }
+  if (template.variants.length === 0) {
+    throw new TemplateStoreError("Add at least one variant with a short or long description.");
+  }
+};
+
+export const listTemplates = async () => [...(await load())].sort((a, b) => a.name.localeCompare(b.name));
+
+export const getTemplate = async (id: string) => {
+  const template = (await load()).find((item) => item.id === id);
+  return template ? { ...template } : null;
+};
+
+export const createTemplate = async (input: DescriptionTemplateInput) => {
+  const data = await load();
+  const now = Date.now();
+  const template: DescriptionTemplate = {
+    id: randomUUID(),
+    name: "",
+    categories: [],
+    selection: "rotate",
+    variants: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  applyInput(template, input);
+  data.push(template);
+  await persist(data);
+  return template;
+};
+
+export const updateTemplate = async (id: string, input: DescriptionTemplateInput) => {
+  const data = await load();
+  const template = data.find((item) => item.id === id);
+  if (!template) {
+    return null;
+  }
+  const next = { ...template };
+  applyInput(next, input);
+  next.updatedAt = Date.now();
+  data.splice(data.indexOf(template), 1, next);
+  await persist(data);
+  return next;
+};
+
+export const deleteTemplate = async (id: string) => {
+  const data = await load();
+  const index = data.findIndex((item) => item.id === id);
+  if (index === -1) {
+    return false;
+  }
+  data.splice(index, 1);
+  await persist(data);
+  return true;
+};
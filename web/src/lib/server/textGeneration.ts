@@ -0,0 +1,211 @@
+import {
+  GeneratedCopy,
+  GenerationProviderInfo,
+  GenerationProviderName,
+  GenerationRequest,
+  GenerationResult,
+  GenerationUsage,
+} from "../generation";
+
+/**
+ * Text generation sits behind a small provider interface. The HTTP provider speaks the OpenAI-compatible
+ * `/v1/chat/completions` protocol that local model servers (llama.cpp, Ollama, vLLM, LM Studio) expose; the offline
+ * provider builds copy from the inputs alone, so its output is the same every time and needs no network.
+ */
+export type TextGenerationProvider = {
+  name: GenerationProviderName;
+  model: string;
+  generate: (request: GenerationRequest) => Promise<{ copy: GeneratedCopy; usage: GenerationUsage }>;
+};
+
+export class TextGenerationError extends Error {}
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+const MAX_KEYWORDS = 8;
+
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const estimatedUsage = (prompt: string, completion: string): GenerationUsage => {
+  const promptTokens = estimateTokens(prompt);
+  const completionTokens = estimateTokens(completion);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, estimated: true };
+};
+
+const STOP_WORDS = new Set(["and", "for", "the", "with", "of", "in", "to", "a", "an", "on", "by", "or"]);
+
+const uniqueKeywords = (candidates: string[]) => {
+  const seen = new Set<string>();
+  return candidates
+    .map((keyword) =>
+      keyword
+        .trim()
+        .replace(/[.,;:!]+$/, "")
+        .toLowerCase(),
+    )
+    .filter((keyword) => keyword.length > 2 && !STOP_WORDS.has(keyword) && !seen.has(keyword) && seen.add(keyword))
+    .slice(0, MAX_KEYWORDS);
+};
+
+export const offlineProvider: TextGenerationProvider = {
+  name: "offline",
+  model: "offline-template",
+  generate: async ({ title, category, features }) => {
+    const name = title || "This product";
+    const market = category || "industrial";
+    const highlights = features.map((feature) => feature.replace(/[.\s]+$/, "").toLowerCase());
+    const copy: GeneratedCopy = {
+      shortDescription: highlights.length
+        ? `${name} for ${market} buyers, offering ${highlights.slice(0, 2).join(" and ")}.`
+        : `${name} for ${market} buyers, built for dependable everyday use.`,
+      description: [
+        `${name} is supplied for ${market} applications where consistent quality matters.`,
+        highlights.length ? `Key features: ${highlights.join("; ")}.` : "",
+        "Bulk orders and custom requirements are welcome; contact us for pricing and delivery timelines.",
+      ]
+        .filter(Boolean)
+        .join(" "),
+      keywords: uniqueKeywords([title, category, `${title} ${category}`.trim(), ...title.split(/\s+/), ...features]),
+    };
+    const prompt = [title, category, ...features].join("\n");
+    return { copy, usage: estimatedUsage(prompt, Object.values(copy).flat().join("\n")) };
+  },
+};
+
+const SYSTEM_PROMPT =
+  "You write B2B product listings for IndiaMART. Reply with only a JSON object with the keys " +
+  '"shortDescription" (one sentence, under 200 characters), "description" (one or two paragraphs, plain text) and ' +
+  '"keywords" (an array of up to 8 search phrases buyers would use). Do not invent certifications or prices.';
+
+const userPrompt = ({ title, category, features }: GenerationRequest) =>
+  [
+    `Title: ${title || "(none)"}`,
+    `Category: ${category || "(none)"}`,
+    "Features:",
+    ...(features.length ? features.map((feature) => `- ${feature}`) : ["(none)"]),
+  ].join("\n");
+
+/** Models often wrap JSON in prose or code fences; take the outermost object. */
+const parseCopy = (content: string): GeneratedCopy => {
+  const start = content.indexOf("{");
+  const end = content.lastIndexOf("}");
+  let parsed: Partial<Record<keyof GeneratedCopy, unknown>>;
+  try {
+    parsed = JSON.parse(content.slice(start, end + 1));
+  } catch {
+    throw new TextGenerationError("The model did not return the copy as JSON.");
+  }
+  const keywords = Array.isArray(parsed.keywords)
+    ? parsed.keywords.map(String)
+    : String(parsed.keywords ?? "").split(",");
+  return {
+    shortDescription: String(parsed.shortDescription ?? "").trim(),
+    description: String(parsed.description ?? "").trim(),
+    keywords: uniqueKeywords(keywords),
+  };
+};
+
+type ChatCompletionResponse = {
+  choices?: { message?: { content?: string } }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+};
+
+export const createHttpProvider = (options: {
+  url: string;
+  model: string;
+  apiKey?: string;
+  timeoutMs?: number;
+}): TextGenerationProvider => ({
+  name: "http",
+  model: options.model,
+  generate: async (request) => {
+    const messages = [
+      { role: "system", content: SYSTEM_PROMPT },
+      { role: "user", content: userPrompt(request) },
+    ];
+    let response: Response;
+    try {
+      response = await fetch(options.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+        },
+        body: JSON.stringify({ model: options.model, messages, temperature: 0.7 }),
+        signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+      });
+    } catch (error) {
+      throw new TextGenerationError(
+        `Text generation backend unreachable: ${error instanceof Error ? error.message : "network error"}`,
+      );
+    }
+    if (!response.ok) {
+      throw new TextGenerationError(`Text generation backend returned HTTP ${response.status}.`);
+    }
+    let body: ChatCompletionResponse;
+    try {
+      body = ((await response.json()) ?? {}) as ChatCompletionResponse;
+    } catch {
+      throw new TextGenerationError("Provider returned a non-JSON response.");
+    }
+    const content = body.choices?.[0]?.message?.content ?? "";
+    const copy = parseCopy(content);
+    const usage: GenerationUsage = body.usage
+      ? {
+          promptTokens: body.usage.prompt_tokens ?? 0,
+          completionTokens: body.usage.completion_tokens ?? 0,
+          totalTokens: body.usage.total_tokens ?? (body.usage.prompt_tokens ?? 0) + (body.usage.completion_tokens ?? 0),
+          estimated: false,
+        }
+      : estimatedUsage(messages.map((message) => message.content).join("\n"), content);
+    return { copy, usage };
+  },
+});
+
+const httpProviderFromEnv = () => {
+  const url = process.env.TEXT_GENERATION_URL?.trim();
+  if (!url) {
+    return null;
+  }
+  return createHttpProvider({
+    url,
+    model: process.env.TEXT_GENERATION_MODEL?.trim() || "local-model",
+    apiKey: process.env.TEXT_GENERATION_API_KEY?.trim(),
+    timeoutMs: Number(process.env.TEXT_GENERATION_TIMEOUT_MS) || undefined,
+  });
+};
+
+export const listProviders = (): GenerationProviderInfo[] => {
+  const http = httpProviderFromEnv();
+  return [
+    { name: "http", label: "Model server", model: http?.model ?? "", available: Boolean(http) },
+    { name: "offline", label: "Offline", model: offlineProvider.model, available: true },
+  ];
+};
+
+/** The HTTP provider is the default once `TEXT_GENERATION_URL` is set; otherwise everything runs offline. */
+export const resolveProvider = (name?: GenerationProviderName) => {
+  if (name === "offline") {
+    return offlineProvider;
+  }
+  const http = httpProviderFromEnv();
+  if (name === "http" && !http) {
+    throw new TextGenerationError("No text generation endpoint is configured (set TEXT_GENERATION_URL).");
+  }
+  return http ?? offlineProvider;
+};
+
+export const generateCopy = async (
+  request: GenerationRequest,
+  providerName?: GenerationProviderName,
+): Promise<GenerationResult> => {
+  const provider = resolveProvider(providerName);
+  const started = performance.now();
+  const { copy, usage } = await provider.generate(request);
+  return {
+    provider: provider.name,
+    model: provider.model,
+    copy,
+    usage,
+    latencyMs: Math.round(performance.now() - started),
+  };
+};
@@ -0,0 +1,191 @@
+import {
+  AgentSettings,
+  DEFAULT_ENDPOINT,
+  ListingOperation,
+  ProductPayload,
+  SANDBOX_TOKEN,
+  buildOperationPayload,
+  resolveEndpoint,
+} from "../indiamart";
+import { FailureKind } from "../jobs";
+import { ValidationError, ValidationWarning, summarizeErrors, validateProduct, validateWarnings } from "../validation";
+
+export type UploadOutcome = {
+  httpStatus: number;
+  /** From IndiaMART's `Retry-After` header, when it sent one. */
+  retryAfterMs?: number;
+  /** What was (or in simulation would have been) sent, for the audit log. Holds no credentials. */
+  request?: { endpoint?: string; payload: unknown };
+  body: {
+    status?: string | number;
+    error?: string;
+    errors?: ValidationError[];
+    warnings?: ValidationWarning[];
+    operation?: ListingOperation;
+    payload?: Record<string, string>;
+    response?: unknown;
+  };
+};
+
+export type UploadTarget = {
+  operation: ListingOperation;
+  productId?: string;
+};
+
+/**
+ * Sandbox uploads go to the bundled mock catalog, never to the profile's endpoint, and use the sandbox token rather
+ * than the stored production key.
+ */
+const sandboxSettings = (settings: AgentSettings | undefined): AgentSettings => ({
+  apiKey: process.env.SANDBOX_INDIAMART_TOKEN || SANDBOX_TOKEN,
+  sellerId: settings?.sellerId?.trim() || "SANDBOX-SELLER",
+  baseUrl:
+    process.env.SANDBOX_INDIAMART_URL ||
+    `http://127.0.0.1:${process.env.PORT || 3000}/api/mock-indiamart/catalog/v1/product/add`,
+  mode: "sandbox",
+});
+
+/** `Retry-After` is either a number of seconds or an HTTP date. */
+const parseRetryAfter = (value: string | null) => {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+export const uploadProduct = async (
+  product: ProductPayload,
+  settings: AgentSettings | undefined,
+  target: UploadTarget = { operation: "create" },
+): Promise<UploadOutcome> => {
+  const { operation, productId } = target;
+  const errors: ValidationError[] = operation === "delete" ? [] : validateProduct(product);
+
+  if (operation !== "create" && !productId) {
+    errors.push({
+      field: "sku",
+      code: "unknown_listing",
+      message: product.sku
+        ? `No IndiaMART listing is recorded for SKU ${product.sku}.`
+        : "A SKU is required to update or delete a listing.",
+    });
+  }
+
+  if (errors.length) {
+    return {
+      httpStatus: 400,
+      body: { error: `Product failed validation: ${summarizeErrors(errors)}`, errors },
+    };
+  }
+
+  const warnings = operation === "delete" ? [] : validateWarnings(product);
+
+  const normalizedSettings: AgentSettings =
+    settings?.mode === "sandbox"
+      ? sandboxSettings(settings)
+      : {
+          apiKey: settings?.apiKey?.trim(),
+          sellerId: settings?.sellerId?.trim(),
+          baseUrl: settings?.baseUrl?.trim(),
+          mode: settings?.mode ?? "simulate",
+        };
+
+  const preparedPayload = buildOperationPayload(product, normalizedSettings, operation, productId);
+
+  if (normalizedSettings.mode === "simulate") {
+    return {
+      httpStatus: 200,
+      request: { payload: preparedPayload },
+      body: {
+        status: "simulated",
+        operation,
+        payload: preparedPayload,
+        ...(warnings.length ? { warnings } : {}),
+      },
+    };
+  }
+
+  if (!normalizedSettings.apiKey) {
+    return { httpStatus: 400, body: { error: "API key is required in live mode." } };
+  }
+
+  if (!normalizedSettings.sellerId) {
+    return { httpStatus: 400, body: { error: "Seller ID is required in live mode." } };
+  }
+
+  const endpoint = resolveEndpoint(normalizedSettings.baseUrl || DEFAULT_ENDPOINT, operation);
+  const request = { endpoint, payload: preparedPayload };
+
+  try {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        authtoken: normalizedSettings.apiKey,
+      },
+      body: JSON.stringify(preparedPayload),
+    });
+
+    const contentType = response.headers.get("content-type");
+    const responsePayload =
+      contentType && contentType.includes("application/json") ? await response.json() : await response.text();
+
+    if (!response.ok) {
+      return {
+        httpStatus: 502,
+        request,
+        retryAfterMs: parseRetryAfter(response.headers.get("retry-after")),
+        body: {
+          error: "IndiaMART API returned an error.",
+          status: response.status,
+          response: responsePayload,
+        },
+      };
+    }
+
+    return {
+      httpStatus: 200,
+      request,
+      body: {
+        status: "success",
+        operation,
+        response: responsePayload,
+        ...(warnings.length ? { warnings } : {}),
+      },
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unexpected error while reaching IndiaMART.";
+    return {
+      httpStatus: 504,
+      request,
+      body: {
+        error: message,
+      },
+    };
+  }
+};
+
+const RETRYABLE_UPSTREAM_STATUSES = new Set([408, 425, 429]);
+
+/**
+ * Maps a failed outcome onto the failure kinds the queue understands. Validation errors never succeed on a
+ * retry; IndiaMART 5xx/429 responses and network failures usually do.
+ */
+export const classifyFailure = (outcome: UploadOutcome): { kind: FailureKind; retryable: boolean } => {
+  if (outcome.httpStatus === 504) {
+    return { kind: "network", retryable: true };
+  }
+  if (outcome.httpStatus === 502) {
+    const upstreamStatus = typeof outcome.body.status === "number" ? outcome.body.status : 0;
+    return {
+      kind: "upstream",
+      retryable: upstreamStatus >= 500 || RETRYABLE_UPSTREAM_STATUSES.has(upstreamStatus),
+    };
+  }
+  return { kind: "validation", retryable: false };
+};
@@ -0,0 +1,123 @@
+import { DRAFT_FIELDS } from "./importMapping";
+import { ProductDraft } from "./indiamart";
+
+export type TemplateSelection = "rotate" | "random";
+
+export type TemplateVariant = {
+  short: string;
+  long: string;
+};
+
+/** A template with no categories is the fallback for products whose category has no template of its own. */
+export type DescriptionTemplate = {
+  id: string;
+  name: string;
+  categories: string[];
+  selection: TemplateSelection;
+  variants: TemplateVariant[];
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type DescriptionTemplateInput = {
+  name?: string;
+  categories?: string[];
+  selection?: TemplateSelection;
+  variants?: TemplateVariant[];
+};
+
+/** The sentence pattern the form used before templates existed; used while no template is saved. */
+export const BUILT_IN_TEMPLATE: DescriptionTemplate = {
+  id: "built-in",
+  name: "Built-in",
+  categories: [],
+  selection: "rotate",
+  variants: [
+    {
+      short: "{{title|This product}} delivers {{featureList|premium quality build with reliable performance}}.",
+      long: "{{title|This product}} is engineered for businesses that need dependable supply. Key highlights include {{featureList|premium quality build with reliable performance}}. Suitable for categories like {{category|industrial supplies}} with ready stock of {{stock|custom quantities}}.",
+    },
+  ],
+  createdAt: 0,
+  updatedAt: 0,
+};
+
+/** Values a template can use on top of the draft fields themselves. */
+const derivedValues = (draft: ProductDraft): Record<string, string> => {
+  const features = draft.features
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+  return {
+    featureList: features.join(", ").toLowerCase(),
+    firstFeature: features[0] ?? "",
+    featureCount: features.length ? String(features.length) : "",
+    keywordList: draft.keywords
+      .split(",")
+      .map((keyword) => keyword.trim())
+      .filter(Boolean)
+      .join(", "),
+  };
+};
+
+/** Every draft field plus the derived values, for the editor's placeholder list. */
+export const TEMPLATE_PLACEHOLDERS = [...DRAFT_FIELDS, "featureList", "firstFeature", "featureCount", "keywordList"];
+
+const BLOCK = /\{\{#(if|unless) (\w+)\}\}((?:(?!\{\{#(?:if|unless) )[\s\S])*?)\{\{\/\1\}\}/;
+const PLACEHOLDER = /\{\{(\w+)(?:\|([^}]*))?\}\}/g;
+
+/**
+ * Renders `{{field}}`, `{{field|fallback}}`, `{{#if field}}…{{else}}…{{/if}}` and `{{#unless field}}…{{/unless}}`.
+ * Blocks may nest; the innermost is resolved first. Unknown placeholders render as empty text, and runs of spaces
+ * left behind by empty values are collapsed.
+ */
+export const renderTemplate = (source: string, draft: ProductDraft) => {
+  const values: Record<string, string> = { ...draft, ...derivedValues(draft) };
+  const has = (field: string) => Boolean(values[field]?.trim());
+
+  let text = source;
+  for (let match = BLOCK.exec(text); match; match = BLOCK.exec(text)) {
+    const [whole, kind, field, body] = match;
+    const [whenTrue, whenFalse = ""] = body.split("{{else}}");
+    const truthy = kind === "if" ? has(field) : !has(field);
+    text = text.slice(0, match.index) + (truthy ? whenTrue : whenFalse) + text.slice(match.index + whole.length);
+  }
+
+  return text
+    .replace(PLACEHOLDER, (_, field: string, fallback?: string) =>
+      has(field) ? values[field].trim() : (fallback ?? ""),
+    )
+    .replace(/[ \t]{2,}/g, " ")
+    .replace(/ +([.,;:])/g, "$1")
+    .trim();
+};
+
+const sameCategory = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/** The template listing the draft's category, else the first catch-all template, else the built-in one. */
+export const templateForCategory = (templates: DescriptionTemplate[], category: string) =>
+  (category.trim() && templates.find((template) => template.categories.some((item) => sameCategory(item, category)))) ||
+  templates.find((template) => template.categories.length === 0) ||
+  BUILT_IN_TEMPLATE;
+
+/** `sequence` drives rotation (pass a running counter or the item's position); random ignores it. */
+export const pickVariant = (template: DescriptionTemplate, sequence: number) => {
+  const count = template.variants.length;
+  if (count === 0) {
+    return null;
+  }
+  const index = template.selection === "random" ? Math.floor(Math.random() * count) : sequence % count;
+  return template.variants[index];
+};
+
+export const applyTemplate = (draft: ProductDraft, template: DescriptionTemplate, sequence: number) => {
+  const variant = pickVariant(template, sequence);
+  if (!variant) {
+    return draft;
+  }
+  return {
+    ...draft,
+    shortDescription: renderTemplate(variant.short, draft),
+    description: renderTemplate(variant.long, draft),
+  };
+};
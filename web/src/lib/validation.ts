@@ -0,0 +1,207 @@
+import { MAX_LISTING_IMAGES } from "./images";
+import { ProductDraft, ProductPayload, normalizeProduct } from "./indiamart";
+
+export type ValidationCode =
+  | "required"
+  | "not_a_number"
+  | "out_of_range"
+  | "not_an_integer"
+  | "invalid_currency"
+  | "invalid_url"
+  | "too_long"
+  | "too_many"
+  | "unknown_listing"
+  | "not_text";
+
+export type ValidationError = {
+  field: keyof ProductPayload;
+  code: ValidationCode;
+  message: string;
+};
+
+/** Something that does not block an upload but changes what IndiaMART receives. */
+export type ValidationWarning = {
+  field: keyof ProductPayload;
+  code: "extra_images";
+  message: string;
+};
+
+type TextField = Exclude<keyof ProductPayload, "keywords" | "imageUrls" | "features">;
+
+/** Character limits for every column `buildIndiaMartPayload` sends. List fields are checked per item and joined. */
+export const FIELD_LIMITS: Record<TextField, number> = {
+  sku: 50,
+  title: 120,
+  category: 100,
+  price: 15,
+  currency: 3,
+  unit: 30,
+  stock: 15,
+  minOrderQty: 15,
+  shortDescription: 300,
+  description: 4000,
+  packaging: 250,
+  leadTime: 100,
+};
+
+export const LIST_LIMITS = {
+  keywords: { item: 50, joined: 500, count: 20 },
+  features: { item: 200, joined: 1000, count: 15 },
+  // Drafts may keep more images than a listing takes; see `validateWarnings`.
+  imageUrls: { item: 500, joined: 5000, count: 10 },
+} as const;
+
+export const REQUIRED_FIELDS: TextField[] = ["title", "description", "shortDescription"];
+
+const FIELD_LABELS: Record<keyof ProductPayload, string> = {
+  sku: "SKU",
+  title: "Product title",
+  category: "Category",
+  price: "Price",
+  currency: "Currency",
+  unit: "Unit",
+  stock: "Available stock",
+  minOrderQty: "Minimum order quantity",
+  keywords: "Keywords",
+  imageUrls: "Image URLs",
+  shortDescription: "Short description",
+  description: "Full description",
+  features: "Key features",
+  packaging: "Packaging details",
+  leadTime: "Lead time",
+};
+
+const FALLBACK_CURRENCIES = ["INR", "USD", "EUR", "GBP", "AED", "SGD", "AUD", "CAD", "JPY", "CNY", "SAR"];
+
+let currencyCodes: Set<string> | null = null;
+
+const getCurrencyCodes = () => {
+  if (!currencyCodes) {
+    const supported =
+      typeof Intl.supportedValuesOf === "function" ? Intl.supportedValuesOf("currency") : FALLBACK_CURRENCIES;
+    currencyCodes = new Set(supported);
+  }
+  return currencyCodes;
+};
+
+const asText = (value: unknown) => (typeof value === "string" ? value.trim() : value == null ? "" : String(value));
+
+const asList = (value: unknown) => (Array.isArray(value) ? value.map(asText).filter(Boolean) : []);
+
+const isHttpUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+export const validateProduct = (product: ProductPayload): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  const push = (field: keyof ProductPayload, code: ValidationCode, message: string) => {
+    errors.push({ field, code, message });
+  };
+
+  REQUIRED_FIELDS.forEach((field) => {
+    if (!asText(product[field])) {
+      push(field, "required", `${FIELD_LABELS[field]} is required.`);
+    }
+  });
+
+  (Object.keys(FIELD_LIMITS) as TextField[]).forEach((field) => {
+    const value = asText(product[field]);
+    if (value.length > FIELD_LIMITS[field]) {
+      push(field, "too_long", `${FIELD_LABELS[field]} must be at most ${FIELD_LIMITS[field]} characters.`);
+    }
+  });
+
+  const price = asText(product.price);
+  if (price) {
+    const amount = Number(price);
+    if (!Number.isFinite(amount)) {
+      push("price", "not_a_number", "Price must be a number, e.g. 115 or 99.50.");
+    } else if (amount <= 0) {
+      push("price", "out_of_range", "Price must be greater than zero.");
+    }
+  }
+
+  (["stock", "minOrderQty"] as const).forEach((field) => {
+    const value = asText(product[field]);
+    if (!value) {
+      return;
+    }
+    const quantity = Number(value);
+    if (!Number.isFinite(quantity)) {
+      push(field, "not_a_number", `${FIELD_LABELS[field]} must be a number.`);
+    } else if (!Number.isInteger(quantity)) {
+      push(field, "not_an_integer", `${FIELD_LABELS[field]} must be a whole number.`);
+    } else if (quantity < (field === "minOrderQty" ? 1 : 0)) {
+      push(
+        field,
+        "out_of_range",
+        `${FIELD_LABELS[field]} must be ${field === "minOrderQty" ? "at least 1" : "zero or more"}.`,
+      );
+    }
+  });
+
+  const currency = asText(product.currency).toUpperCase();
+  if (currency && !getCurrencyCodes().has(currency)) {
+    push("currency", "invalid_currency", `${currency} is not an ISO 4217 currency code.`);
+  }
+
+  (Object.keys(LIST_LIMITS) as (keyof typeof LIST_LIMITS)[]).forEach((field) => {
+    const items = asList(product[field]);
+    const limits = LIST_LIMITS[field];
+    if (items.length > limits.count) {
+      push(
+        field,
+        "too_many",
+        `${FIELD_LABELS[field]} accepts at most ${limits.count} entries (${items.length} given).`,
+      );
+    }
+    if (items.some((item) => item.length > limits.item)) {
+      push(field, "too_long", `Each entry in ${FIELD_LABELS[field]} must be at most ${limits.item} characters.`);
+    } else if (items.join(",").length > limits.joined) {
+      push(field, "too_long", `${FIELD_LABELS[field]} must be at most ${limits.joined} characters combined.`);
+    }
+  });
+
+  const badUrls = asList(product.imageUrls).filter((url) => !isHttpUrl(url));
+  if (badUrls.length) {
+    push("imageUrls", "invalid_url", `Not a valid http(s) URL: ${badUrls.join(", ")}`);
+  }
+
+  return errors;
+};
+
+export const validateDraft = (draft: ProductDraft) => validateProduct(normalizeProduct(draft));
+
+/** A draft sent to the API is only trusted once every field is a string; the worker calls string methods on them. */
+export const validateDraftShape = (value: unknown): ValidationError[] => {
+  const record = value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+  return (Object.keys(FIELD_LABELS) as (keyof ProductPayload)[])
+    .filter((field) => typeof record[field] !== "string")
+    .map((field) => ({ field, code: "not_text", message: `${FIELD_LABELS[field]} is missing or not text.` }));
+};
+
+export const validateWarnings = (product: ProductPayload): ValidationWarning[] => {
+  const images = asList(product.imageUrls);
+  if (images.length <= MAX_LISTING_IMAGES) {
+    return [];
+  }
+  const skipped = images.length - MAX_LISTING_IMAGES;
+  return [
+    {
+      field: "imageUrls",
+      code: "extra_images",
+      message: `IndiaMART takes ${MAX_LISTING_IMAGES} images per product; only the first ${MAX_LISTING_IMAGES} of ${
+        images.length
+      } are sent and ${skipped} ${skipped === 1 ? "is" : "are"} left out. Reorder the list to choose which.`,
+    },
+  ];
+};
+
+export const draftWarnings = (draft: ProductDraft) => validateWarnings(normalizeProduct(draft));
+
+export const summarizeErrors = (errors: ValidationError[]) => errors.map((error) => error.message).join(" ");
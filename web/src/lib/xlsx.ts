@@ -0,0 +1,247 @@
+import { CsvRow } from "./csv";
+
+/**
+ * Minimal XLSX reader for the browser and Node: an .xlsx file is a zip of XML parts, so this reads the zip central
+ * directory, inflates entries with `DecompressionStream` and walks the XML with a small element parser (Node has no
+ * `DOMParser`). It only extracts cell text; styles, formulas and dates (which arrive as serial numbers) are not
+ * interpreted.
+ */
+
+export type XlsxWorkbook = {
+  sheetNames: string[];
+  readSheet: (name: string) => Promise<CsvRow[]>;
+};
+
+export class XlsxError extends Error {}
+
+type ZipEntry = {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+};
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const readZipDirectory = (view: DataView) => {
+  let end = -1;
+  // The end record is at least 22 bytes and may be followed by a comment of up to 64 KiB.
+  for (let offset = view.byteLength - 22; offset >= Math.max(0, view.byteLength - 65_557); offset -= 1) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new XlsxError("The file is not a valid .xlsx workbook.");
+  }
+
+  const entries = new Map<string, ZipEntry>();
+  const count = view.getUint16(end + 10, true);
+  const decoder = new TextDecoder();
+  let offset = view.getUint32(end + 16, true);
+  for (let index = 0; index < count; index += 1) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new XlsxError("The workbook's zip directory is corrupt.");
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength));
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+const readZipEntry = async (view: DataView<ArrayBuffer>, entry: ZipEntry) => {
+  const header = entry.localHeaderOffset;
+  if (view.getUint32(header, true) !== LOCAL_FILE_HEADER) {
+    throw new XlsxError("The workbook's zip entries are corrupt.");
+  }
+  const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+  const data = new Uint8Array(view.buffer, view.byteOffset + start, entry.compressedSize);
+  if (entry.method === 0) {
+    return new TextDecoder().decode(data);
+  }
+  if (entry.method !== 8) {
+    throw new XlsxError(`Unsupported zip compression method ${entry.method}.`);
+  }
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Response(stream).text();
+};
+
+type XmlElement = {
+  tagName: string;
+  attributes: Map<string, string>;
+  parent: XmlElement | null;
+  children: (XmlElement | string)[];
+};
+
+const ENTITIES: Record<string, string> = { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" };
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name.startsWith("#")) {
+      const code = name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : Number(name.slice(1));
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return ENTITIES[name] ?? entity;
+  });
+
+const XML_TOKEN =
+  /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<[?!][\s\S]*?>|<(\/?)([^\s/>]+)((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>|([^<]+)/g;
+const XML_ATTRIBUTE = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/** Builds an element tree from well-formed XML; declarations, comments and processing instructions are skipped. */
+const parseXml = (text: string) => {
+  const root: XmlElement = { tagName: "#document", attributes: new Map(), parent: null, children: [] };
+  let current = root;
+  for (const [, cdata, closing, tagName, attributeText, selfClosing, characters] of text.matchAll(XML_TOKEN)) {
+    if (cdata !== undefined) {
+      current.children.push(cdata);
+    } else if (characters !== undefined) {
+      current.children.push(decodeEntities(characters));
+    } else if (!tagName) {
+      continue;
+    } else if (closing) {
+      current = current.parent ?? root;
+    } else {
+      const attributes = new Map(
+        Array.from(attributeText.matchAll(XML_ATTRIBUTE), ([, name, double, single]) => [
+          name,
+          decodeEntities(double ?? single ?? ""),
+        ]),
+      );
+      const element: XmlElement = { tagName, attributes, parent: current, children: [] };
+      current.children.push(element);
+      if (!selfClosing) {
+        current = element;
+      }
+    }
+  }
+  return root;
+};
+
+/** Descendants named `tag`, in document order, like `getElementsByTagName`. */
+const elements = (parent: XmlElement, tag: string, found: XmlElement[] = []) => {
+  for (const child of parent.children) {
+    if (typeof child !== "string") {
+      if (child.tagName === tag) {
+        found.push(child);
+      }
+      elements(child, tag, found);
+    }
+  }
+  return found;
+};
+
+const textContent = (element: XmlElement): string =>
+  element.children.map((child) => (typeof child === "string" ? child : textContent(child))).join("");
+
+const attribute = (element: XmlElement, name: string) => element.attributes.get(name) ?? null;
+
+/** Shared strings may be plain `<t>` or rich-text runs; phonetic hints (`<rPh>`) are not part of the value. */
+const readSharedStrings = (xml: XmlElement) =>
+  elements(xml, "si").map((item) =>
+    elements(item, "t")
+      .filter((node) => node.parent?.tagName !== "rPh")
+      .map(textContent)
+      .join(""),
+  );
+
+const columnIndex = (reference: string) => {
+  const letters = reference.replace(/\d+$/, "").toUpperCase();
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+};
+
+const readCell = (cell: XmlElement, sharedStrings: string[]) => {
+  const type = attribute(cell, "t");
+  const [valueNode] = elements(cell, "v");
+  const value = valueNode ? textContent(valueNode) : "";
+  if (type === "s") {
+    return sharedStrings[Number(value)] ?? "";
+  }
+  if (type === "inlineStr") {
+    return elements(cell, "t").map(textContent).join("");
+  }
+  if (type === "b") {
+    return value === "1" ? "TRUE" : "FALSE";
+  }
+  if (!type || type === "n") {
+    // Excel stores doubles with 17 significant digits; round-trip through Number to get "99.9", not "99.900000000000006".
+    const number = Number(value);
+    return value !== "" && Number.isFinite(number) ? String(number) : value;
+  }
+  return value;
+};
+
+const resolveTarget = (target: string) =>
+  target.startsWith("/") ? target.slice(1) : `xl/${target.replace(/^\.\//, "")}`;
+
+export const readXlsx = async (blob: Blob): Promise<XlsxWorkbook> => {
+  const view = new DataView(await blob.arrayBuffer());
+  const entries = readZipDirectory(view);
+  const readPart = async (name: string) => {
+    const entry = entries.get(name);
+    return entry ? parseXml(await readZipEntry(view, entry)) : null;
+  };
+
+  const workbook = await readPart("xl/workbook.xml");
+  const relationships = await readPart("xl/_rels/workbook.xml.rels");
+  if (!workbook || !relationships) {
+    throw new XlsxError("The file is not a valid .xlsx workbook.");
+  }
+
+  const targets = new Map(
+    elements(relationships, "Relationship").map((node) => [
+      attribute(node, "Id") ?? "",
+      resolveTarget(attribute(node, "Target") ?? ""),
+    ]),
+  );
+  const sheets = new Map(
+    elements(workbook, "sheet").map((node) => [
+      attribute(node, "name") ?? "",
+      targets.get(attribute(node, "r:id") ?? "") ?? "",
+    ]),
+  );
+
+  let sharedStrings: Promise<string[]> | null = null;
+  const getSharedStrings = () => {
+    sharedStrings ??= readPart("xl/sharedStrings.xml").then((xml) => (xml ? readSharedStrings(xml) : []));
+    return sharedStrings;
+  };
+
+  const readSheet = async (name: string) => {
+    const sheet = await readPart(sheets.get(name) ?? "");
+    if (!sheet) {
+      throw new XlsxError(`Sheet "${name}" was not found in the workbook.`);
+    }
+    const strings = await getSharedStrings();
+    const rows: CsvRow[] = [];
+    elements(sheet, "row").forEach((row, position) => {
+      const cells: string[] = [];
+      elements(row, "c").forEach((cell) => {
+        const reference = attribute(cell, "r");
+        const index = reference ? columnIndex(reference) : cells.length;
+        cells[index] = readCell(cell, strings).trim();
+      });
+      const filled = Array.from(cells, (value) => value ?? "");
+      if (filled.some(Boolean)) {
+        rows.push({ line: Number(attribute(row, "r")) || position + 1, cells: filled });
+      }
+    });
+    return rows;
+  };
+
+  return { sheetNames: [...sheets.keys()], readSheet };
+};